@@ -109,4 +109,45 @@ BEGIN
   END IF;
 END //
 
+-- segment_clauses_match evaluates the targeting of an offer, compiled to
+-- disjunctive normal form by the web app: a list of clauses which each list
+-- the segments a subscriber must be a member of ("all") and must not be a
+-- member of ("none"). The subscriber matches if any of the clauses match.
+-- Offers without targeting are matched by counting segments instead, see
+-- match_offers_to_subscribers.
+CREATE OR REPLACE FUNCTION segment_clauses_match (
+  _clauses JSON,
+  _member_segment_ids JSON
+) RETURNS BOOL AS
+DECLARE
+  _clause JSON;
+  _ids JSON;
+  _matches BOOL;
+BEGIN
+  FOR i IN 0 .. JSON_LENGTH(_clauses) - 1 LOOP
+    _clause = JSON_EXTRACT_JSON(_clauses, i);
+    _matches = TRUE;
+
+    _ids = JSON_EXTRACT_JSON(_clause, "all");
+    FOR j IN 0 .. JSON_LENGTH(_ids) - 1 LOOP
+      IF NOT JSON_ARRAY_CONTAINS_DOUBLE(_member_segment_ids, JSON_EXTRACT_DOUBLE(_ids, j)) THEN
+        _matches = FALSE;
+      END IF;
+    END LOOP;
+
+    _ids = JSON_EXTRACT_JSON(_clause, "none");
+    FOR j IN 0 .. JSON_LENGTH(_ids) - 1 LOOP
+      IF JSON_ARRAY_CONTAINS_DOUBLE(_member_segment_ids, JSON_EXTRACT_DOUBLE(_ids, j)) THEN
+        _matches = FALSE;
+      END IF;
+    END LOOP;
+
+    IF _matches THEN
+      RETURN TRUE;
+    END IF;
+  END LOOP;
+
+  RETURN FALSE;
+END //
+
 DELIMITER ;
\ No newline at end of file
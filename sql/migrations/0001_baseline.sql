@@ -0,0 +1,8 @@
+-- The schema bundled in schema.sql, functions.sql and procedures.sql when
+-- versioned migrations were introduced. Databases created before then have no
+-- schema_migrations table and are treated as being at this version.
+--
+-- Add a migration as NNNN_description.sql using the next version number, and
+-- make the same change to schema.sql. Migrations only need to change existing
+-- tables: missing tables are created from schema.sql, and functions and
+-- procedures are always replaced with the bundled versions.
@@ -0,0 +1,5 @@
+-- Flight dates and budgets of offers, see the offers table in schema.sql.
+ALTER TABLE offers ADD COLUMN start_at DATETIME;
+ALTER TABLE offers ADD COLUMN end_at DATETIME;
+ALTER TABLE offers ADD COLUMN daily_budget_cents BIGINT;
+ALTER TABLE offers ADD COLUMN total_budget_cents BIGINT;
@@ -0,0 +1,3 @@
+-- Frequency caps of offers, see the offers table in schema.sql.
+ALTER TABLE offers ADD COLUMN frequency_cap BIGINT;
+ALTER TABLE offers ADD COLUMN frequency_cap_interval ENUM ("minute", "hour", "day", "week");
@@ -0,0 +1,22 @@
+-- Segment kinds with a threshold, see the segments table in schema.sql. The
+-- threshold is part of the unique key and SingleStore can't add a unique key
+-- to an existing table, so the table is rebuilt and its segments copied over.
+create rowstore reference table segments_0004 (
+  segment_id BIGINT NOT NULL,
+
+  valid_interval ENUM ("minute", "hour", "day", "week", "month") NOT NULL,
+  filter_kind ENUM ("olc_8", "olc_8_visits", "olc_8_dwell", "request", "purchase", "purchase_category", "no_purchase") NOT NULL,
+  filter_value TEXT NOT NULL,
+  filter_threshold BIGINT NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (segment_id),
+  UNIQUE KEY (valid_interval, filter_kind, filter_value, filter_threshold),
+  KEY (filter_kind, filter_value)
+);
+
+INSERT INTO segments_0004 (segment_id, valid_interval, filter_kind, filter_value)
+SELECT segment_id, valid_interval, filter_kind :> TEXT, filter_value
+FROM segments;
+
+DROP TABLE segments;
+ALTER TABLE segments_0004 RENAME TO segments;
@@ -0,0 +1,3 @@
+-- Targeting expressions of offers, see the offers table in schema.sql.
+ALTER TABLE offers ADD COLUMN segment_expression JSON;
+ALTER TABLE offers ADD COLUMN segment_clauses JSON;
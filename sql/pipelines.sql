@@ -1,30 +1,24 @@
 CREATE OR REPLACE PIPELINE locations
-AS LOAD DATA S3 'singlestore-realtime-digital-marketing/${SCALE_FACTOR}/locations.*'
-CREDENTIALS '{}'
-CONFIG '{ "region": "us-east-1" }'
+AS LOAD DATA ${SOURCE}
 MAX_PARTITIONS_PER_BATCH ${PARTITIONS}
-INTO PROCEDURE process_locations FORMAT PARQUET (
+INTO PROCEDURE process_locations FORMAT ${FORMAT} (
   subscriber_id <- subscriberid,
   offset_x <- offsetX,
   offset_y <- offsetY
 );
 
 CREATE OR REPLACE PIPELINE requests
-AS LOAD DATA S3 'singlestore-realtime-digital-marketing/${SCALE_FACTOR}/requests.*'
-CREDENTIALS '{}'
-CONFIG '{ "region": "us-east-1" }'
+AS LOAD DATA ${SOURCE}
 MAX_PARTITIONS_PER_BATCH ${PARTITIONS}
-INTO PROCEDURE process_requests FORMAT PARQUET (
+INTO PROCEDURE process_requests FORMAT ${FORMAT} (
   subscriber_id <- subscriberid,
   domain <- domain
 );
 
 CREATE OR REPLACE PIPELINE purchases
-AS LOAD DATA S3 'singlestore-realtime-digital-marketing/${SCALE_FACTOR}/purchases.*'
-CREDENTIALS '{}'
-CONFIG '{ "region": "us-east-1" }'
+AS LOAD DATA ${SOURCE}
 MAX_PARTITIONS_PER_BATCH ${PARTITIONS}
-INTO PROCEDURE process_purchases FORMAT PARQUET (
+INTO PROCEDURE process_purchases FORMAT ${FORMAT} (
   subscriber_id <- subscriberid,
   vendor <- vendor
 );
@@ -52,15 +52,56 @@ BEGIN
   FROM _batch, cities;
 END //
 
+-- the browser event generator sends its batches as JSON arrays of rows with
+-- the columns of the pipeline batches above
+CREATE OR REPLACE PROCEDURE process_locations_json (_rows JSON)
+AS
+DECLARE
+  _batch QUERY(
+    subscriber_id BIGINT NOT NULL,
+    offset_x DOUBLE NOT NULL,
+    offset_y DOUBLE NOT NULL
+  ) = SELECT
+    table_col::%subscriber_id :> BIGINT AS subscriber_id,
+    table_col::%offset_x AS offset_x,
+    table_col::%offset_y AS offset_y
+  FROM TABLE(JSON_TO_ARRAY(_rows));
+BEGIN
+  CALL process_locations(_batch);
+END //
+
+CREATE OR REPLACE PROCEDURE process_requests_json (_rows JSON)
+AS
+DECLARE
+  _batch QUERY(subscriber_id BIGINT NOT NULL, domain TEXT NOT NULL) = SELECT
+    table_col::%subscriber_id :> BIGINT AS subscriber_id,
+    table_col::$domain AS domain
+  FROM TABLE(JSON_TO_ARRAY(_rows));
+BEGIN
+  CALL process_requests(_batch);
+END //
+
+CREATE OR REPLACE PROCEDURE process_purchases_json (_rows JSON)
+AS
+DECLARE
+  _batch QUERY(subscriber_id BIGINT NOT NULL, vendor TEXT NOT NULL) = SELECT
+    table_col::%subscriber_id :> BIGINT AS subscriber_id,
+    table_col::$vendor AS vendor
+  FROM TABLE(JSON_TO_ARRAY(_rows));
+BEGIN
+  CALL process_purchases(_batch);
+END //
+
 CREATE OR REPLACE PROCEDURE run_matching_process (
-  _interval ENUM("second", "minute", "hour", "day", "week", "month")
+  _interval ENUM("second", "minute", "hour", "day", "week", "month"),
+  _daily_cap BIGINT
 ) RETURNS BIGINT
 AS
 DECLARE
   _ts DATETIME = NOW(6);
   _count BIGINT;
 BEGIN
-  INSERT INTO notifications SELECT _ts, * FROM match_offers_to_subscribers(_interval);
+  INSERT INTO notifications SELECT _ts, * FROM match_offers_to_subscribers(_interval, _daily_cap);
 
   _count = row_count();
 
@@ -70,6 +111,13 @@ BEGIN
   WHERE ts = _ts
   ON DUPLICATE KEY UPDATE last_notification = _ts;
 
+  INSERT INTO offer_spend (offer_id, spend_date, spent_cents)
+  SELECT offer_id, DATE(_ts), SUM(cost_cents)
+  FROM notifications
+  WHERE ts = _ts
+  GROUP BY offer_id
+  ON DUPLICATE KEY UPDATE spent_cents = spent_cents + VALUES(spent_cents);
+
   RETURN _count;
 END //
 
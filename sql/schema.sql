@@ -1,3 +1,11 @@
+create rowstore table if not exists schema_migrations (
+  -- versions of the files in sql/migrations which have been applied
+  version INT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  checksum BIGINT NOT NULL,
+  applied_at DATETIME(6) NOT NULL
+);
+
 create rowstore table if not exists worldcities (
   city_id BIGINT NOT NULL PRIMARY KEY,
   city_name TEXT NOT NULL,
@@ -14,6 +22,16 @@ create rowstore table if not exists sessions (
   PRIMARY KEY (session_id)
 );
 
+create rowstore reference table if not exists retention_policies (
+  -- one of the timeseries tables, tables without a policy keep the number of
+  -- rows of the selected scale factor
+  table_name TEXT NOT NULL PRIMARY KEY,
+
+  -- NULL disables the limit, when both are set the stricter one applies
+  max_rows BIGINT,
+  max_age_seconds BIGINT
+);
+
 create rowstore reference table if not exists cities (
   city_id BIGINT NOT NULL PRIMARY KEY,
   city_name TEXT NOT NULL,
@@ -85,11 +103,29 @@ create rowstore reference table if not exists offers (
   notification_zone GEOGRAPHY NOT NULL,
   segment_ids JSON NOT NULL,
 
+  -- the targeting of the offer over the segments in segment_ids, as a tree
+  -- over their positions and compiled to segment ids for
+  -- segment_clauses_match, NULL targets members of all of them
+  segment_expression JSON,
+  segment_clauses JSON,
+
   notification_content TEXT NOT NULL,
   notification_target TEXT NOT NULL,
 
   maximum_bid_cents BIGINT NOT NULL,
 
+  -- the offer is matched between start_at and end_at, NULL leaves the flight
+  -- open ended, and until its spend reaches either budget
+  start_at DATETIME,
+  end_at DATETIME,
+  daily_budget_cents BIGINT,
+  total_budget_cents BIGINT,
+
+  -- a subscriber receives at most frequency_cap notifications of the offer
+  -- per frequency_cap_interval, NULL for no cap
+  frequency_cap BIGINT,
+  frequency_cap_interval ENUM ("minute", "hour", "day", "week"),
+
   PRIMARY KEY (offer_id),
   INDEX (notification_zone),
   INDEX (customer),
@@ -110,18 +146,49 @@ create table if not exists notifications (
   SORT KEY (ts)
 );
 
+create rowstore reference table if not exists offer_spend (
+  -- spend per offer and day, kept by run_matching_process so that budgets
+  -- don't depend on the retention of notifications
+  offer_id BIGINT NOT NULL,
+  spend_date DATE NOT NULL,
+  spent_cents BIGINT NOT NULL,
+
+  PRIMARY KEY (offer_id, spend_date)
+);
+
+create rowstore reference table if not exists customer_frequency_caps (
+  -- a subscriber receives at most frequency_cap notifications of all the
+  -- offers of the customer per frequency_cap_interval
+  customer TEXT NOT NULL PRIMARY KEY,
+  frequency_cap BIGINT NOT NULL,
+  frequency_cap_interval ENUM ("minute", "hour", "day", "week") NOT NULL
+);
+
 create rowstore reference table if not exists segments (
   segment_id BIGINT NOT NULL,
 
   valid_interval ENUM ("minute", "hour", "day", "week", "month") NOT NULL,
-  filter_kind ENUM ("olc_8", "request", "purchase") NOT NULL,
+  filter_kind ENUM ("olc_8", "olc_8_visits", "olc_8_dwell", "request", "purchase", "purchase_category", "no_purchase") NOT NULL,
   filter_value TEXT NOT NULL,
 
+  -- the number of visits of olc_8_visits and the minutes of olc_8_dwell
+  -- segments, 0 for the other kinds
+  filter_threshold BIGINT NOT NULL DEFAULT 0,
+
   PRIMARY KEY (segment_id),
-  UNIQUE KEY (valid_interval, filter_kind, filter_value),
+  UNIQUE KEY (valid_interval, filter_kind, filter_value, filter_threshold),
   KEY (filter_kind, filter_value)
 );
 
+create rowstore reference table if not exists vendors (
+  -- the vendors of data/vendors.json, purchase_category segments match the
+  -- purchases of every vendor in a category
+  vendor TEXT NOT NULL PRIMARY KEY,
+  category TEXT NOT NULL,
+
+  KEY (category)
+);
+
 create rowstore table if not exists subscriber_segments (
   city_id BIGINT NOT NULL,
   subscriber_id BIGINT NOT NULL,
@@ -134,13 +201,69 @@ create rowstore table if not exists subscriber_segments (
 );
 
 CREATE OR REPLACE FUNCTION match_offers_to_subscribers(
-  _interval ENUM("second", "minute", "hour", "day", "week", "month")
+  _interval ENUM("second", "minute", "hour", "day", "week", "month"),
+  _daily_cap BIGINT
 ) RETURNS TABLE AS RETURN (
   WITH
+    -- offers which are enabled, in flight and under budget
+    active_offers as (
+      SELECT offers.*
+      FROM offers
+      LEFT JOIN (
+        SELECT
+          offer_id,
+          SUM(spent_cents) AS total_spent_cents,
+          SUM(IF(spend_date = CURRENT_DATE(), spent_cents, 0)) AS daily_spent_cents
+        FROM offer_spend
+        GROUP BY offer_id
+      ) spend ON offers.offer_id = spend.offer_id
+      WHERE
+        offers.enabled = TRUE
+        AND (offers.start_at IS NULL OR offers.start_at <= NOW())
+        AND (offers.end_at IS NULL OR offers.end_at > NOW())
+        AND (
+          offers.daily_budget_cents IS NULL
+          OR IFNULL(spend.daily_spent_cents, 0) < offers.daily_budget_cents
+        )
+        AND (
+          offers.total_budget_cents IS NULL
+          OR IFNULL(spend.total_spent_cents, 0) < offers.total_budget_cents
+        )
+    ),
+    -- (offer, subscriber) pairs which reached the frequency cap of the offer
+    capped_offers as (
+      SELECT n.offer_id, n.city_id, n.subscriber_id
+      FROM notifications n
+      JOIN active_offers offers ON n.offer_id = offers.offer_id
+      WHERE
+        offers.frequency_cap IS NOT NULL
+        AND n.ts > date_sub_dynamic(NOW(), offers.frequency_cap_interval)
+      GROUP BY n.offer_id, n.city_id, n.subscriber_id, offers.frequency_cap
+      HAVING COUNT(*) >= offers.frequency_cap
+    ),
+    -- (customer, subscriber) pairs which reached the frequency cap of the
+    -- customer, counting the notifications of all its offers
+    capped_customers as (
+      SELECT caps.customer, n.city_id, n.subscriber_id
+      FROM notifications n
+      JOIN offers ON n.offer_id = offers.offer_id
+      JOIN customer_frequency_caps caps ON offers.customer = caps.customer
+      WHERE n.ts > date_sub_dynamic(NOW(), caps.frequency_cap_interval)
+      GROUP BY caps.customer, n.city_id, n.subscriber_id, caps.frequency_cap
+      HAVING COUNT(*) >= caps.frequency_cap
+    ),
+    -- subscribers which reached the daily cap, NULL for no cap
+    capped_subscribers as (
+      SELECT city_id, subscriber_id
+      FROM notifications
+      WHERE _daily_cap IS NOT NULL AND ts > date_sub_dynamic(NOW(), "day")
+      GROUP BY city_id, subscriber_id
+      HAVING COUNT(*) >= _daily_cap
+    ),
     phase_1 as (
       SELECT offers.*, subscribers.*
       FROM
-        offers,
+        active_offers offers,
         subscribers
       -- grab last notification time for each subscriber
       -- with(table_convert_subselect=true) forces a hash join
@@ -148,17 +271,20 @@ CREATE OR REPLACE FUNCTION match_offers_to_subscribers(
         subscribers.city_id = subscribers_last_notification.city_id
         AND subscribers.subscriber_id = subscribers_last_notification.subscriber_id
       )
+      LEFT JOIN capped_subscribers ON (
+        subscribers.city_id = capped_subscribers.city_id
+        AND subscribers.subscriber_id = capped_subscribers.subscriber_id
+      )
       WHERE
-        offers.enabled = TRUE
-
         -- match offers to subscribers based on current location
-        AND geography_contains(offers.notification_zone, subscribers.current_location)
+        geography_contains(offers.notification_zone, subscribers.current_location)
 
         -- ensure we don't spam subscribers
         AND (
           subscribers_last_notification.last_notification IS NULL
           OR subscribers_last_notification.last_notification < date_sub_dynamic(NOW(), _interval)
         )
+        AND capped_subscribers.subscriber_id IS NULL
 
       -- only match (offer, subscriber) pairs such that
       -- there is no matching notification in the last minute
@@ -170,8 +296,26 @@ CREATE OR REPLACE FUNCTION match_offers_to_subscribers(
           AND subscribers.city_id = n.city_id
           AND subscribers.subscriber_id = n.subscriber_id
       )
+
+      -- respect the frequency caps of the offer and of its customer
+      AND NOT EXISTS (
+        SELECT * FROM capped_offers c
+        WHERE
+          offers.offer_id = c.offer_id
+          AND subscribers.city_id = c.city_id
+          AND subscribers.subscriber_id = c.subscriber_id
+      )
+      AND NOT EXISTS (
+        SELECT * FROM capped_customers c
+        WHERE
+          offers.customer = c.customer
+          AND subscribers.city_id = c.city_id
+          AND subscribers.subscriber_id = c.subscriber_id
+      )
     ),
-    phase_2 as (
+    -- offers without targeting match the subscribers which are members of
+    -- all of their segments
+    phase_2_all as (
       select
         phase_1.*,
         row_number() over (
@@ -184,6 +328,49 @@ CREATE OR REPLACE FUNCTION match_offers_to_subscribers(
         AND phase_1.subscriber_id = segment.subscriber_id
         AND (segment_ids.table_col :> BIGINT) = segment.segment_id
       )
+      where phase_1.segment_clauses IS NULL
+    ),
+    -- the segments of each targeted offer which the subscriber is a member of
+    memberships as (
+      SELECT
+        phase_1.offer_id,
+        phase_1.city_id,
+        phase_1.subscriber_id,
+        JSON_AGG(segment.segment_id) AS member_segment_ids
+      FROM phase_1
+      JOIN TABLE(JSON_TO_ARRAY(phase_1.segment_ids)) AS segment_ids
+      JOIN subscriber_segments segment ON (
+        phase_1.city_id = segment.city_id
+        AND phase_1.subscriber_id = segment.subscriber_id
+        AND (segment_ids.table_col :> BIGINT) = segment.segment_id
+      )
+      WHERE phase_1.segment_clauses IS NOT NULL
+      GROUP BY phase_1.offer_id, phase_1.city_id, phase_1.subscriber_id
+    ),
+    -- subscribers without any of the segments still match targeting which
+    -- only excludes segments
+    phase_2_targeted as (
+      SELECT phase_1.*
+      FROM phase_1
+      LEFT JOIN memberships ON (
+        phase_1.offer_id = memberships.offer_id
+        AND phase_1.city_id = memberships.city_id
+        AND phase_1.subscriber_id = memberships.subscriber_id
+      )
+      WHERE
+        phase_1.segment_clauses IS NOT NULL
+        AND segment_clauses_match(
+          phase_1.segment_clauses,
+          IFNULL(memberships.member_segment_ids, "[]")
+        )
+    ),
+    phase_2 as (
+      select offer_id, maximum_bid_cents, city_id, subscriber_id, current_location
+      from phase_2_all
+      where json_length(segment_ids) = num_matching_segments
+      UNION ALL
+      select offer_id, maximum_bid_cents, city_id, subscriber_id, current_location
+      from phase_2_targeted
     )
   select
     city_id,
@@ -193,7 +380,6 @@ CREATE OR REPLACE FUNCTION match_offers_to_subscribers(
     last_value(maximum_bid_cents) over window_best_offer as cost_cents,
     current_location
   from phase_2
-  where json_length(segment_ids) = num_matching_segments
   group by city_id, subscriber_id
   WINDOW window_best_offer as (
     partition by city_id, subscriber_id
@@ -252,13 +438,168 @@ CREATE OR REPLACE FUNCTION dynamic_subscriber_segments_purchases(
   GROUP BY city_id, subscriber_id, segment_id
 );
 
+-- a visit is a minute with a location in the cell, subscribers are only
+-- evaluated once they have a new location in it
+CREATE OR REPLACE FUNCTION dynamic_subscriber_segments_visits(
+  _since DATETIME(6),
+  _until DATETIME(6)
+) RETURNS TABLE AS RETURN (
+  WITH
+    -- only the subscribers with a new location in the cell are rescanned
+    visited as (
+      SELECT DISTINCT city_id, subscriber_id, segment_id
+      FROM segments, locations
+      WHERE
+        segments.filter_kind = "olc_8_visits"
+        AND segments.filter_value = locations.olc_8
+        AND ts >= _since
+        AND ts < _until
+    )
+  SELECT
+    visited.city_id, visited.subscriber_id, visited.segment_id,
+    MAX(date_add_dynamic(ts, segments.valid_interval)) AS expires_at
+  FROM visited
+  JOIN segments ON visited.segment_id = segments.segment_id
+  JOIN locations ON (
+    visited.city_id = locations.city_id
+    AND visited.subscriber_id = locations.subscriber_id
+    AND segments.filter_value = locations.olc_8
+  )
+  WHERE
+    ts >= date_sub_dynamic(NOW(6), segments.valid_interval)
+    AND ts < _until
+  GROUP BY
+    visited.city_id, visited.subscriber_id, visited.segment_id,
+    segments.filter_threshold
+  HAVING COUNT(DISTINCT DATE_TRUNC("minute", ts)) >= segments.filter_threshold
+);
+
+-- the dwell time is the time between the first and the last location in the
+-- cell within the interval, subscribers are only evaluated once they have a
+-- new location in it
+CREATE OR REPLACE FUNCTION dynamic_subscriber_segments_dwell(
+  _since DATETIME(6),
+  _until DATETIME(6)
+) RETURNS TABLE AS RETURN (
+  WITH
+    -- only the subscribers with a new location in the cell are rescanned
+    dwelled as (
+      SELECT DISTINCT city_id, subscriber_id, segment_id
+      FROM segments, locations
+      WHERE
+        segments.filter_kind = "olc_8_dwell"
+        AND segments.filter_value = locations.olc_8
+        AND ts >= _since
+        AND ts < _until
+    )
+  SELECT
+    dwelled.city_id, dwelled.subscriber_id, dwelled.segment_id,
+    MAX(date_add_dynamic(ts, segments.valid_interval)) AS expires_at
+  FROM dwelled
+  JOIN segments ON dwelled.segment_id = segments.segment_id
+  JOIN locations ON (
+    dwelled.city_id = locations.city_id
+    AND dwelled.subscriber_id = locations.subscriber_id
+    AND segments.filter_value = locations.olc_8
+  )
+  WHERE
+    ts >= date_sub_dynamic(NOW(6), segments.valid_interval)
+    AND ts < _until
+  GROUP BY
+    dwelled.city_id, dwelled.subscriber_id, dwelled.segment_id,
+    segments.filter_threshold
+  HAVING
+    TIMESTAMPDIFF(SECOND, MIN(ts), MAX(ts)) >= segments.filter_threshold * 60
+);
+
+CREATE OR REPLACE FUNCTION dynamic_subscriber_segments_purchase_categories(
+  _since DATETIME(6),
+  _until DATETIME(6)
+) RETURNS TABLE AS RETURN (
+  SELECT
+    city_id, subscriber_id, segment_id,
+    MAX(date_add_dynamic(ts, segments.valid_interval)) AS expires_at
+  FROM segments, purchases, vendors
+  WHERE
+    segments.filter_kind = "purchase_category"
+    AND segments.filter_value = vendors.category
+    AND vendors.vendor = purchases.vendor
+    AND ts >= date_sub_dynamic(NOW(6), segments.valid_interval)
+    AND ts >= _since
+    AND ts < _until
+  GROUP BY city_id, subscriber_id, segment_id
+);
+
+-- the absence of a purchase has no event to expire from, so every subscriber
+-- with a new location and without a purchase from the vendor is a member for
+-- another minute; a purchase ends the membership at most a minute later, as
+-- does a minute without locations. Only the segments of enabled offers whose
+-- notification zone contains the subscriber are considered, those are the
+-- only memberships match_offers_to_subscribers can use.
+CREATE OR REPLACE FUNCTION dynamic_subscriber_segments_no_purchases(
+  _since DATETIME(6),
+  _until DATETIME(6)
+) RETURNS TABLE AS RETURN (
+  WITH
+    active_subscribers as (
+      SELECT DISTINCT city_id, subscriber_id
+      FROM locations
+      WHERE ts >= _since AND ts < _until
+    ),
+    offer_segments as (
+      SELECT
+        offers.notification_zone, segments.segment_id,
+        segments.filter_value, segments.valid_interval
+      FROM offers
+      JOIN TABLE(JSON_TO_ARRAY(offers.segment_ids)) AS segment_ids
+      JOIN segments ON (segment_ids.table_col :> BIGINT) = segments.segment_id
+      WHERE
+        offers.enabled = TRUE
+        AND segments.filter_kind = "no_purchase"
+    ),
+    candidates as (
+      SELECT DISTINCT
+        active.city_id, active.subscriber_id, offer_segments.segment_id,
+        offer_segments.filter_value, offer_segments.valid_interval
+      FROM active_subscribers active
+      JOIN subscribers ON (
+        active.city_id = subscribers.city_id
+        AND active.subscriber_id = subscribers.subscriber_id
+      )
+      JOIN offer_segments ON geography_contains(
+        offer_segments.notification_zone, subscribers.current_location
+      )
+    )
+  SELECT
+    candidates.city_id, candidates.subscriber_id, candidates.segment_id,
+    date_add_dynamic(_until, "minute") AS expires_at
+  FROM candidates
+  WHERE
+    NOT EXISTS (
+      SELECT * FROM purchases
+      WHERE
+        purchases.city_id = candidates.city_id
+        AND purchases.subscriber_id = candidates.subscriber_id
+        AND purchases.vendor = candidates.filter_value
+        AND purchases.ts >= date_sub_dynamic(NOW(6), candidates.valid_interval)
+    )
+);
+
 CREATE OR REPLACE FUNCTION dynamic_subscriber_segments(
   _since DATETIME(6),
   _until DATETIME(6)
 ) RETURNS TABLE AS RETURN (
   SELECT * FROM dynamic_subscriber_segments_locations(_since, _until)
   UNION ALL
+  SELECT * FROM dynamic_subscriber_segments_visits(_since, _until)
+  UNION ALL
+  SELECT * FROM dynamic_subscriber_segments_dwell(_since, _until)
+  UNION ALL
   SELECT * FROM dynamic_subscriber_segments_requests(_since, _until)
   UNION ALL
   SELECT * FROM dynamic_subscriber_segments_purchases(_since, _until)
+  UNION ALL
+  SELECT * FROM dynamic_subscriber_segments_purchase_categories(_since, _until)
+  UNION ALL
+  SELECT * FROM dynamic_subscriber_segments_no_purchases(_since, _until)
 );
\ No newline at end of file
@@ -20,6 +20,8 @@ import { AnalyticsDashboard } from "@/pages/Analytics";
 import { Configure } from "@/pages/Configure";
 import { Dashboard } from "@/pages/Dashboard";
 import { HomePage } from "@/pages/HomePage";
+import { OfferConsole } from "@/pages/Offers";
+import { PipelineConsole } from "@/pages/Pipelines";
 import { useConnectionState } from "@/view/hooks/hooks";
 
 import { showWelcomeMessage } from "./data/recoil";
@@ -157,6 +159,22 @@ const RoutesBlock = () => {
           </PrivateRoute>
         }
       />
+      <Route
+        path="/offers"
+        element={
+          <PrivateRoute>
+            <OfferConsole />
+          </PrivateRoute>
+        }
+      />
+      <Route
+        path="/pipelines"
+        element={
+          <PrivateRoute>
+            <PipelineConsole />
+          </PrivateRoute>
+        }
+      />
       <Route path="*" element={<Navigate to="/dashboard" replace />} />
     </Routes>
   );
@@ -0,0 +1,105 @@
+import {
+  Progress,
+  Stack,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from "@chakra-ui/react";
+import { format } from "d3-format";
+import * as React from "react";
+import useSWR from "swr";
+
+import { IngestChart } from "@/components/IngestChart";
+import { BudgetBurnDown as Budget, budgetBurnDown } from "@/data/queries";
+import { formatNumber } from "@/format";
+import { useConnectionConfig } from "@/view/hooks/hooks";
+
+const MAX_OFFERS = 5;
+const WINDOW_MINUTES = 30;
+
+// spend only changes once per matching run
+const REFRESH_INTERVAL = 5 * 1000;
+
+const formatPct = format(".0%");
+
+const offerLabel = ({ customer, offerId }: Budget) => `${customer} #${offerId}`;
+
+const BudgetTable = ({ budgets }: { budgets: Array<Budget> }) => {
+  const rows = budgets.map((budget) => {
+    const spentShare = Math.min(1, budget.spentCents / budget.totalBudgetCents);
+    return (
+      <Tr key={budget.offerId}>
+        <Td>{offerLabel(budget)}</Td>
+        <Td isNumeric>{formatNumber(budget.totalBudgetCents)}</Td>
+        <Td isNumeric>{formatNumber(budget.spentCents)}</Td>
+        <Td>
+          <Progress
+            size="sm"
+            borderRadius="4px"
+            colorScheme={spentShare >= 1 ? "orange" : "purple"}
+            value={spentShare * 100}
+          />
+        </Td>
+        <Td isNumeric>{formatPct(spentShare)}</Td>
+      </Tr>
+    );
+  });
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>Offer</Th>
+            <Th isNumeric>Budget (cents)</Th>
+            <Th isNumeric>Spent (cents)</Th>
+            <Th width="30%" />
+            <Th isNumeric>Spent</Th>
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export const BudgetBurnDown = () => {
+  const config = useConnectionConfig("BudgetBurnDown");
+  const { data: budgets } = useSWR(
+    ["budgetBurnDown", config],
+    () => budgetBurnDown(config, MAX_OFFERS, WINDOW_MINUTES),
+    { refreshInterval: REFRESH_INTERVAL }
+  );
+
+  if (!budgets) {
+    return <Text fontSize="sm">Loading budgets...</Text>;
+  }
+  if (budgets.length === 0) {
+    return (
+      <Text fontSize="sm">
+        None of the offers has a total budget, set one in the offer editor on
+        the Offers page.
+      </Text>
+    );
+  }
+
+  const data = Object.fromEntries(
+    budgets.map((budget) => [offerLabel(budget), budget.remaining])
+  );
+
+  return (
+    <Stack spacing={4}>
+      <IngestChart
+        data={data}
+        yAxisLabel="remaining budget (cents)"
+        height={250}
+      />
+      <BudgetTable budgets={budgets} />
+    </Stack>
+  );
+};
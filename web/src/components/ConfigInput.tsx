@@ -12,7 +12,7 @@ type ConfigInputProps = {
   value: string;
   setValue: (value: string) => void;
   helpText?: React.ReactNode;
-  type?: "text" | "password" | "number";
+  type?: "text" | "password" | "number" | "datetime-local";
   required?: boolean;
 };
 
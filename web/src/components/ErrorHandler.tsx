@@ -15,6 +15,7 @@ import dedent from "ts-dedent";
 
 import { CodeBlock } from "@/components/CodeBlock";
 import { SQLError } from "@/data/client";
+import { recordHandledError, UNKNOWN_CALLER } from "@/data/instrumentation";
 import { resettingSchema } from "@/data/recoil";
 
 import { PrimaryButton } from "./customcomponents/Button";
@@ -57,7 +58,17 @@ export class ErrorBoundary extends React.Component<Props, State> {
   }
 
   handlePromiseRejection(ev: PromiseRejectionEvent) {
-    if (this.props.isResettingSchema) {
+    if (ev.reason instanceof SQLError && ev.reason.isTransient()) {
+      recordHandledError({
+        caller: UNKNOWN_CALLER,
+        handling: "ignored",
+        at: Date.now(),
+        kind: ev.reason.kind,
+        code: ev.reason.code,
+        message: ev.reason.message,
+        sql: ev.reason.sql,
+      });
+    } else if (this.props.isResettingSchema) {
       console.warn("Ignoring error while resetting schema", ev.reason);
     } else {
       this.setState({ error: ev.reason });
@@ -0,0 +1,128 @@
+import {
+  FormControl,
+  FormLabel,
+  SimpleGrid,
+  Stack,
+  Switch,
+} from "@chakra-ui/react";
+import * as React from "react";
+import { useRecoilState } from "recoil";
+
+import { ConfigInput } from "@/components/ConfigInput";
+import { ConnectionConfig } from "@/data/client";
+import { EventGeneratorConfig } from "@/data/generator";
+import {
+  pipelineNames,
+  pipelineSummaries,
+  stopPipeline,
+} from "@/data/pipelines";
+import { eventGeneratorConfig, eventGeneratorEnabled } from "@/data/recoil";
+
+// stopTimeseriesPipelines stops the pipelines the generator replaces, the
+// simulation monitor starts them again once the generator is disabled
+const stopTimeseriesPipelines = async (config: ConnectionConfig) => {
+  const pipelines = await pipelineSummaries(config);
+  await Promise.all(
+    pipelines
+      .filter((p) => p.state === "Running")
+      .map((p) =>
+        stopPipeline(
+          config,
+          p.pipelineName,
+          "replaced by the browser event generator"
+        )
+      )
+  );
+};
+
+const RateInput = ({
+  label,
+  field,
+  config,
+  setConfig,
+}: {
+  label: string;
+  field: keyof EventGeneratorConfig;
+  config: EventGeneratorConfig;
+  setConfig: (config: EventGeneratorConfig) => void;
+}) => (
+  <ConfigInput
+    label={label}
+    placeholder="0"
+    type="number"
+    value={String(config[field])}
+    setValue={(value) => {
+      const n = Math.floor(Number(value));
+      if (Number.isFinite(n) && n >= 0) {
+        setConfig({ ...config, [field]: n });
+      }
+    }}
+  />
+);
+
+export const EventGeneratorForm = ({
+  connectionConfig,
+}: {
+  connectionConfig: ConnectionConfig;
+}) => {
+  const [enabled, setEnabled] = useRecoilState(eventGeneratorEnabled);
+  const [config, setConfig] = useRecoilState(eventGeneratorConfig);
+
+  const onToggle = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const { checked } = ev.target;
+    setEnabled(checked);
+    if (checked) {
+      await stopTimeseriesPipelines(connectionConfig);
+    }
+  };
+
+  let rates;
+  if (enabled) {
+    rates = (
+      <SimpleGrid columns={2} gap={2}>
+        <RateInput
+          label="Subscribers"
+          field="subscribers"
+          config={config}
+          setConfig={setConfig}
+        />
+        <RateInput
+          label="Locations per second"
+          field="locationsPerSecond"
+          config={config}
+          setConfig={setConfig}
+        />
+        <RateInput
+          label="Requests per second"
+          field="requestsPerSecond"
+          config={config}
+          setConfig={setConfig}
+        />
+        <RateInput
+          label="Purchases per second"
+          field="purchasesPerSecond"
+          config={config}
+          setConfig={setConfig}
+        />
+      </SimpleGrid>
+    );
+  }
+
+  return (
+    <Stack spacing={4}>
+      <FormControl display="flex" alignItems="center">
+        <Switch
+          id="event-generator"
+          size="sm"
+          isChecked={enabled}
+          onChange={onToggle}
+        />
+        <FormLabel htmlFor="event-generator" mb={0} ml={2} fontSize="sm">
+          Generate the {pipelineNames.join(", ")} streams in the browser instead
+          of loading them with pipelines
+        </FormLabel>
+      </FormControl>
+      {rates}
+    </Stack>
+  );
+};
@@ -0,0 +1,244 @@
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Select,
+  SimpleGrid,
+  Stack,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import * as React from "react";
+import { useRecoilState } from "recoil";
+import useSWR from "swr";
+
+import { ConfigInput } from "@/components/ConfigInput";
+import { PrimaryButton } from "@/components/customcomponents/Button";
+import {
+  CustomerFrequencyCap,
+  customerFrequencyCaps,
+  deleteCustomerFrequencyCap,
+  formatFrequencyCap,
+  frequencyCapErrors,
+  FrequencyCapInterval,
+  FrequencyCapIntervals,
+  saveCustomerFrequencyCap,
+} from "@/data/frequencycaps";
+import { SQLIntervals } from "@/data/queries";
+import { subscriberFrequencyCaps } from "@/data/recoil";
+import { useConnectionConfig } from "@/view/hooks/hooks";
+
+const SUBSCRIBER_INTERVALS: Array<SQLIntervals> = [
+  "second",
+  "minute",
+  "hour",
+  "day",
+];
+
+export const FrequencyCapIntervalSelect = ({
+  value,
+  setValue,
+}: {
+  value: FrequencyCapInterval;
+  setValue: (value: FrequencyCapInterval) => void;
+}) => (
+  <Select
+    size="sm"
+    borderRadius="6px"
+    _focus={{ borderColor: "#553ACF" }}
+    value={value}
+    onChange={(e) => setValue(e.target.value as FrequencyCapInterval)}
+  >
+    {FrequencyCapIntervals.map((interval) => (
+      <option key={interval} value={interval}>
+        per {interval}
+      </option>
+    ))}
+  </Select>
+);
+
+// SubscriberFrequencyCapsForm edits the caps which apply to every subscriber,
+// they are stored in the browser and used by the next matching run
+export const SubscriberFrequencyCapsForm = () => {
+  const [caps, setCaps] = useRecoilState(subscriberFrequencyCaps);
+  const [dailyCap, setDailyCap] = React.useState(
+    caps.dailyCap === null ? "" : String(caps.dailyCap)
+  );
+
+  const onDailyCap = (value: string) => {
+    setDailyCap(value);
+    if (value === "") {
+      setCaps({ ...caps, dailyCap: null });
+      return;
+    }
+    const n = Number(value);
+    if (Number.isInteger(n) && n > 0) {
+      setCaps({ ...caps, dailyCap: n });
+    }
+  };
+
+  return (
+    <SimpleGrid columns={2} gap={2}>
+      <FormControl>
+        <FormLabel
+          mb={1}
+          fontSize="xs"
+          fontWeight="bold"
+          textTransform="uppercase"
+        >
+          At most one notification
+        </FormLabel>
+        <Select
+          size="sm"
+          borderRadius="6px"
+          _focus={{ borderColor: "#553ACF" }}
+          value={caps.interval}
+          onChange={(e) =>
+            setCaps({ ...caps, interval: e.target.value as SQLIntervals })
+          }
+        >
+          {SUBSCRIBER_INTERVALS.map((interval) => (
+            <option key={interval} value={interval}>
+              per {interval}
+            </option>
+          ))}
+        </Select>
+      </FormControl>
+      <ConfigInput
+        label="Notifications per day"
+        placeholder="no limit"
+        type="number"
+        value={dailyCap}
+        setValue={onDailyCap}
+      />
+    </SimpleGrid>
+  );
+};
+
+// CustomerFrequencyCapsForm lists the caps of every customer, saving the cap
+// of a customer which already has one replaces it
+export const CustomerFrequencyCapsForm = () => {
+  const config = useConnectionConfig("CustomerFrequencyCapsForm");
+  const errorColor = useColorModeValue("red.600", "red.300");
+  const [customer, setCustomer] = React.useState("");
+  const [maxNotifications, setMaxNotifications] = React.useState("");
+  const [interval, setCapInterval] =
+    React.useState<FrequencyCapInterval>("day");
+  const [saving, setSaving] = React.useState(false);
+
+  const { data: caps, mutate } = useSWR(["customerFrequencyCaps", config], () =>
+    customerFrequencyCaps(config)
+  );
+
+  if (!caps) {
+    return <Text fontSize="sm">Loading frequency caps...</Text>;
+  }
+
+  const next: CustomerFrequencyCap = {
+    customer: customer.trim(),
+    maxNotifications: Number(maxNotifications),
+    interval,
+  };
+  const errors = frequencyCapErrors("The cap", next);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await saveCustomerFrequencyCap(config, next);
+      await mutate();
+      setCustomer("");
+      setMaxNotifications("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (name: string) => {
+    await deleteCustomerFrequencyCap(config, name);
+    await mutate();
+  };
+
+  let list = <Text fontSize="sm">No customer has a frequency cap.</Text>;
+  if (caps.length > 0) {
+    list = (
+      <TableContainer overflowX="auto">
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Customer</Th>
+              <Th>Cap</Th>
+              <Th />
+            </Tr>
+          </Thead>
+          <Tbody>
+            {caps.map((cap) => (
+              <Tr key={cap.customer}>
+                <Td>{cap.customer}</Td>
+                <Td>{formatFrequencyCap(cap)}</Td>
+                <Td>
+                  <Button size="xs" onClick={() => remove(cap.customer)}>
+                    Remove
+                  </Button>
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </TableContainer>
+    );
+  }
+
+  return (
+    <Stack spacing={4}>
+      {list}
+      <HStack spacing={2}>
+        <Input
+          size="sm"
+          borderRadius="6px"
+          _focus={{ borderColor: "#553ACF" }}
+          placeholder="Customer"
+          value={customer}
+          onChange={(e) => setCustomer(e.target.value)}
+        />
+        <Input
+          size="sm"
+          type="number"
+          borderRadius="6px"
+          _focus={{ borderColor: "#553ACF" }}
+          placeholder="Notifications"
+          value={maxNotifications}
+          onChange={(e) => setMaxNotifications(e.target.value)}
+        />
+        <FrequencyCapIntervalSelect
+          value={interval}
+          setValue={setCapInterval}
+        />
+      </HStack>
+      {maxNotifications === ""
+        ? undefined
+        : errors.map((error) => (
+            <Text key={error} fontSize="xs" color={errorColor}>
+              {error}
+            </Text>
+          ))}
+      <PrimaryButton
+        size="sm"
+        onClick={save}
+        disabled={
+          !next.customer || !maxNotifications || errors.length > 0 || saving
+        }
+      >
+        {saving ? "Saving..." : "Save cap"}
+      </PrimaryButton>
+    </Stack>
+  );
+};
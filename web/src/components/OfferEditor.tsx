@@ -0,0 +1,563 @@
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  Select,
+  SimpleGrid,
+  Stack,
+  Text,
+  useColorModeValue,
+  useToast,
+} from "@chakra-ui/react";
+import { Point } from "pigeon-maps";
+import * as React from "react";
+import { BsTrash } from "react-icons/bs";
+
+import { ConfigInput } from "@/components/ConfigInput";
+import { PrimaryButton } from "@/components/customcomponents/Button";
+import { FrequencyCapIntervalSelect } from "@/components/FrequencyCapsForm";
+import { PixiMap } from "@/components/PixiMap";
+import { FrequencyCap, FrequencyCapInterval } from "@/data/frequencycaps";
+import {
+  createOffers,
+  formatSegmentExpression,
+  Offer,
+  offerErrors,
+  parseSegmentExpression,
+  SavedOffer,
+  Segment,
+  SegmentColumns,
+  segmentColumns,
+  SegmentExpression,
+  SegmentInterval,
+  SegmentIntervals,
+  SegmentKind,
+  SegmentKinds,
+  toSegment,
+  updateOffer,
+} from "@/data/offers";
+import { Polygon, polygonToSQL, WKTPolygonToPolygon } from "@/geo";
+import { useZoneRenderer } from "@/render/useZoneRenderer";
+import { useConnectionConfig } from "@/view/hooks/hooks";
+
+const SEGMENT_VALUE_PLACEHOLDERS: { [kind in SegmentKind]: string } = {
+  olc_8: "open location code, e.g. 87G7PX7V",
+  olc_8_visits: "open location code, e.g. 87G7PX7V",
+  olc_8_dwell: "open location code, e.g. 87G7PX7V",
+  purchase: "vendor, e.g. Starbucks",
+  purchase_category: "vendor category, e.g. electronics",
+  no_purchase: "vendor, e.g. Starbucks",
+  request: "domain, e.g. starbucks.com",
+};
+
+// the unit of the threshold of the kinds which have one
+const SEGMENT_THRESHOLD_PLACEHOLDERS: { [kind in SegmentKind]?: string } = {
+  olc_8_visits: "visits",
+  olc_8_dwell: "minutes",
+};
+
+const emptySegment: Segment = { kind: "purchase", interval: "day", value: "" };
+
+const emptyOffer: Offer = {
+  customer: "",
+  segments: [emptySegment],
+  notificationZone: "",
+  notificationContent: "",
+  notificationTarget: "",
+  maximumBidCents: 5,
+  startAt: null,
+  endAt: null,
+  dailyBudgetCents: null,
+  totalBudgetCents: null,
+  frequencyCap: null,
+  targeting: null,
+};
+
+// the flight and budgets are edited as text so that they can be cleared, the
+// flight is entered in local time
+type LifecycleDraft = {
+  startAt: string;
+  endAt: string;
+  dailyBudgetCents: string;
+  totalBudgetCents: string;
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// toLocalInputValue formats a date as the value of a datetime-local input
+const toLocalInputValue = (date: Date | null) =>
+  date
+    ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+        date.getDate()
+      )}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+    : "";
+
+const toLifecycleDraft = (offer: Offer): LifecycleDraft => ({
+  startAt: toLocalInputValue(offer.startAt),
+  endAt: toLocalInputValue(offer.endAt),
+  dailyBudgetCents:
+    offer.dailyBudgetCents === null ? "" : String(offer.dailyBudgetCents),
+  totalBudgetCents:
+    offer.totalBudgetCents === null ? "" : String(offer.totalBudgetCents),
+});
+
+const fromLifecycleDraft = (draft: LifecycleDraft) => ({
+  startAt: draft.startAt ? new Date(draft.startAt) : null,
+  endAt: draft.endAt ? new Date(draft.endAt) : null,
+  dailyBudgetCents:
+    draft.dailyBudgetCents === "" ? null : Number(draft.dailyBudgetCents),
+  totalBudgetCents:
+    draft.totalBudgetCents === "" ? null : Number(draft.totalBudgetCents),
+});
+
+// the cap is edited as text so that it can be cleared, which removes it
+type FrequencyCapDraft = {
+  maxNotifications: string;
+  interval: FrequencyCapInterval;
+};
+
+const toFrequencyCapDraft = (cap: FrequencyCap | null): FrequencyCapDraft => ({
+  maxNotifications: cap ? String(cap.maxNotifications) : "",
+  interval: cap ? cap.interval : "day",
+});
+
+const fromFrequencyCapDraft = ({
+  maxNotifications,
+  interval,
+}: FrequencyCapDraft): FrequencyCap | null =>
+  maxNotifications === ""
+    ? null
+    : { maxNotifications: Number(maxNotifications), interval };
+
+// the targeting is edited as text, parse errors are reported with the errors of
+// the offer
+const fromTargetingDraft = (
+  text: string
+): { targeting: SegmentExpression | null; error?: string } => {
+  try {
+    return { targeting: parseSegmentExpression(text) };
+  } catch (e) {
+    return { targeting: null, error: (e as Error).message };
+  }
+};
+
+// the editor works on the open ring of the zone, WKT polygons repeat the
+// first vertex at the end
+const zoneVertices = (wkt: string): Polygon => {
+  if (!wkt) {
+    return [];
+  }
+  const ring = WKTPolygonToPolygon(wkt);
+  return ring.slice(0, -1);
+};
+
+const verticesToZone = (vertices: Polygon) =>
+  vertices.length >= 3 ? polygonToSQL([...vertices, vertices[0]]) : "";
+
+const LifecycleInput = ({
+  lifecycle,
+  setLifecycle,
+}: {
+  lifecycle: LifecycleDraft;
+  setLifecycle: (lifecycle: LifecycleDraft) => void;
+}) => (
+  <SimpleGrid columns={[1, 2, 4]} gap={4}>
+    <ConfigInput
+      label="Starts"
+      placeholder=""
+      type="datetime-local"
+      helpText="Leave empty to start right away."
+      value={lifecycle.startAt}
+      setValue={(startAt) => setLifecycle({ ...lifecycle, startAt })}
+    />
+    <ConfigInput
+      label="Ends"
+      placeholder=""
+      type="datetime-local"
+      helpText="Leave empty to run until paused."
+      value={lifecycle.endAt}
+      setValue={(endAt) => setLifecycle({ ...lifecycle, endAt })}
+    />
+    <ConfigInput
+      label="Daily budget (cents)"
+      placeholder="no limit"
+      type="number"
+      value={lifecycle.dailyBudgetCents}
+      setValue={(dailyBudgetCents) =>
+        setLifecycle({ ...lifecycle, dailyBudgetCents })
+      }
+    />
+    <ConfigInput
+      label="Total budget (cents)"
+      placeholder="no limit"
+      type="number"
+      value={lifecycle.totalBudgetCents}
+      setValue={(totalBudgetCents) =>
+        setLifecycle({ ...lifecycle, totalBudgetCents })
+      }
+    />
+  </SimpleGrid>
+);
+
+const FrequencyCapInput = ({
+  cap,
+  setCap,
+}: {
+  cap: FrequencyCapDraft;
+  setCap: (cap: FrequencyCapDraft) => void;
+}) => (
+  <SimpleGrid columns={[1, 2, 4]} gap={4} alignItems="end">
+    <ConfigInput
+      label="Frequency cap"
+      placeholder="no limit"
+      type="number"
+      value={cap.maxNotifications}
+      setValue={(maxNotifications) => setCap({ ...cap, maxNotifications })}
+    />
+    <FrequencyCapIntervalSelect
+      value={cap.interval}
+      setValue={(interval) => setCap({ ...cap, interval })}
+    />
+    <Text fontSize="xs" gridColumn={["auto", "span 2"]}>
+      Notifications of this offer a subscriber receives at most, caps of the
+      customer and of every subscriber are set on the Configure page.
+    </Text>
+  </SimpleGrid>
+);
+
+const SegmentInput = ({
+  index,
+  segment,
+  setSegment,
+  onRemove,
+}: {
+  index: number;
+  segment: Segment;
+  setSegment: (segment: Segment) => void;
+  onRemove: () => void;
+}) => {
+  // the kind decides which fields the segment has, so changes go through its
+  // columns
+  const columns = segmentColumns(segment);
+  const setColumns = (next: Partial<SegmentColumns>) =>
+    setSegment(toSegment({ ...columns, ...next }));
+
+  let threshold;
+  const thresholdPlaceholder = SEGMENT_THRESHOLD_PLACEHOLDERS[segment.kind];
+  if (thresholdPlaceholder) {
+    threshold = (
+      <Input
+        size="sm"
+        width="7em"
+        flexShrink={0}
+        type="number"
+        borderRadius="6px"
+        _focus={{ borderColor: "#553ACF" }}
+        placeholder={thresholdPlaceholder}
+        value={columns.threshold ? String(columns.threshold) : ""}
+        onChange={(e) => setColumns({ threshold: Number(e.target.value) })}
+      />
+    );
+  }
+
+  return (
+    <HStack spacing={2}>
+      <Text fontSize="sm" width="2em" flexShrink={0}>
+        #{index + 1}
+      </Text>
+      <Select
+        size="sm"
+        width="11em"
+        flexShrink={0}
+        borderRadius="6px"
+        _focus={{ borderColor: "#553ACF" }}
+        value={segment.kind}
+        onChange={(e) => setColumns({ kind: e.target.value as SegmentKind })}
+      >
+        {SegmentKinds.map((kind) => (
+          <option key={kind} value={kind}>
+            {kind}
+          </option>
+        ))}
+      </Select>
+      <Select
+        size="sm"
+        width="8em"
+        flexShrink={0}
+        borderRadius="6px"
+        _focus={{ borderColor: "#553ACF" }}
+        value={segment.interval}
+        onChange={(e) =>
+          setColumns({ interval: e.target.value as SegmentInterval })
+        }
+      >
+        {SegmentIntervals.map((interval) => (
+          <option key={interval} value={interval}>
+            within a {interval}
+          </option>
+        ))}
+      </Select>
+      <Input
+        size="sm"
+        borderRadius="6px"
+        _focus={{ borderColor: "#553ACF" }}
+        placeholder={SEGMENT_VALUE_PLACEHOLDERS[segment.kind]}
+        value={segment.value}
+        onChange={(e) => setColumns({ value: e.target.value })}
+      />
+      {threshold}
+      <IconButton
+        size="sm"
+        aria-label="Remove segment"
+        icon={<BsTrash />}
+        onClick={onRemove}
+      />
+    </HStack>
+  );
+};
+
+const SegmentsInput = ({
+  segments,
+  setSegments,
+}: {
+  segments: Array<Segment>;
+  setSegments: (segments: Array<Segment>) => void;
+}) => (
+  <FormControl>
+    <FormLabel mb={1} fontSize="xs" fontWeight="bold" textTransform="uppercase">
+      Segments
+    </FormLabel>
+    <Stack spacing={2}>
+      {segments.map((segment, i) => (
+        <SegmentInput
+          key={i}
+          index={i}
+          segment={segment}
+          setSegment={(next) =>
+            setSegments(segments.map((s, j) => (i === j ? next : s)))
+          }
+          onRemove={() => setSegments(segments.filter((_, j) => i !== j))}
+        />
+      ))}
+      <Button
+        size="xs"
+        alignSelf="flex-start"
+        onClick={() => setSegments([...segments, emptySegment])}
+      >
+        Add segment
+      </Button>
+    </Stack>
+  </FormControl>
+);
+
+const TargetingInput = ({
+  targeting,
+  setTargeting,
+}: {
+  targeting: string;
+  setTargeting: (targeting: string) => void;
+}) => (
+  <ConfigInput
+    label="Targeting"
+    placeholder="every segment, e.g. (#1 OR #2) AND NOT #3"
+    helpText="Combine the segments by their number with AND, OR, NOT and parentheses."
+    value={targeting}
+    setValue={setTargeting}
+  />
+);
+
+const ZoneInput = ({
+  vertices,
+  setVertices,
+}: {
+  vertices: Polygon;
+  setVertices: (vertices: Polygon) => void;
+}) => {
+  // center the map on the zone when editing, after that the map is left
+  // where the user moves it
+  const [defaultCenter] = React.useState<[number, number] | undefined>(() =>
+    vertices.length > 0 ? [vertices[0][1], vertices[0][0]] : undefined
+  );
+
+  const addVertex = ([lat, lng]: Point) =>
+    setVertices([...vertices, [lng, lat]]);
+  const undoVertex = () => setVertices(vertices.slice(0, -1));
+  const clearVertices = () => setVertices([]);
+
+  return (
+    <FormControl>
+      <FormLabel
+        mb={1}
+        fontSize="xs"
+        fontWeight="bold"
+        textTransform="uppercase"
+      >
+        Notification zone
+      </FormLabel>
+      <Stack spacing={2}>
+        <PixiMap
+          height={360}
+          borderRadius="10px"
+          showCitySelectionDropDown={false}
+          defaultCenter={defaultCenter}
+          useRenderer={useZoneRenderer}
+          options={{ vertices }}
+          onMapClick={addVertex}
+        />
+        <HStack spacing={2}>
+          <Text fontSize="xs" flex={1}>
+            Click the map to add the vertices of the zone, at least three are
+            needed.
+          </Text>
+          <Button size="xs" onClick={undoVertex} disabled={!vertices.length}>
+            Undo point
+          </Button>
+          <Button size="xs" onClick={clearVertices} disabled={!vertices.length}>
+            Clear zone
+          </Button>
+        </HStack>
+      </Stack>
+    </FormControl>
+  );
+};
+
+type Props = {
+  // the offer to edit, a new offer is created if it's not set
+  offer?: SavedOffer;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+export const OfferEditor = ({ offer, onSaved, onCancel }: Props) => {
+  const config = useConnectionConfig("OfferEditor");
+  const toast = useToast();
+  const errorColor = useColorModeValue("red.600", "red.300");
+  const [draft, setDraft] = React.useState<Offer>(offer || emptyOffer);
+  const [vertices, setVertices] = React.useState(() =>
+    zoneVertices(draft.notificationZone)
+  );
+  const [bid, setBid] = React.useState(String(draft.maximumBidCents));
+  const [lifecycle, setLifecycle] = React.useState(() =>
+    toLifecycleDraft(draft)
+  );
+  const [frequencyCap, setFrequencyCap] = React.useState(() =>
+    toFrequencyCapDraft(draft.frequencyCap)
+  );
+  const [targeting, setTargeting] = React.useState(() =>
+    draft.targeting ? formatSegmentExpression(draft.targeting) : ""
+  );
+  const [saving, setSaving] = React.useState(false);
+
+  const parsedTargeting = fromTargetingDraft(targeting);
+  const next: Offer = {
+    ...draft,
+    customer: draft.customer.trim(),
+    notificationZone: verticesToZone(vertices),
+    maximumBidCents: Number(bid),
+    ...fromLifecycleDraft(lifecycle),
+    frequencyCap: fromFrequencyCapDraft(frequencyCap),
+    targeting: parsedTargeting.targeting,
+  };
+  const errors = parsedTargeting.error
+    ? [...offerErrors(next), parsedTargeting.error]
+    : offerErrors(next);
+
+  let saveLabel = offer ? "Save offer" : "Create offer";
+  if (saving) {
+    saveLabel = "Saving...";
+  }
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      if (offer) {
+        await updateOffer(config, offer.offerId, next);
+      } else {
+        await createOffers(config, [next]);
+      }
+    } catch (e) {
+      toast({
+        title: "Failed to save the offer",
+        description: (e as Error).message,
+        status: "error",
+        isClosable: true,
+      });
+      setSaving(false);
+      return;
+    }
+    // the editor is closed once the offer is saved
+    onSaved();
+  };
+
+  return (
+    <Stack spacing={4}>
+      <SimpleGrid columns={[1, 1, 2]} gap={4}>
+        <ConfigInput
+          label="Customer"
+          placeholder="Starbucks"
+          value={draft.customer}
+          setValue={(customer) => setDraft({ ...draft, customer })}
+        />
+        <ConfigInput
+          label="Maximum bid (cents)"
+          placeholder="5"
+          type="number"
+          value={bid}
+          setValue={setBid}
+        />
+        <ConfigInput
+          label="Notification content"
+          placeholder="20% off at Starbucks"
+          value={draft.notificationContent}
+          setValue={(notificationContent) =>
+            setDraft({ ...draft, notificationContent })
+          }
+        />
+        <ConfigInput
+          label="Notification target"
+          placeholder="starbucks.com"
+          helpText="Requests to this domain after the notification count as conversions."
+          value={draft.notificationTarget}
+          setValue={(notificationTarget) =>
+            setDraft({ ...draft, notificationTarget })
+          }
+        />
+      </SimpleGrid>
+      <LifecycleInput lifecycle={lifecycle} setLifecycle={setLifecycle} />
+      <FrequencyCapInput cap={frequencyCap} setCap={setFrequencyCap} />
+      <SegmentsInput
+        segments={draft.segments}
+        setSegments={(segments) => setDraft({ ...draft, segments })}
+      />
+      {offer?.missingSegmentIds.length ? (
+        <Text fontSize="xs" color={errorColor}>
+          Segments {offer.missingSegmentIds.join(", ")} of this offer no longer
+          exist and are left out, the targeting numbers them after the remaining
+          segments.
+        </Text>
+      ) : undefined}
+      <TargetingInput targeting={targeting} setTargeting={setTargeting} />
+      <ZoneInput vertices={vertices} setVertices={setVertices} />
+      {errors.map((error) => (
+        <Text key={error} fontSize="xs" color={errorColor}>
+          {error}
+        </Text>
+      ))}
+      <HStack spacing={2}>
+        <PrimaryButton
+          size="sm"
+          onClick={save}
+          disabled={errors.length > 0 || saving}
+        >
+          {saveLabel}
+        </PrimaryButton>
+        <Button size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </HStack>
+    </Stack>
+  );
+};
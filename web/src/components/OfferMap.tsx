@@ -1,19 +1,17 @@
 import { Omit } from "framer-motion/types/types";
 import { Bounds } from "pigeon-maps";
 import * as React from "react";
-import { useRecoilValue } from "recoil";
 import useSWR from "swr";
 
 import { Heatmap } from "@/components/HeatMap";
 import { PixiMapProps } from "@/components/PixiMap";
 import { Offer, queryOffersInBounds } from "@/data/queries";
-import { connectionConfig } from "@/data/recoil";
-import { useConnectionState } from "@/view/hooks/hooks";
+import { useConnectionConfig, useConnectionState } from "@/view/hooks/hooks";
 
 const MAX_OFFERS = 1000;
 
 const useCells = (bounds: Bounds, callback: (cells: Array<Offer>) => void) => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("OfferMap");
   const { initialized } = useConnectionState();
 
   useSWR(
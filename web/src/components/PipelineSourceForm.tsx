@@ -0,0 +1,223 @@
+import {
+  FormControl,
+  FormLabel,
+  Select,
+  SimpleGrid,
+  Stack,
+  Text,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import * as React from "react";
+import { useRecoilState } from "recoil";
+
+import { ConfigInput } from "@/components/ConfigInput";
+import { PrimaryButton } from "@/components/customcomponents/Button";
+import { configPipelineSource } from "@/data/recoil";
+import {
+  defaultPipelineSources,
+  FSPipelineSource,
+  KafkaPipelineSource,
+  PipelineSource,
+  pipelineSourceErrors,
+  PipelineSourceKind,
+  PipelineSourceLabels,
+  S3PipelineSource,
+} from "@/pipelinesources";
+
+const S3SourceFields = ({
+  source,
+  setSource,
+}: {
+  source: S3PipelineSource;
+  setSource: (source: S3PipelineSource) => void;
+}) => (
+  <>
+    <SimpleGrid columns={2} gap={2}>
+      <ConfigInput
+        label="Bucket"
+        placeholder="singlestore-realtime-digital-marketing"
+        required
+        value={source.bucket}
+        setValue={(bucket) => setSource({ ...source, bucket })}
+      />
+      <ConfigInput
+        label="Region"
+        placeholder="us-east-1"
+        required
+        value={source.region}
+        setValue={(region) => setSource({ ...source, region })}
+      />
+    </SimpleGrid>
+    <ConfigInput
+      label="Endpoint URL"
+      placeholder="http://minio:9000"
+      value={source.endpointURL}
+      setValue={(endpointURL) => setSource({ ...source, endpointURL })}
+      helpText="Only required for S3 compatible services such as MinIO."
+    />
+    <SimpleGrid columns={2} gap={2}>
+      <ConfigInput
+        label="Access Key ID"
+        placeholder=""
+        value={source.accessKeyID}
+        setValue={(accessKeyID) => setSource({ ...source, accessKeyID })}
+        helpText="Leave the keys empty for a public bucket."
+      />
+      <ConfigInput
+        label="Secret Access Key"
+        placeholder=""
+        type="password"
+        value={source.secretAccessKey}
+        setValue={(secretAccessKey) =>
+          setSource({ ...source, secretAccessKey })
+        }
+      />
+    </SimpleGrid>
+  </>
+);
+
+const KafkaSourceFields = ({
+  source,
+  setSource,
+}: {
+  source: KafkaPipelineSource;
+  setSource: (source: KafkaPipelineSource) => void;
+}) => (
+  <>
+    <SimpleGrid columns={2} gap={2}>
+      <ConfigInput
+        label="Brokers"
+        placeholder="localhost:9092"
+        required
+        value={source.brokers}
+        setValue={(brokers) => setSource({ ...source, brokers })}
+      />
+      <ConfigInput
+        label="Topic Prefix"
+        placeholder="martech-"
+        value={source.topicPrefix}
+        setValue={(topicPrefix) => setSource({ ...source, topicPrefix })}
+        helpText={`Loads the topics ${source.topicPrefix}locations, ${source.topicPrefix}requests and ${source.topicPrefix}purchases.`}
+      />
+    </SimpleGrid>
+    <SimpleGrid columns={2} gap={2}>
+      <ConfigInput
+        label="SASL Username"
+        placeholder=""
+        value={source.saslUsername}
+        setValue={(saslUsername) => setSource({ ...source, saslUsername })}
+        helpText="Leave empty to connect without authentication."
+      />
+      <ConfigInput
+        label="SASL Password"
+        placeholder=""
+        type="password"
+        value={source.saslPassword}
+        setValue={(saslPassword) => setSource({ ...source, saslPassword })}
+      />
+    </SimpleGrid>
+  </>
+);
+
+const FSSourceFields = ({
+  source,
+  setSource,
+}: {
+  source: FSPipelineSource;
+  setSource: (source: FSPipelineSource) => void;
+}) => (
+  <ConfigInput
+    label="Path"
+    placeholder="/var/lib/martech"
+    required
+    value={source.path}
+    setValue={(path) => setSource({ ...source, path })}
+    helpText="A directory with the same layout as the S3 bucket, readable from every leaf."
+  />
+);
+
+export const PipelineSourceForm = ({
+  onSave,
+}: {
+  onSave: (source: PipelineSource) => Promise<void>;
+}) => {
+  const [source, setSource] = useRecoilState(configPipelineSource);
+  const [draft, setDraft] = React.useState(source);
+  const [saving, setSaving] = React.useState(false);
+  const errorColor = useColorModeValue("red.600", "red.300");
+
+  const errors = pipelineSourceErrors(draft);
+  const changed = JSON.stringify(draft) !== JSON.stringify(source);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      setSource(draft);
+      await onSave(draft);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  let fields;
+  switch (draft.kind) {
+    case "s3":
+      fields = <S3SourceFields source={draft} setSource={setDraft} />;
+      break;
+
+    case "kafka":
+      fields = <KafkaSourceFields source={draft} setSource={setDraft} />;
+      break;
+
+    case "fs":
+      fields = <FSSourceFields source={draft} setSource={setDraft} />;
+      break;
+  }
+
+  return (
+    <Stack spacing={4}>
+      <FormControl>
+        <FormLabel
+          mb={1}
+          fontSize="xs"
+          fontWeight="bold"
+          textTransform="uppercase"
+        >
+          Pipeline Source
+        </FormLabel>
+        <Select
+          size="sm"
+          required
+          borderRadius="6px"
+          _focus={{ borderColor: "#553ACF" }}
+          value={draft.kind}
+          onChange={(ev) => {
+            const kind = ev.target.value as PipelineSourceKind;
+            setDraft(
+              kind === source.kind ? source : defaultPipelineSources[kind]
+            );
+          }}
+        >
+          {Object.entries(PipelineSourceLabels).map(([kind, label]) => (
+            <option value={kind} key={kind}>
+              {label}
+            </option>
+          ))}
+        </Select>
+      </FormControl>
+      {fields}
+      {errors.map((error) => (
+        <Text key={error} fontSize="xs" color={errorColor}>
+          {error}
+        </Text>
+      ))}
+      <PrimaryButton
+        size="sm"
+        onClick={save}
+        disabled={!changed || errors.length > 0 || saving}
+      >
+        {saving ? "Saving..." : "Save source"}
+      </PrimaryButton>
+    </Stack>
+  );
+};
@@ -177,7 +177,7 @@ const CitySelectionDropdown: React.FC<{
     fontColor = "black";
   }
 
-  let selectionValue = { label: "Select city", value: { id: -1 } };
+  let selectionValue = { label: "Select city", value: { id: "" } };
   if (lastSelectedCityDetails) {
     selectionValue = {
       label: lastSelectedCityDetails.name,
@@ -186,9 +186,9 @@ const CitySelectionDropdown: React.FC<{
   }
 
   const selectionStyle: StylesConfig<
-    { label: string; value: { id: number } },
+    { label: string; value: { id: string } },
     false,
-    GroupBase<{ label: string; value: { id: number } }>
+    GroupBase<{ label: string; value: { id: string } }>
   > = {
     input: (props) => ({
       ...props,
@@ -263,7 +263,7 @@ const CitySelectionDropdown: React.FC<{
           <Select
             options={options}
             value={selectionValue}
-            onChange={(e) => setLastSelectedCityId(e?.value.id || -1)}
+            onChange={(e) => setLastSelectedCityId(e?.value.id || "")}
             isDisabled={dropdownDisabled}
             styles={selectionStyle}
           />
@@ -282,6 +282,9 @@ export type PixiMapProps<T> = {
   defaultCenter?: [number, number] | undefined;
   showCitySelectionDropDown?: boolean;
   zoom?: number;
+
+  // called with the [lat, lng] of clicks which did not drag the map
+  onMapClick?: (latLng: Point) => void;
 } & BoxProps;
 
 export const PixiMap = <T,>({
@@ -293,6 +296,7 @@ export const PixiMap = <T,>({
   useRenderer,
   zoom = DEFAULT_ZOOM,
   options,
+  onMapClick,
   ...rest
 }: PixiMapProps<T>) => {
   const [lastSelectedCityId] = useRecoilState(selectedCity);
@@ -334,6 +338,8 @@ export const PixiMap = <T,>({
     setCenterValue(center);
   };
 
+  const handleClick = ({ latLng }: { latLng: Point }) => onMapClick?.(latLng);
+
   React.useEffect(() => {
     setLastSelectedCityDetails(
       selectedCities.find((c) => c.id === lastSelectedCityId)
@@ -359,6 +365,7 @@ export const PixiMap = <T,>({
           maxZoom={18}
           minZoom={5}
           onBoundsChanged={handleBoundsChange}
+          onClick={handleClick}
           center={defaultCenter || centerValue}
           defaultZoom={mapZoom}
         >
@@ -0,0 +1,243 @@
+import {
+  Badge,
+  Button,
+  Code,
+  Heading,
+  Stack,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast,
+} from "@chakra-ui/react";
+import { format } from "d3-format";
+import * as React from "react";
+import useSWR from "swr";
+
+import { IngestChart } from "@/components/IngestChart";
+import {
+  dropPlan,
+  PlanDrop,
+  PlanHealth,
+  planLatencySeries,
+  PlanStatus,
+  recentPlanDrops,
+  samplePlanCache,
+  trackedQueries,
+} from "@/data/plancache";
+import { formatMs } from "@/format";
+import { useConnectionConfig } from "@/view/hooks/hooks";
+
+// the plan cache counters only change as the statements run, sampling more
+// often than the simulation monitor does not add information
+const REFRESH_INTERVAL = 10 * 1000;
+
+const REOPTIMIZE_REASON = "re-optimized from the query inspector";
+
+const formatCount = format(".4~s");
+
+const HEALTH_COLORS: { [health in PlanHealth]: string } = {
+  healthy: "green",
+  idle: "gray",
+  stale: "orange",
+  regressed: "red",
+};
+
+const queryLabel = (name: string) =>
+  trackedQueries.find((q) => q.name === name)?.label || name;
+
+const QueryTextCell = ({ sql }: { sql: string }) => (
+  <Td maxW="30vw">
+    <Code
+      display="block"
+      whiteSpace="pre-wrap"
+      fontSize="xs"
+      maxH="4.5em"
+      overflowY="auto"
+      background="transparent"
+    >
+      {sql}
+    </Code>
+  </Td>
+);
+
+const LatencyChart = () => {
+  const series = planLatencySeries();
+  const data = Object.fromEntries(
+    Object.entries(series)
+      .filter(([, points]) => points.length >= 2)
+      .map(([name, points]) => [queryLabel(name), points])
+  );
+
+  if (Object.keys(data).length === 0) {
+    return (
+      <Text fontSize="sm">
+        Collecting samples, the latency chart appears once the statements have
+        run between two samples.
+      </Text>
+    );
+  }
+  return <IngestChart data={data} yAxisLabel="avg latency (ms)" height={200} />;
+};
+
+const Plans = ({
+  plans,
+  onReoptimize,
+  pending,
+}: {
+  plans: Array<PlanStatus>;
+  onReoptimize: (plan: PlanStatus) => void;
+  pending?: string;
+}) => {
+  if (plans.length === 0) {
+    return (
+      <Text fontSize="sm">
+        None of the tracked statements has a cached plan yet.
+      </Text>
+    );
+  }
+
+  const rows = plans.map((plan) => (
+    <Tr key={plan.planId}>
+      <Td>{queryLabel(plan.queryName)}</Td>
+      <Td isNumeric>{plan.planId}</Td>
+      <Td isNumeric>{formatCount(plan.executions)}</Td>
+      <Td isNumeric>{formatMs(plan.avgLatencyMs)}</Td>
+      <Td isNumeric>
+        {plan.recentLatencyMs === null ? "-" : formatMs(plan.recentLatencyMs)}
+      </Td>
+      <Td whiteSpace="normal">
+        <Badge colorScheme={HEALTH_COLORS[plan.health]}>{plan.health}</Badge>{" "}
+        {plan.reason}
+      </Td>
+      <Td>
+        <Button
+          size="xs"
+          isLoading={pending === plan.planId}
+          onClick={() => onReoptimize(plan)}
+        >
+          Re-optimize
+        </Button>
+      </Td>
+    </Tr>
+  ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>Statement</Th>
+            <Th isNumeric>Plan</Th>
+            <Th isNumeric>Executions</Th>
+            <Th isNumeric>Avg latency</Th>
+            <Th isNumeric>Recent latency</Th>
+            <Th>Health</Th>
+            <Th />
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+const PlanDrops = ({ drops }: { drops: Array<PlanDrop> }) => {
+  if (drops.length === 0) {
+    return <Text fontSize="sm">No plans have been dropped yet.</Text>;
+  }
+
+  const rows = drops.map((d) => (
+    <Tr key={d.id}>
+      <Td>{d.at.toLocaleTimeString()}</Td>
+      <Td isNumeric>{d.planId}</Td>
+      <Td whiteSpace="normal">{d.reason}</Td>
+      <QueryTextCell sql={d.queryText} />
+    </Tr>
+  ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>Time</Th>
+            <Th isNumeric>Plan</Th>
+            <Th>Reason</Th>
+            <Th>Query</Th>
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+type Props = {
+  // incremented every time the query inspector is cleared, which samples the
+  // plan cache again right away while keeping its history
+  clearCount: number;
+};
+
+export const PlanCacheMonitor = ({ clearCount }: Props) => {
+  const config = useConnectionConfig("PlanCacheMonitor");
+  const toast = useToast();
+  const [pending, setPending] = React.useState<string>();
+
+  const {
+    data: plans,
+    error,
+    mutate,
+  } = useSWR(["samplePlanCache", config], () => samplePlanCache(config), {
+    refreshInterval: REFRESH_INTERVAL,
+  });
+
+  React.useEffect(() => {
+    if (clearCount > 0) {
+      mutate();
+    }
+  }, [clearCount, mutate]);
+
+  const onReoptimize = async (plan: PlanStatus) => {
+    setPending(plan.planId);
+    try {
+      await dropPlan(config, plan.planId, plan.queryText, REOPTIMIZE_REASON);
+    } catch (e) {
+      toast({
+        title: "Failed to drop the plan",
+        description: (e as Error).message,
+        status: "error",
+        isClosable: true,
+      });
+    } finally {
+      setPending(undefined);
+      mutate();
+    }
+  };
+
+  if (error) {
+    return (
+      <Text fontSize="sm">
+        Failed to read the plan cache: {(error as Error).message}
+      </Text>
+    );
+  }
+  if (!plans) {
+    return <Text fontSize="sm">Reading the plan cache...</Text>;
+  }
+
+  return (
+    <Stack spacing={6}>
+      <LatencyChart />
+      <Plans plans={plans} onReoptimize={onReoptimize} pending={pending} />
+      <Stack spacing={2}>
+        <Heading size="xs">Dropped plans</Heading>
+        <PlanDrops drops={recentPlanDrops()} />
+      </Stack>
+    </Stack>
+  );
+};
@@ -0,0 +1,291 @@
+import {
+  Badge,
+  Button,
+  Code,
+  Drawer,
+  DrawerBody,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerHeader,
+  DrawerOverlay,
+  HStack,
+  Switch,
+  Tab,
+  Table,
+  TableContainer,
+  TabList,
+  TabPanel,
+  TabPanels,
+  Tabs,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import { format } from "d3-format";
+import * as React from "react";
+
+import { PlanCacheMonitor } from "@/components/PlanCacheMonitor";
+import {
+  clearHandledErrors,
+  clearQueryEvents,
+  HandledErrorEvent,
+  normalizeQueryShape,
+  QueryEvent,
+  QueryEventSummary,
+  recentHandledErrors,
+  recentQueryEvents,
+  summarizeQueryEvents,
+} from "@/data/instrumentation";
+import { formatMs } from "@/format";
+
+const REFRESH_INTERVAL = 1000;
+const MAX_RECENT_ROWS = 200;
+
+const formatRate = format(".2~f");
+const formatCount = format(".4~s");
+
+const useRecentEvents = <T,>(read: () => Array<T>, enabled: boolean) => {
+  const [events, setEvents] = React.useState<Array<T>>([]);
+
+  React.useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    setEvents(read());
+    const interval = setInterval(() => setEvents(read()), REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [read, enabled]);
+
+  return events;
+};
+
+const SQLCell = ({ sql }: { sql: string }) => (
+  <Td maxW="40vw">
+    <Code
+      display="block"
+      whiteSpace="pre-wrap"
+      fontSize="xs"
+      maxH="6em"
+      overflowY="auto"
+      background="transparent"
+    >
+      {sql}
+    </Code>
+  </Td>
+);
+
+const RecentQueries = ({ events }: { events: Array<QueryEvent> }) => {
+  const errorColor = useColorModeValue("red.600", "red.300");
+  const rows = events
+    .slice(-MAX_RECENT_ROWS)
+    .reverse()
+    .map((e) => (
+      <Tr key={e.id} color={e.error ? errorColor : undefined}>
+        <Td>{new Date(e.startedAt).toLocaleTimeString()}</Td>
+        <Td>{e.caller}</Td>
+        <Td>
+          {e.endpoint}
+          {e.attempt > 1 ? (
+            <Badge ml={1} colorScheme="orange">
+              retry {e.attempt - 1}
+            </Badge>
+          ) : undefined}
+          {e.coalesced ? (
+            <Badge ml={1} colorScheme="green">
+              coalesced
+            </Badge>
+          ) : undefined}
+        </Td>
+        <Td isNumeric>{formatMs(e.durationMs)}</Td>
+        <Td isNumeric>{e.rowCount ?? "-"}</Td>
+        <SQLCell sql={e.error ? `${e.sql}\n-- ${e.error}` : e.sql} />
+      </Tr>
+    ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>Time</Th>
+            <Th>Caller</Th>
+            <Th>Endpoint</Th>
+            <Th isNumeric>Latency</Th>
+            <Th isNumeric>Rows</Th>
+            <Th>SQL</Th>
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+const HandledErrors = ({ errors }: { errors: Array<HandledErrorEvent> }) => {
+  const rows = errors
+    .slice(-MAX_RECENT_ROWS)
+    .reverse()
+    .map((e) => (
+      <Tr key={e.id}>
+        <Td>{new Date(e.at).toLocaleTimeString()}</Td>
+        <Td>{e.caller}</Td>
+        <Td>
+          <Badge colorScheme={e.handling === "retried" ? "orange" : "gray"}>
+            {e.handling}
+          </Badge>
+          {e.attempt ? ` after attempt ${e.attempt}` : undefined}
+        </Td>
+        <Td>
+          {e.kind} ({e.code})
+        </Td>
+        <SQLCell sql={`${e.sql}\n-- ${e.message}`} />
+      </Tr>
+    ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>Time</Th>
+            <Th>Caller</Th>
+            <Th>Handling</Th>
+            <Th>Error</Th>
+            <Th>SQL</Th>
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+const SummaryTable = ({
+  title,
+  summaries,
+}: {
+  title: string;
+  summaries: Array<QueryEventSummary>;
+}) => {
+  const isQueryShape = title === "Query";
+  const rows = summaries.map((s) => (
+    <Tr key={s.key}>
+      {isQueryShape ? <SQLCell sql={s.key} /> : <Td>{s.key}</Td>}
+      <Td isNumeric>{formatCount(s.count)}</Td>
+      <Td isNumeric>{formatRate(s.rate)}</Td>
+      <Td isNumeric>{formatMs(s.p50Ms)}</Td>
+      <Td isNumeric>{formatMs(s.p95Ms)}</Td>
+      <Td isNumeric>{formatCount(s.totalRows)}</Td>
+      <Td isNumeric>{s.coalesced}</Td>
+      <Td isNumeric>{s.errors}</Td>
+      {isQueryShape ? <Td>{s.callers.join(", ")}</Td> : undefined}
+    </Tr>
+  ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>{title}</Th>
+            <Th isNumeric>Count</Th>
+            <Th isNumeric>Per second</Th>
+            <Th isNumeric>p50</Th>
+            <Th isNumeric>p95</Th>
+            <Th isNumeric>Rows</Th>
+            <Th isNumeric>Coalesced</Th>
+            <Th isNumeric>Errors</Th>
+            {isQueryShape ? <Th>Callers</Th> : undefined}
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+export const QueryInspector = ({ isOpen, onClose }: Props) => {
+  const [paused, setPaused] = React.useState(false);
+  const events = useRecentEvents(recentQueryEvents, isOpen && !paused);
+  const handledErrors = useRecentEvents(recentHandledErrors, isOpen && !paused);
+  const [clearCount, setClearCount] = React.useState(0);
+
+  const onClear = () => {
+    clearQueryEvents();
+    clearHandledErrors();
+    setClearCount((n) => n + 1);
+  };
+
+  const byCaller = React.useMemo(
+    () => summarizeQueryEvents(events, (e) => e.caller),
+    [events]
+  );
+  const byShape = React.useMemo(
+    () => summarizeQueryEvents(events, (e) => normalizeQueryShape(e.sql)),
+    [events]
+  );
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} placement="bottom" size="lg">
+      <DrawerOverlay />
+      <DrawerContent maxH="70vh">
+        <DrawerCloseButton />
+        <DrawerHeader>
+          <HStack spacing={4}>
+            <Text>Query inspector</Text>
+            <Text fontSize="sm" fontWeight="normal">
+              {events.length} queries
+            </Text>
+            <HStack fontSize="sm" fontWeight="normal">
+              <Text>Pause</Text>
+              <Switch
+                isChecked={paused}
+                onChange={(e) => setPaused(e.target.checked)}
+              />
+            </HStack>
+            <Button size="xs" onClick={onClear}>
+              Clear
+            </Button>
+          </HStack>
+        </DrawerHeader>
+        <DrawerBody>
+          <Tabs size="sm" isLazy>
+            <TabList>
+              <Tab>Recent</Tab>
+              <Tab>By caller</Tab>
+              <Tab>By query</Tab>
+              <Tab>Handled errors ({handledErrors.length})</Tab>
+              <Tab>Plan cache</Tab>
+            </TabList>
+            <TabPanels>
+              <TabPanel px={0}>
+                <RecentQueries events={events} />
+              </TabPanel>
+              <TabPanel px={0}>
+                <SummaryTable title="Caller" summaries={byCaller} />
+              </TabPanel>
+              <TabPanel px={0}>
+                <SummaryTable title="Query" summaries={byShape} />
+              </TabPanel>
+              <TabPanel px={0}>
+                <HandledErrors errors={handledErrors} />
+              </TabPanel>
+              <TabPanel px={0}>
+                <PlanCacheMonitor clearCount={clearCount} />
+              </TabPanel>
+            </TabPanels>
+          </Tabs>
+        </DrawerBody>
+      </DrawerContent>
+    </Drawer>
+  );
+};
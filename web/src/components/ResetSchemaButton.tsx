@@ -36,20 +36,33 @@ export type Props = HTMLChakraProps<"button"> &
 
 export const ResetSchemaButton = (props: Props) => {
   const { updateCityList } = useUpdateCityList();
-  const { connected, initialized } = useConnectionState();
+  const { connected, initialized, needsUpgrade } = useConnectionState();
   const { onOpen, onClose, isOpen } = useDisclosure();
   const [resettingSchema, resettingSchemaCtrl] = useBoolean();
   const database = useRecoilValue(connectionDatabase);
   const cancelResetSchemaBtn = React.useRef<HTMLButtonElement>(null);
   const { skipSeedData, resetDataOnly, disabled, ...restProps } = props;
+  const upgradeOnly = needsUpgrade && !resetDataOnly;
 
   let resetButtonContent: React.ReactNode = "Create Database";
   if (resettingSchema) {
     resetButtonContent = <Loader size="small" />;
+  } else if (upgradeOnly) {
+    resetButtonContent = "Upgrade database";
   } else if (initialized) {
     resetButtonContent = "Recreate database";
   }
 
+  let dialogHeader = `Setup database ${database}`;
+  let dialogBody = `This will create the database called ${database}. Are you sure?`;
+  if (upgradeOnly) {
+    dialogHeader = `Upgrade database ${database}`;
+    dialogBody = `The database called ${database} was created by an older version of this app. This will upgrade its schema in place and keep its data.`;
+  } else if (initialized) {
+    dialogHeader = `Reset database ${database}`;
+    dialogBody = `This will recreate the database called ${database}. Are you sure?`;
+  }
+
   const onResetSchema = useResetSchema({
     before: React.useCallback(
       () => resettingSchemaCtrl.on(),
@@ -62,6 +75,7 @@ export const ResetSchemaButton = (props: Props) => {
     }, [onClose, resettingSchemaCtrl]),
     includeSeedData: !skipSeedData,
     resetDataOnly: !!resetDataOnly,
+    upgradeOnly,
   });
 
   return (
@@ -82,12 +96,9 @@ export const ResetSchemaButton = (props: Props) => {
         <AlertDialogOverlay>
           <AlertDialogContent>
             <AlertDialogHeader fontSize="lg" fontWeight="bold">
-              {initialized ? "Reset" : "Setup"} database {database}
+              {dialogHeader}
             </AlertDialogHeader>
-            <AlertDialogBody>
-              This will {initialized ? "recreate" : "create"} the database
-              called {database}. Are you sure?
-            </AlertDialogBody>
+            <AlertDialogBody>{dialogBody}</AlertDialogBody>
             <AlertDialogFooter>
               <Button
                 background="transparent"
@@ -0,0 +1,189 @@
+import {
+  Badge,
+  Button,
+  Input,
+  Stack,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import * as React from "react";
+import { useRecoilValue } from "recoil";
+import useSWR from "swr";
+
+import { PrimaryButton } from "@/components/customcomponents/Button";
+import { configScaleFactor } from "@/data/recoil";
+import {
+  deleteRetentionPolicy,
+  EffectiveRetentionPolicy,
+  retentionPolicies,
+  RetentionPolicy,
+  retentionPolicyErrors,
+  saveRetentionPolicy,
+  TimeseriesTable,
+} from "@/data/retention";
+import { useConnectionConfig } from "@/view/hooks/hooks";
+
+// limits are edited as text so that they can be cleared, the age is entered
+// in minutes
+type PolicyDraft = { maxRows: string; maxAgeMinutes: string };
+
+const toDraft = ({ maxRows, maxAgeSeconds }: RetentionPolicy): PolicyDraft => ({
+  maxRows: maxRows === null ? "" : String(maxRows),
+  maxAgeMinutes: maxAgeSeconds === null ? "" : String(maxAgeSeconds / 60),
+});
+
+const fromDraft = (
+  tableName: TimeseriesTable,
+  { maxRows, maxAgeMinutes }: PolicyDraft
+): RetentionPolicy => ({
+  tableName,
+  maxRows: maxRows === "" ? null : Number(maxRows),
+  maxAgeSeconds:
+    maxAgeMinutes === "" ? null : Math.round(Number(maxAgeMinutes) * 60),
+});
+
+const PolicyInput = ({
+  value,
+  placeholder,
+  setValue,
+}: {
+  value: string;
+  placeholder: string;
+  setValue: (value: string) => void;
+}) => (
+  <Input
+    size="sm"
+    type="number"
+    borderRadius="6px"
+    _focus={{ borderColor: "#553ACF" }}
+    placeholder={placeholder}
+    value={value}
+    onChange={(e) => setValue(e.target.value)}
+  />
+);
+
+export const RetentionPolicyForm = () => {
+  const config = useConnectionConfig("RetentionPolicyForm");
+  const scaleFactor = useRecoilValue(configScaleFactor);
+  const errorColor = useColorModeValue("red.600", "red.300");
+  const [drafts, setDrafts] = React.useState<{
+    [table: string]: PolicyDraft;
+  }>({});
+  const [saving, setSaving] = React.useState(false);
+
+  const { data: policies, mutate } = useSWR(
+    ["retentionPolicies", config, scaleFactor],
+    () => retentionPolicies(config, scaleFactor)
+  );
+
+  if (!policies) {
+    return <Text fontSize="sm">Loading retention policies...</Text>;
+  }
+
+  const draftOf = (policy: EffectiveRetentionPolicy) =>
+    drafts[policy.tableName] || toDraft(policy);
+
+  const setDraft = (tableName: TimeseriesTable, draft: PolicyDraft) =>
+    setDrafts({ ...drafts, [tableName]: draft });
+
+  const changed = policies
+    .map((policy) => fromDraft(policy.tableName, draftOf(policy)))
+    .filter(
+      (next, i) =>
+        next.maxRows !== policies[i].maxRows ||
+        next.maxAgeSeconds !== policies[i].maxAgeSeconds
+    );
+  const errors = changed.flatMap(retentionPolicyErrors);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await Promise.all(changed.map((p) => saveRetentionPolicy(config, p)));
+      await mutate();
+      setDrafts({});
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetToDefault = async (tableName: TimeseriesTable) => {
+    await deleteRetentionPolicy(config, tableName);
+    await mutate();
+    setDrafts({});
+  };
+
+  const rows = policies.map((policy) => {
+    const draft = draftOf(policy);
+
+    let status = (
+      <Button size="xs" onClick={() => resetToDefault(policy.tableName)}>
+        Use default
+      </Button>
+    );
+    if (policy.isDefault) {
+      status = <Badge>{scaleFactor.name} default</Badge>;
+    }
+
+    return (
+      <Tr key={policy.tableName}>
+        <Td>{policy.tableName}</Td>
+        <Td>
+          <PolicyInput
+            placeholder="no limit"
+            value={draft.maxRows}
+            setValue={(maxRows) =>
+              setDraft(policy.tableName, { ...draft, maxRows })
+            }
+          />
+        </Td>
+        <Td>
+          <PolicyInput
+            placeholder="no limit"
+            value={draft.maxAgeMinutes}
+            setValue={(maxAgeMinutes) =>
+              setDraft(policy.tableName, { ...draft, maxAgeMinutes })
+            }
+          />
+        </Td>
+        <Td>{status}</Td>
+      </Tr>
+    );
+  });
+
+  return (
+    <Stack spacing={4}>
+      <TableContainer overflowX="auto">
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Table</Th>
+              <Th>Max rows</Th>
+              <Th>Max age (minutes)</Th>
+              <Th />
+            </Tr>
+          </Thead>
+          <Tbody>{rows}</Tbody>
+        </Table>
+      </TableContainer>
+      {errors.map((error) => (
+        <Text key={error} fontSize="xs" color={errorColor}>
+          {error}
+        </Text>
+      ))}
+      <PrimaryButton
+        size="sm"
+        onClick={save}
+        disabled={changed.length === 0 || errors.length > 0 || saving}
+      >
+        {saving ? "Saving..." : "Save policies"}
+      </PrimaryButton>
+    </Stack>
+  );
+};
@@ -0,0 +1,75 @@
+import {
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from "@chakra-ui/react";
+import * as React from "react";
+
+import { recentRetentionRuns, RetentionRun } from "@/data/retention";
+import { formatNumber } from "@/format";
+
+const REFRESH_INTERVAL = 1000;
+
+const useRetentionRuns = () => {
+  const [runs, setRuns] = React.useState<Array<RetentionRun>>([]);
+
+  React.useEffect(() => {
+    setRuns(recentRetentionRuns());
+    const interval = setInterval(
+      () => setRuns(recentRetentionRuns()),
+      REFRESH_INTERVAL
+    );
+    return () => clearInterval(interval);
+  }, []);
+
+  return runs;
+};
+
+export const RetentionReport = () => {
+  const runs = useRetentionRuns();
+
+  if (runs.length === 0) {
+    return (
+      <Text fontSize="sm">
+        No rows have been deleted yet. The policies are applied by the
+        simulator, in the browser tab which controls it.
+      </Text>
+    );
+  }
+
+  const rows = runs.flatMap((run) =>
+    run.deletions.map((d) => (
+      <Tr key={`${run.id}-${d.tableName}`}>
+        <Td>{run.at.toLocaleTimeString()}</Td>
+        <Td>{d.tableName}</Td>
+        <Td>{d.reasons.join(", ")}</Td>
+        <Td>{d.cutoff.toLocaleString()}</Td>
+        <Td isNumeric>{formatNumber(d.rowsBefore)}</Td>
+        <Td isNumeric>{formatNumber(d.rowsDeleted)}</Td>
+      </Tr>
+    ))
+  );
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>Time</Th>
+            <Th>Table</Th>
+            <Th>Limit</Th>
+            <Th>Older than</Th>
+            <Th isNumeric>Rows</Th>
+            <Th isNumeric>Deleted</Th>
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
@@ -0,0 +1,250 @@
+import {
+  Button,
+  Heading,
+  HStack,
+  ListItem,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  SimpleGrid,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  UnorderedList,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import * as React from "react";
+import { useRecoilState, useRecoilValue } from "recoil";
+import useSWR from "swr";
+
+import { ConfigInput } from "@/components/ConfigInput";
+import { PrimaryButton } from "@/components/customcomponents/Button";
+import { clusterSizing } from "@/data/queries";
+import {
+  configScaleFactor,
+  customScaleFactors,
+  eventGeneratorConfig,
+  eventGeneratorEnabled,
+} from "@/data/recoil";
+import { formatNumber } from "@/format";
+import {
+  defaultScaleFactor,
+  recommendScaleFactor,
+  ScaleFactor,
+  scaleFactorErrors,
+  ScaleFactors,
+} from "@/scalefactors";
+import { useConnectionConfig, useConnectionState } from "@/view/hooks/hooks";
+
+const emptyScaleFactor: ScaleFactor = {
+  name: "",
+  maxRows: 1_000_000,
+  prefix: "v2/1k-2p",
+  partitions: 2,
+};
+
+const Recommendation = () => {
+  const { connected } = useConnectionState();
+  const config = useConnectionConfig("ScaleFactorAdvisor");
+  const [scaleFactor, setScaleFactor] = useRecoilState(configScaleFactor);
+  const custom = useRecoilValue(customScaleFactors);
+  const generatorEnabled = useRecoilValue(eventGeneratorEnabled);
+  const generatorConfig = useRecoilValue(eventGeneratorConfig);
+
+  const { data: sizing } = useSWR(
+    connected ? ["clusterSizing", config] : null,
+    () => clusterSizing(config)
+  );
+
+  if (!connected) {
+    return (
+      <Text fontSize="sm">
+        Connect to a cluster to get a recommendation for its size.
+      </Text>
+    );
+  }
+  if (!sizing) {
+    return <Text fontSize="sm">Measuring the cluster...</Text>;
+  }
+
+  // the pipelines are stopped while the generator runs, so the configured
+  // rates are the ingest rate
+  const ingestRowsPerSecond = generatorEnabled
+    ? generatorConfig.locationsPerSecond +
+      generatorConfig.requestsPerSecond +
+      generatorConfig.purchasesPerSecond
+    : sizing.ingestRowsPerSecond;
+
+  const recommendation = recommendScaleFactor(
+    { ...sizing, ingestRowsPerSecond },
+    [...ScaleFactors, ...custom]
+  );
+  const isSelected = recommendation.scaleFactor.name === scaleFactor.name;
+
+  return (
+    <Stack spacing={3}>
+      <SimpleGrid columns={3} gap={2} fontSize="sm">
+        <Text>Partitions: {sizing.partitions}</Text>
+        <Text>Leaf memory: {formatNumber(sizing.leafMemoryMB)} MB</Text>
+        <Text>Ingest: {formatNumber(ingestRowsPerSecond)} rows/sec</Text>
+      </SimpleGrid>
+      <Text fontSize="sm">
+        Recommended scale factor: <b>{recommendation.scaleFactor.name}</b>
+      </Text>
+      <UnorderedList fontSize="sm" pl={4}>
+        {recommendation.reasons.map((reason) => (
+          <ListItem key={reason}>{reason}</ListItem>
+        ))}
+      </UnorderedList>
+      <PrimaryButton
+        size="sm"
+        disabled={isSelected}
+        onClick={() => setScaleFactor(recommendation.scaleFactor)}
+      >
+        {isSelected ? "Selected" : `Use ${recommendation.scaleFactor.name}`}
+      </PrimaryButton>
+    </Stack>
+  );
+};
+
+const CustomScaleFactors = () => {
+  const [scaleFactor, setScaleFactor] = useRecoilState(configScaleFactor);
+  const [custom, setCustom] = useRecoilState(customScaleFactors);
+  const [draft, setDraft] = React.useState(emptyScaleFactor);
+  const errorColor = useColorModeValue("red.600", "red.300");
+
+  const errors = scaleFactorErrors(draft);
+  const exists = custom.some((sf) => sf.name === draft.name);
+
+  const numberField = (field: "maxRows" | "partitions") => (value: string) =>
+    setDraft({ ...draft, [field]: Math.floor(Number(value)) });
+
+  // saving a profile with the name of an existing one replaces it, the
+  // selected scale factor picks up the change
+  const save = () => {
+    setCustom([...custom.filter((sf) => sf.name !== draft.name), draft]);
+    if (scaleFactor.name === draft.name) {
+      setScaleFactor(draft);
+    }
+    setDraft(emptyScaleFactor);
+  };
+
+  const remove = (name: string) => {
+    setCustom(custom.filter((sf) => sf.name !== name));
+    if (scaleFactor.name === name) {
+      setScaleFactor(defaultScaleFactor);
+    }
+  };
+
+  let profiles;
+  if (custom.length > 0) {
+    profiles = (
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>Name</Th>
+            <Th isNumeric>Max rows</Th>
+            <Th>Prefix</Th>
+            <Th isNumeric>Partitions</Th>
+            <Th />
+          </Tr>
+        </Thead>
+        <Tbody>
+          {custom.map((sf) => (
+            <Tr key={sf.name}>
+              <Td>{sf.name}</Td>
+              <Td isNumeric>{formatNumber(sf.maxRows)}</Td>
+              <Td>{sf.prefix}</Td>
+              <Td isNumeric>{sf.partitions}</Td>
+              <Td>
+                <HStack justifyContent="flex-end">
+                  <Button size="xs" onClick={() => setDraft(sf)}>
+                    Edit
+                  </Button>
+                  <Button size="xs" onClick={() => remove(sf.name)}>
+                    Delete
+                  </Button>
+                </HStack>
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    );
+  }
+
+  return (
+    <Stack spacing={3}>
+      {profiles}
+      <SimpleGrid columns={2} gap={2}>
+        <ConfigInput
+          label="Name"
+          placeholder="my-cluster"
+          required
+          value={draft.name}
+          setValue={(name) => setDraft({ ...draft, name })}
+        />
+        <ConfigInput
+          label="Prefix"
+          placeholder="v2/1k-2p"
+          required
+          value={draft.prefix}
+          setValue={(prefix) => setDraft({ ...draft, prefix })}
+          helpText="The directory of the pipeline source to load from."
+        />
+        <ConfigInput
+          label="Max rows"
+          placeholder="1000000"
+          type="number"
+          required
+          value={String(draft.maxRows)}
+          setValue={numberField("maxRows")}
+          helpText="Older rows are truncated from the timeseries tables."
+        />
+        <ConfigInput
+          label="Partitions"
+          placeholder="2"
+          type="number"
+          required
+          value={String(draft.partitions)}
+          setValue={numberField("partitions")}
+        />
+      </SimpleGrid>
+      {errors.map((error) => (
+        <Text key={error} fontSize="xs" color={errorColor}>
+          {error}
+        </Text>
+      ))}
+      <PrimaryButton size="sm" onClick={save} disabled={errors.length > 0}>
+        {exists ? `Update ${draft.name}` : "Save scale factor"}
+      </PrimaryButton>
+    </Stack>
+  );
+};
+
+export const ScaleFactorAdvisor = ({ onClose }: { onClose: () => void }) => (
+  <Modal size="2xl" isOpen onClose={onClose} isCentered>
+    <ModalOverlay />
+    <ModalContent>
+      <ModalHeader>Scale factor advisor</ModalHeader>
+      <ModalCloseButton _focus={{ boxShadow: "none" }} />
+      <ModalBody pb={6}>
+        <Stack spacing={6}>
+          <Recommendation />
+          <Stack spacing={3}>
+            <Heading size="sm">Custom scale factors</Heading>
+            <CustomScaleFactors />
+          </Stack>
+        </Stack>
+      </ModalBody>
+    </ModalContent>
+  </Modal>
+);
@@ -1,23 +1,52 @@
-import { FormControl, FormLabel, Select } from "@chakra-ui/react";
+import { Button, Flex, FormControl, FormLabel, Select } from "@chakra-ui/react";
 import * as React from "react";
-import { useRecoilState } from "recoil";
+import { useRecoilState, useRecoilValue } from "recoil";
 
-import { configScaleFactor } from "@/data/recoil";
+import { ScaleFactorAdvisor } from "@/components/ScaleFactorAdvisor";
+import { configScaleFactor, customScaleFactors } from "@/data/recoil";
 import { getScaleFactor, ScaleFactors } from "@/scalefactors";
 
 export const ScaleFactorSelector = () => {
   const [scaleFactor, setScaleFactor] = useRecoilState(configScaleFactor);
+  const custom = useRecoilValue(customScaleFactors);
+  const [showAdvisor, setShowAdvisor] = React.useState(false);
+
+  const openAdvisor = () => setShowAdvisor(true);
+  const closeAdvisor = () => setShowAdvisor(false);
+
+  let customOptions;
+  if (custom.length > 0) {
+    customOptions = (
+      <optgroup label="Custom">
+        {custom.map((f) => (
+          <option value={f.name} key={f.name}>
+            {f.name}
+          </option>
+        ))}
+      </optgroup>
+    );
+  }
+
+  let advisor;
+  if (showAdvisor) {
+    advisor = <ScaleFactorAdvisor onClose={closeAdvisor} />;
+  }
 
   return (
     <FormControl>
-      <FormLabel
-        mb={1}
-        fontSize="xs"
-        fontWeight="bold"
-        textTransform="uppercase"
-      >
-        Scale Factor
-      </FormLabel>
+      <Flex justifyContent="space-between" alignItems="center">
+        <FormLabel
+          mb={1}
+          fontSize="xs"
+          fontWeight="bold"
+          textTransform="uppercase"
+        >
+          Scale Factor
+        </FormLabel>
+        <Button size="xs" variant="link" onClick={openAdvisor}>
+          Sizing advisor
+        </Button>
+      </Flex>
       <Select
         size="sm"
         required
@@ -26,7 +55,7 @@ export const ScaleFactorSelector = () => {
         value={scaleFactor.name}
         onChange={(ev) => {
           const v = ev.target.value;
-          setScaleFactor(getScaleFactor(v));
+          setScaleFactor(getScaleFactor(v, custom));
         }}
       >
         {ScaleFactors.map((f) => (
@@ -34,7 +63,9 @@ export const ScaleFactorSelector = () => {
             {f.name}
           </option>
         ))}
+        {customOptions}
       </Select>
+      {advisor}
     </FormControl>
   );
 };
@@ -0,0 +1,66 @@
+import { Box, Grid, Text, useColorModeValue } from "@chakra-ui/react";
+import * as React from "react";
+
+import { DiffLine, diffLines, sideBySide } from "@/diff";
+
+const DiffCell = ({ line }: { line?: DiffLine }) => {
+  const removedBg = useColorModeValue("red.50", "rgba(254, 178, 178, 0.16)");
+  const addedBg = useColorModeValue("green.50", "rgba(154, 230, 180, 0.16)");
+  const emptyBg = useColorModeValue("gray.50", "whiteAlpha.50");
+
+  let bg;
+  if (!line) {
+    bg = emptyBg;
+  } else if (line.op === "removed") {
+    bg = removedBg;
+  } else if (line.op === "added") {
+    bg = addedBg;
+  }
+
+  return (
+    <Box
+      as="pre"
+      bg={bg}
+      px={2}
+      fontFamily="mono"
+      fontSize="xs"
+      whiteSpace="pre-wrap"
+      minH="1.5em"
+    >
+      {line?.text}
+    </Box>
+  );
+};
+
+type Props = {
+  leftTitle: string;
+  rightTitle: string;
+  left: string;
+  right: string;
+};
+
+// SchemaDiff shows left and right side by side, lines only on the left are
+// highlighted as removed and lines only on the right as added
+export const SchemaDiff = ({ leftTitle, rightTitle, left, right }: Props) => {
+  const rows = React.useMemo(
+    () => sideBySide(diffLines(left, right)),
+    [left, right]
+  );
+
+  return (
+    <Grid templateColumns="1fr 1fr" columnGap={2} overflowX="auto">
+      <Text fontWeight="bold" fontSize="sm" mb={2}>
+        {leftTitle}
+      </Text>
+      <Text fontWeight="bold" fontSize="sm" mb={2}>
+        {rightTitle}
+      </Text>
+      {rows.map(({ left, right }, i) => (
+        <React.Fragment key={i}>
+          <DiffCell line={left} />
+          <DiffCell line={right} />
+        </React.Fragment>
+      ))}
+    </Grid>
+  );
+};
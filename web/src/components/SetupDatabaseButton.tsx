@@ -4,15 +4,18 @@ import { useRecoilState } from "recoil";
 
 import { ResetSchemaButton } from "@/components/ResetSchemaButton";
 import { connectionDatabase } from "@/data/recoil";
+import { useConnectionState } from "@/view/hooks/hooks";
 
 export const SetupDatabaseButton: React.FC = () => {
   const [databaseName] = useRecoilState(connectionDatabase);
+  const { needsUpgrade } = useConnectionState();
 
   return (
     <Box>
       <Text>
-        You don't have {databaseName} database. Please setup the schema for this
-        application.
+        {needsUpgrade
+          ? `The ${databaseName} database was created by an older version of this application. Please upgrade its schema.`
+          : `You don't have ${databaseName} database. Please setup the schema for this application.`}
       </Text>
       <br />
       <ResetSchemaButton
@@ -20,7 +23,7 @@ export const SetupDatabaseButton: React.FC = () => {
         color={useColorModeValue("#553ACF", "#ECE8FD")}
         size="sm"
       >
-        Setup Database
+        {needsUpgrade ? "Upgrade Database" : "Setup Database"}
       </ResetSchemaButton>
     </Box>
   );
@@ -11,8 +11,9 @@ import { useRecoilValue } from "recoil";
 import useSWR from "swr";
 
 import { estimatedRowCountObj } from "@/data/queries";
-import { connectionConfig, tickDurationMs } from "@/data/recoil";
+import { tickDurationMs } from "@/data/recoil";
 import { formatMs } from "@/format";
+import { useConnectionConfig } from "@/view/hooks/hooks";
 
 import { Loader } from "./customcomponents/loader/Loader";
 
@@ -38,7 +39,7 @@ const StatWrapper = ({
 };
 
 export const Stats = () => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("Stats");
   const matchingDuration = useRecoilValue(tickDurationMs("SimulatorMatcher"));
   const updateSegmentsDuration = useRecoilValue(
     tickDurationMs("SimulatorUpdateSegments")
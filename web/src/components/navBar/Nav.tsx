@@ -14,6 +14,7 @@ import {
   MenuItem,
   MenuList,
   Stack,
+  Tooltip,
   useColorMode,
   useColorModeValue,
   useDisclosure,
@@ -24,6 +25,8 @@ import {
 import * as React from "react";
 import {
   BsBarChart,
+  BsDiagram3,
+  BsDiagram3Fill,
   BsFillBarChartFill,
   BsGear,
   BsGearFill,
@@ -31,6 +34,10 @@ import {
   BsMapFill,
   BsShare,
   BsShareFill,
+  BsTag,
+  BsTagFill,
+  BsTerminal,
+  BsTerminalFill,
 } from "react-icons/bs";
 import { ReactElement } from "react-markdown/lib/react-markdown";
 import { NavLink as RouterLink } from "react-router-dom";
@@ -39,6 +46,7 @@ import SingleStoreLogoDark from "@/assets/singlestore-logo-dark.svg";
 import SinglestoreLogo from "@/assets/singlestore-logo-filled-sm.svg";
 import { GithubStargazer } from "@/components/GithubButtons";
 import { LinkedinIconButton, TwitterIconButton } from "@/components/IconLinks";
+import { QueryInspector } from "@/components/QueryInspector";
 
 import { SimulatorButton } from "../EnableSimulatorButton";
 
@@ -68,6 +76,8 @@ export const SinglestoreBrandLogo = () => {
 export const NavTools = () => {
   const { toggleColorMode } = useColorMode();
   const { colorMode } = useColorMode();
+  const handleQueryInspector = useDisclosure();
+  const isQueryInspectorOpen = handleQueryInspector.isOpen;
 
   let themeModeIcon = <MoonIcon cursor="pointer" onClick={toggleColorMode} />;
   if (colorMode === "dark") {
@@ -106,6 +116,19 @@ export const NavTools = () => {
         </MenuList>
       </Menu>
       {themeModeIcon}
+      <Tooltip label="Query inspector">
+        <span>
+          <Icon
+            as={useColorModeValue(BsTerminal, BsTerminalFill)}
+            cursor="pointer"
+            onClick={handleQueryInspector.onOpen}
+          />
+        </span>
+      </Tooltip>
+      <QueryInspector
+        isOpen={isQueryInspectorOpen}
+        onClose={handleQueryInspector.onClose}
+      />
       <SimulatorButton />
       <GithubStargazer
         color="black"
@@ -196,6 +219,18 @@ export const Nav = () => {
           />
         }
       />
+      <NavLinkComponent
+        to="/offers"
+        NavLinkTitle="Offers"
+        IconElement={<Icon as={useColorModeValue(BsTag, BsTagFill)} />}
+      />
+      <NavLinkComponent
+        to="/pipelines"
+        NavLinkTitle="Pipelines"
+        IconElement={
+          <Icon as={useColorModeValue(BsDiagram3, BsDiagram3Fill)} />
+        }
+      />
       <NavLinkComponent
         to="/configure"
         NavLinkTitle="Configure"
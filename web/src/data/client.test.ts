@@ -0,0 +1,97 @@
+import { describe, expect, test } from "vitest";
+
+import {
+  ConnectionConfig,
+  execStatement,
+  queryStatement,
+  RETRY_TRANSIENT,
+  SQLError,
+  Transaction,
+} from "@/data/client";
+import { createFakeDataAPI } from "@/data/fake/server";
+import {
+  clearHandledErrors,
+  recentHandledErrors,
+} from "@/data/instrumentation";
+import { getCities } from "@/data/queries";
+import { createMemoryTransport, MemoryHandler } from "@/data/transport";
+
+const memoryConfig = (handler: MemoryHandler): ConnectionConfig => ({
+  host: "memory",
+  user: "root",
+  password: "",
+  database: "martech",
+  transport: createMemoryTransport(handler),
+  retry: { ...RETRY_TRANSIENT, baseDelayMs: 0 },
+  caller: "test",
+});
+
+const insertCity = (id: string) =>
+  execStatement(
+    "INSERT INTO `cities` (`city_id`, `city_name`, `center`, `diameter`) VALUES (?, ?, ?, ?)",
+    id,
+    `city ${id}`,
+    "POINT(1 2)",
+    0.1
+  );
+
+describe("Transaction", () => {
+  test("returns one result per statement", async () => {
+    const config = memoryConfig(createFakeDataAPI());
+    const [inserted, cities] = await Transaction(config, [
+      insertCity("1"),
+      queryStatement("SELECT city_id AS id FROM cities"),
+    ]);
+    expect(inserted.rowsAffected).toBe(1);
+    expect(cities.map((c) => c.id)).toContain("1");
+  });
+
+  test("leaves no rows behind when a statement fails", async () => {
+    const config = memoryConfig(createFakeDataAPI());
+    const before = await getCities(config);
+
+    const error = await Transaction(config, [
+      insertCity("1"),
+      execStatement("UPSERT INTO cities VALUES (?)", 2),
+      insertCity("3"),
+    ]).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SQLError);
+    expect(await getCities(config)).toEqual(before);
+  });
+
+  test("rejects responses with an unexpected number of result sets", async () => {
+    const config = memoryConfig(() => ({ results: [] }));
+    await expect(Transaction(config, [insertCity("1")])).rejects.toThrow(
+      "Expected 1 result sets, got 0"
+    );
+  });
+
+  test("only retries errors which prove that the batch was rolled back", async () => {
+    const api = createFakeDataAPI();
+    let attempts = 0;
+
+    const deadlocked = memoryConfig((req) => {
+      attempts++;
+      return attempts === 1
+        ? { error: { code: 1213, message: "Deadlock found" } }
+        : api(req);
+    });
+    clearHandledErrors();
+    await Transaction(deadlocked, [insertCity("1")]);
+    expect(attempts).toBe(2);
+    expect(recentHandledErrors()).toMatchObject([
+      { caller: "test", handling: "retried", code: 1213, attempt: 1 },
+    ]);
+
+    attempts = 0;
+    const disconnected = memoryConfig(() => {
+      attempts++;
+      throw new Error("connection reset");
+    });
+    await expect(
+      Transaction(disconnected, [insertCity("1")])
+    ).rejects.toBeInstanceOf(SQLError);
+    expect(attempts).toBe(1);
+  });
+});
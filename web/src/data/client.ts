@@ -1,14 +1,27 @@
-const rectifyHostAddress = (hostAddress: string) => {
-  if (
-    hostAddress.toLowerCase().startsWith("http://") ||
-    hostAddress.toLowerCase().startsWith("https://") ||
-    hostAddress === ""
-  ) {
-    return hostAddress;
-  } else {
-    return `https://${hostAddress}`;
-  }
-};
+import { RowSchema } from "@/data/decode";
+import {
+  recordHandledError,
+  recordQueryEvent,
+  UNKNOWN_CALLER,
+} from "@/data/instrumentation";
+import { parseJSON, stringifyJSON } from "@/data/json";
+import {
+  and,
+  compileSelect,
+  eq,
+  gt,
+  lt,
+  or,
+  OrderBy,
+  SelectStatement,
+} from "@/data/sqlgen";
+import {
+  DataAPIEndpoint,
+  DataAPIRequest,
+  DataAPIResponse,
+  httpTransport,
+  Transport,
+} from "@/data/transport";
 
 export type ConnectionConfig = {
   host: string;
@@ -16,6 +29,15 @@ export type ConnectionConfig = {
   password: string;
   database: string;
   ctx?: AbortController;
+
+  // defaults to httpTransport
+  transport?: Transport;
+
+  // queries are not retried unless a policy is set
+  retry?: RetryPolicy;
+
+  // identifies the component or hook running the query in the query inspector
+  caller?: string;
 };
 
 export type ConnectionConfigOptionalDatabase = Omit<
@@ -25,9 +47,11 @@ export type ConnectionConfigOptionalDatabase = Omit<
   database?: string;
 };
 
+// bigint values are sent to the Data API as decimal strings
 export type SQLValue =
   | string
   | number
+  | bigint
   | boolean
   | null
   | { [key: string]: SQLValue }
@@ -37,17 +61,65 @@ export type Row = { [key: string]: SQLValue };
 
 const regexSQLErrorCode = /^Error (?<code>\d+):/;
 
-const DEBUG = false;
+export type SQLErrorKind =
+  | "network"
+  | "auth"
+  | "syntax"
+  | "lockWaitTimeout"
+  | "leafFailover"
+  | "databaseRecovering"
+  | "unknownDatabase"
+  | "unknownTable"
+  | "planMissing"
+  | "server"
+  | "unknown";
+
+const ERROR_CODE_KINDS: { [code: number]: SQLErrorKind } = {
+  1044: "auth", // access denied to database
+  1045: "auth", // access denied for user
+  1064: "syntax",
+  1049: "unknownDatabase",
+  1146: "unknownTable",
+  1205: "lockWaitTimeout",
+  1213: "lockWaitTimeout", // deadlock, the transaction was rolled back
+  1735: "leafFailover", // unable to connect to leaf
+  1777: "leafFailover", // partition has no master instance
+  1885: "planMissing",
+  2269: "databaseRecovering",
+};
+
+// errors of these kinds are expected to go away on their own
+const TRANSIENT_ERROR_KINDS: Array<SQLErrorKind> = [
+  "network",
+  "lockWaitTimeout",
+  "leafFailover",
+  "databaseRecovering",
+  "server",
+];
+
+// errors of these kinds are reported by the database after it rolled back the
+// statement, while network and server errors can be returned for statements
+// which were applied but whose response was lost
+const NOT_APPLIED_ERROR_KINDS: Array<SQLErrorKind> = [
+  "lockWaitTimeout",
+  "leafFailover",
+  "databaseRecovering",
+];
 
 export class SQLError extends Error {
   code: number;
   sql: string;
+  kind: SQLErrorKind;
+
+  // HTTP status of the Data API response, 0 if no response was received
+  status?: number;
 
-  constructor(msg: string, sql: string, code?: number) {
+  constructor(msg: string, sql: string, code?: number, status?: number) {
     super(msg);
     // https://stackoverflow.com/a/41429145/65872
     Object.setPrototypeOf(this, SQLError.prototype);
     this.sql = sql;
+    this.status = status;
 
     if (code) {
       this.code = code;
@@ -55,53 +127,307 @@ export class SQLError extends Error {
       const matched = msg.match(regexSQLErrorCode);
       this.code = matched ? parseInt(matched.groups?.code || "-1", 10) : -1;
     }
+
+    this.kind = classifySQLError(this.code, status);
   }
 
   isUnknownDatabase() {
-    return this.code === 1049;
+    return this.kind === "unknownDatabase";
+  }
+
+  isUnknownTable() {
+    return this.kind === "unknownTable";
   }
 
   isDatabaseRecovering() {
-    return this.code === 2269;
+    return this.kind === "databaseRecovering";
   }
 
   isPlanMissing() {
-    return this.code === 1885;
+    return this.kind === "planMissing";
+  }
+
+  isNetworkError() {
+    return this.kind === "network";
+  }
+
+  isAuthFailure() {
+    return this.kind === "auth";
+  }
+
+  isSyntaxError() {
+    return this.kind === "syntax";
+  }
+
+  isLockWaitTimeout() {
+    return this.kind === "lockWaitTimeout";
+  }
+
+  isLeafFailover() {
+    return this.kind === "leafFailover";
+  }
+
+  isServerError() {
+    return this.kind === "server";
+  }
+
+  isTransient() {
+    return TRANSIENT_ERROR_KINDS.includes(this.kind);
+  }
+
+  wasNotApplied() {
+    return NOT_APPLIED_ERROR_KINDS.includes(this.kind);
   }
 }
 
-export const QueryOne = async <T = Row>(
+const classifySQLError = (code: number, status?: number): SQLErrorKind => {
+  if (code in ERROR_CODE_KINDS) {
+    return ERROR_CODE_KINDS[code];
+  }
+  if (status === 0) {
+    return "network";
+  }
+  if (status === 401 || status === 403) {
+    return "auth";
+  }
+  if (status && status >= 500) {
+    return "server";
+  }
+  return "unknown";
+};
+
+export type RetryPolicy = {
+  // total number of attempts, including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+
+  // defaults to retrying transient errors
+  shouldRetry?: (err: SQLError) => boolean;
+};
+
+// RETRY_TRANSIENT retries transient errors a few times within a couple of
+// seconds, which is enough to ride out a lock wait timeout or a leaf failover.
+// It is meant for reads and idempotent writes, a retried write may be applied
+// twice.
+export const RETRY_TRANSIENT: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+};
+
+// RETRY_NOT_APPLIED is RETRY_TRANSIENT for writes which must not be applied
+// twice, only errors which prove that the statement was rolled back are
+// retried
+export const RETRY_NOT_APPLIED: RetryPolicy = {
+  ...RETRY_TRANSIENT,
+  shouldRetry: (err) => err.wasNotApplied(),
+};
+
+const isAbortError = (e: unknown) =>
+  e instanceof DOMException && e.name === "AbortError";
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new DOMException("The request was aborted", "AbortError"));
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException("The request was aborted", "AbortError"));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// backoffDelay returns an exponential backoff with full jitter
+const backoffDelay = (policy: RetryPolicy, attempt: number) =>
+  Math.random() *
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+
+const withRetry = async <T>(
   config: ConnectionConfigOptionalDatabase,
-  sql: string,
-  ...args: Array<SQLValue>
+  fn: () => Promise<T>
 ): Promise<T> => {
-  const rows = await Query<T>(config, sql, ...args);
-  if (rows.length !== 1) {
-    throw new SQLError("Expected exactly one row", sql);
+  const { retry: policy, ctx } = config;
+  const shouldRetry = policy?.shouldRetry || ((e) => e.isTransient());
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (
+        !policy ||
+        attempt >= policy.maxAttempts ||
+        !(e instanceof SQLError && shouldRetry(e)) ||
+        ctx?.signal.aborted
+      ) {
+        throw e;
+      }
+      recordHandledError({
+        caller: config.caller || UNKNOWN_CALLER,
+        handling: "retried",
+        at: Date.now(),
+        kind: e.kind,
+        code: e.code,
+        message: e.message,
+        sql: e.sql,
+        attempt,
+      });
+      await sleep(backoffDelay(policy, attempt), ctx?.signal);
+    }
   }
+};
 
-  return rows[0];
+// the query functions accept an optional RowSchema before the SQL, in which
+// case every row is validated and converted by the schema
+type QueryFn<R> = {
+  <T = Row>(
+    config: ConnectionConfigOptionalDatabase,
+    sql: string,
+    ...args: Array<SQLValue>
+  ): Promise<R extends "one" ? T : Array<T>>;
+  <T>(
+    config: ConnectionConfigOptionalDatabase,
+    schema: RowSchema<T>,
+    sql: string,
+    ...args: Array<SQLValue>
+  ): Promise<R extends "one" ? T : Array<T>>;
 };
 
-export const Query = async <T = Row>(
+type QueryArgs = [RowSchema<unknown> | string, ...Array<SQLValue>];
+
+const splitQueryArgs = ([first, ...rest]: QueryArgs) =>
+  typeof first === "string"
+    ? { schema: undefined, sql: first, args: rest }
+    : { schema: first, sql: rest[0] as string, args: rest.slice(1) };
+
+const queryRows = async (
   config: ConnectionConfigOptionalDatabase,
-  sql: string,
-  ...args: Array<SQLValue>
-): Promise<Array<T>> => {
+  queryArgs: QueryArgs
+) => {
+  const { schema, sql, args } = splitQueryArgs(queryArgs);
   const data = await fetchEndpoint("query/rows", config, sql, ...args);
 
   if (data.results.length !== 1) {
     throw new SQLError("Expected exactly one result set", sql);
   }
 
-  return data.results[0].rows;
+  const rows: Array<Row> = data.results[0].rows;
+  return { sql, rows: schema ? rows.map(schema.decode) : rows };
 };
 
-export const QueryNoDb = <T = Row>(
+export const QueryOne = (async (
   config: ConnectionConfigOptionalDatabase,
-  sql: string,
-  ...args: Array<SQLValue>
-): Promise<Array<T>> => Query({ ...config, database: undefined }, sql, ...args);
+  ...queryArgs: QueryArgs
+) => {
+  const { sql, rows } = await queryRows(config, queryArgs);
+  if (rows.length !== 1) {
+    throw new SQLError("Expected exactly one row", sql);
+  }
+
+  return rows[0];
+}) as QueryFn<"one">;
+
+export const Query = (async (
+  config: ConnectionConfigOptionalDatabase,
+  ...queryArgs: QueryArgs
+) => {
+  const { rows } = await queryRows(config, queryArgs);
+  return rows;
+}) as QueryFn<"many">;
+
+export const QueryNoDb = ((
+  config: ConnectionConfigOptionalDatabase,
+  ...queryArgs: QueryArgs
+) =>
+  queryRows({ ...config, database: undefined }, queryArgs).then(
+    ({ rows }) => rows
+  )) as QueryFn<"many">;
+
+// PagedQuery describes a result set which is read one page at a time using
+// keyset pagination, which stays fast no matter how deep the page is
+export type PagedQuery<T> = {
+  // SELECT statement returning the whole result set, without ORDER BY or LIMIT
+  select: SelectStatement;
+
+  // the sort keys must not be NULL and must uniquely identify every row
+  orderBy: Array<OrderBy>;
+  pageSize: number;
+  schema?: RowSchema<T>;
+};
+
+// PageCursor holds the sort key values of the last row of a page
+export type PageCursor = Array<SQLValue>;
+
+export type Page<T> = {
+  rows: Array<T>;
+
+  // undefined on the last page
+  cursor?: PageCursor;
+};
+
+// keysetCondition selects the rows sorted after the cursor:
+// (k1 > ?) OR (k1 = ? AND k2 > ?) OR ...
+const keysetCondition = (orderBy: Array<OrderBy>, cursor: PageCursor) =>
+  or(
+    ...orderBy.map(({ column, direction }, i) =>
+      and(
+        ...orderBy.slice(0, i).map((key, j) => eq(key.column, cursor[j])),
+        (direction === "DESC" ? lt : gt)(column, cursor[i])
+      )
+    )
+  );
+
+export const QueryPage = async <T = Row>(
+  config: ConnectionConfigOptionalDatabase,
+  query: PagedQuery<T>,
+  cursor?: PageCursor
+): Promise<Page<T>> => {
+  const { orderBy, pageSize, schema } = query;
+  const { with: ctes, ...select } = query.select;
+
+  const { sql, params } = compileSelect({
+    with: ctes,
+    columns: ["*"],
+    from: { source: select, alias: "page" },
+    where: cursor ? keysetCondition(orderBy, cursor) : undefined,
+    orderBy,
+    // fetch one extra row to find out if there is another page
+    limit: pageSize + 1,
+  });
+  const rows = await Query(config, sql, ...params);
+
+  const pageRows = rows.slice(0, pageSize);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    rows: schema
+      ? pageRows.map(schema.decode)
+      : (pageRows as unknown as Array<T>),
+    cursor:
+      rows.length > pageSize
+        ? orderBy.map(({ column }) => last[column])
+        : undefined,
+  };
+};
+
+// QueryPages reads every page of a paged query in order, only one page is
+// held in memory at a time
+export const QueryPages = async function* <T = Row>(
+  config: ConnectionConfigOptionalDatabase,
+  query: PagedQuery<T>
+): AsyncGenerator<Array<T>> {
+  let cursor: PageCursor | undefined;
+  do {
+    const page: Page<T> = await QueryPage(config, query, cursor);
+    cursor = page.cursor;
+    yield page.rows;
+  } while (cursor);
+};
 
 export const QueryTuples = async <
   T extends [...Array<SQLValue>] = Array<SQLValue>
@@ -119,51 +445,313 @@ export const QueryTuples = async <
   return data.results[0].rows;
 };
 
+// lastInsertId is a decimal string if it does not fit in a number
+export type ExecResult = {
+  lastInsertId: number | string;
+  rowsAffected: number;
+};
+
+export type ExecStatement = {
+  kind: "exec";
+  sql: string;
+  args: Array<SQLValue>;
+};
+
+export type QueryStatement<T = Row> = {
+  kind: "query";
+  sql: string;
+  args: Array<SQLValue>;
+
+  // never set, only used to carry the row type through a Transaction
+  _row?: T;
+};
+
+export type BatchStatement = ExecStatement | QueryStatement<unknown>;
+
+export type Batch = ReadonlyArray<BatchStatement>;
+
+export type BatchResults<S extends Batch> = {
+  -readonly [K in keyof S]: S[K] extends QueryStatement<infer T>
+    ? Array<T>
+    : ExecResult;
+};
+
+export const execStatement = (
+  sql: string,
+  ...args: Array<SQLValue>
+): ExecStatement => ({ kind: "exec", sql, args });
+
+export const queryStatement = <T = Row>(
+  sql: string,
+  ...args: Array<SQLValue>
+): QueryStatement<T> => ({ kind: "query", sql, args });
+
+// appended after every exec statement so that it also produces a result set
+const EXEC_RESULT_SQL =
+  "SELECT ROW_COUNT() AS rowsAffected, LAST_INSERT_ID() AS lastInsertId";
+
+// Transaction runs the statements in order as a single unit and returns one
+// result per statement: rows for query statements and an ExecResult for exec
+// statements.
+//
+// The batch is sent as one multi-statement query/rows request wrapped in
+// START TRANSACTION and COMMIT. The Data API runs the statements of a request
+// in order on one connection and stops at the first one which fails, so
+// COMMIT only runs when every statement succeeded. There is no explicit
+// ROLLBACK: the open transaction is rolled back when the Data API releases
+// the connection, so either every statement is applied or none is. The fake
+// Data API does the same and the tests rely on it.
+//
+// The Data API returns a result set for every statement which returns rows,
+// which are the query statements and the ROW_COUNT query after every exec
+// statement.
+//
+// A network or server error leaves it unknown whether the batch committed, so
+// only errors which prove that it was rolled back are retried.
+export const Transaction = async <S extends Batch>(
+  config: ConnectionConfigOptionalDatabase,
+  statements: readonly [...S]
+): Promise<BatchResults<S>> => {
+  if (statements.length === 0) {
+    return [] as unknown as BatchResults<S>;
+  }
+
+  const parts = ["START TRANSACTION"];
+  const args: Array<SQLValue> = [];
+  for (const stmt of statements) {
+    parts.push(stmt.sql.trim().replace(/;$/, ""));
+    args.push(...stmt.args);
+    if (stmt.kind === "exec") {
+      parts.push(EXEC_RESULT_SQL);
+    }
+  }
+  parts.push("COMMIT");
+
+  const sql = parts.join(";\n");
+  const { retry } = config;
+  const data = await fetchEndpoint(
+    "query/rows",
+    retry
+      ? {
+          ...config,
+          retry: {
+            ...retry,
+            shouldRetry: (err) =>
+              err.wasNotApplied() &&
+              (!retry.shouldRetry || retry.shouldRetry(err)),
+          },
+        }
+      : config,
+    sql,
+    ...args
+  );
+
+  if (data.results.length !== statements.length) {
+    throw new SQLError(
+      `Expected ${statements.length} result sets, got ${data.results.length}`,
+      sql
+    );
+  }
+
+  return statements.map((stmt, i) => {
+    const { rows } = data.results[i];
+    return stmt.kind === "exec" ? rows[0] : rows;
+  }) as unknown as BatchResults<S>;
+};
+
 export const ExecNoDb = (
   config: ConnectionConfigOptionalDatabase,
   sql: string,
   ...args: Array<SQLValue>
-): Promise<{ lastInsertId: number; rowsAffected: number }> =>
+): Promise<ExecResult> =>
   fetchEndpoint("exec", { ...config, database: undefined }, sql, ...args);
 
 export const Exec = (
   config: ConnectionConfigOptionalDatabase,
   sql: string,
   ...args: Array<SQLValue>
-): Promise<{ lastInsertId: number; rowsAffected: number }> =>
-  fetchEndpoint("exec", config, sql, ...args);
+): Promise<ExecResult> => fetchEndpoint("exec", config, sql, ...args);
 
 const fetchEndpoint = async (
-  endpoint: string,
+  endpoint: DataAPIEndpoint,
   config: ConnectionConfigOptionalDatabase,
   sql: string,
   ...args: Array<SQLValue>
 ) => {
-  if (DEBUG) {
-    console.log("running query", sql, args);
-  }
-
-  const response = await fetch(
-    `${rectifyHostAddress(config.host)}/api/v2/${endpoint}`,
-    {
-      method: "POST",
-      signal: config.ctx?.signal,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Basic ${btoa(`${config.user}:${config.password}`)}`,
-      },
-      body: JSON.stringify({ sql, args, database: config.database }),
+  const transport = config.transport || httpTransport;
+  let attempt = 0;
+
+  return withRetry(config, async () => {
+    const startedAt = Date.now();
+    const start = performance.now();
+    attempt++;
+
+    const { response, coalesced } = sendRequest(transport, {
+      endpoint,
+      config,
+      sql,
+      args,
+    });
+
+    const record = (rowCount?: number, error?: unknown) =>
+      recordQueryEvent({
+        caller: config.caller || UNKNOWN_CALLER,
+        endpoint,
+        database: config.database,
+        sql,
+        args,
+        startedAt,
+        durationMs: performance.now() - start,
+        attempt,
+        coalesced,
+        rowCount,
+        error: error ? (error as Error).message : undefined,
+        aborted: isAbortError(error),
+      });
+
+    try {
+      const data = await decodeResponse(response, sql);
+      record(responseRowCount(data));
+      return data;
+    } catch (e) {
+      record(undefined, e);
+      throw e;
     }
-  );
+  });
+};
+
+type InFlightRequest = {
+  response: Promise<DataAPIResponse>;
+  ctx: AbortController;
+  waiters: number;
+};
 
-  if (!response.ok) {
-    throw new SQLError(await response.text(), sql);
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+const isReadOnlySQL = (sql: string) =>
+  /^\s*(SELECT|WITH|SHOW|DESCRIBE|EXPLAIN)\b/i.test(sql);
+
+// sendRequest merges identical read-only requests which are in flight at the
+// same time into a single request, each caller decodes its own copy of the
+// response. The shared request has its own AbortController: a caller which
+// aborts stops waiting right away, and the request itself is only aborted
+// once every caller waiting for it has aborted.
+const sendRequest = (
+  transport: Transport,
+  req: DataAPIRequest
+): { response: Promise<DataAPIResponse>; coalesced: boolean } => {
+  const { endpoint, config, sql, args } = req;
+
+  if (!isReadOnlySQL(sql)) {
+    return { response: transport.request(req), coalesced: false };
   }
 
-  const data = await response.json();
+  const key = stringifyJSON([
+    transport.name,
+    endpoint,
+    config.host,
+    config.user,
+    config.database || null,
+    sql,
+    args,
+  ]);
+
+  const inFlight = inFlightRequests.get(key);
+  const shared = inFlight || startSharedRequest(transport, req, key);
+  shared.waiters++;
+  return {
+    response: waitForSharedRequest(shared, key, config.ctx?.signal),
+    coalesced: !!inFlight,
+  };
+};
+
+const startSharedRequest = (
+  transport: Transport,
+  req: DataAPIRequest,
+  key: string
+) => {
+  const ctx = new AbortController();
+  const shared: InFlightRequest = {
+    response: transport
+      .request({ ...req, config: { ...req.config, ctx } })
+      .finally(() => {
+        if (inFlightRequests.get(key) === shared) {
+          inFlightRequests.delete(key);
+        }
+      }),
+    ctx,
+    waiters: 0,
+  };
+  inFlightRequests.set(key, shared);
+  return shared;
+};
+
+const waitForSharedRequest = (
+  shared: InFlightRequest,
+  key: string,
+  signal?: AbortSignal
+): Promise<DataAPIResponse> => {
+  if (!signal) {
+    return shared.response;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      reject(new DOMException("The request was aborted", "AbortError"));
+      shared.waiters--;
+      if (shared.waiters === 0) {
+        // later callers must not join a request which is being aborted
+        if (inFlightRequests.get(key) === shared) {
+          inFlightRequests.delete(key);
+        }
+        shared.ctx.abort();
+      }
+    };
+
+    if (signal.aborted) {
+      return onAbort();
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.response
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+const decodeResponse = async (
+  response: Promise<DataAPIResponse>,
+  sql: string
+) => {
+  let res;
+  try {
+    res = await response;
+  } catch (e) {
+    if (isAbortError(e)) {
+      throw e;
+    }
+    throw new SQLError(`Network error: ${(e as Error).message}`, sql, 0, 0);
+  }
+
+  if (res.status < 200 || res.status >= 300) {
+    throw new SQLError(res.body, sql, undefined, res.status);
+  }
+
+  const data = parseJSON(res.body);
 
   if (data.error) {
-    throw new SQLError(data.error.message, sql, data.error.code);
+    throw new SQLError(data.error.message, sql, data.error.code, res.status);
   }
   return data;
 };
+
+// responseRowCount returns the number of rows returned by a query or affected
+// by an exec statement
+const responseRowCount = (data: {
+  rowsAffected?: number;
+  results?: Array<{ rows: Array<unknown> }>;
+}) => {
+  if (data.results) {
+    return data.results.reduce((sum, { rows }) => sum + rows.length, 0);
+  }
+  return data.rowsAffected;
+};
@@ -4,63 +4,63 @@ import { City } from "@/data/queries";
 // Make sure the values here matches the values stored in worldcities database in martech.
 export const SELECTABLE_CITIES_DATA: Array<City> = [
   {
-    id: 14,
+    id: "14",
     name: "Dubai",
     centerLat: 25.0656999896784,
     centerLon: 55.17128003951277,
     diameter: 0.4,
   },
   {
-    id: 120658,
+    id: "120658",
     name: "New York City",
     centerLat: 40.71427003,
     centerLon: -74.00597003,
     diameter: 0.4,
   },
   {
-    id: 4658,
+    id: "4658",
     name: "Sydney",
     centerLat: -33.86785000935749,
     centerLon: 151.20732002056695,
     diameter: 0.4,
   },
   {
-    id: 45042,
+    id: "45042",
     name: "London",
     centerLat: 51.50852998,
     centerLon: -0.12574004,
     diameter: 0.4,
   },
   {
-    id: 37679,
+    id: "37679",
     name: "Paris",
     centerLat: 48.85340997,
     centerLon: 2.34879996,
     diameter: 0.4,
   },
   {
-    id: 33174,
+    id: "33174",
     name: "Barcelona",
     centerLat: 41.38878998,
     centerLon: 2.15899,
     diameter: 0.4,
   },
   {
-    id: 49551,
+    id: "49551",
     name: "Hong Kong",
     centerLat: 22.27831998876015,
     centerLon: 114.17469000111508,
     diameter: 0.4,
   },
   {
-    id: 68449,
+    id: "68449",
     name: "Tokyo",
     centerLat: 35.689500027072434,
     centerLon: 139.6917100207488,
     diameter: 0.4,
   },
   {
-    id: 103513,
+    id: "103513",
     name: "Singapore",
     centerLat: 1.2896699943544807,
     centerLon: 103.8500700295648,
@@ -0,0 +1,50 @@
+import { ConnectionConfig, PagedQuery, QueryPages, Row } from "@/data/client";
+
+const csvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const str = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+const csvLine = (values: Array<unknown>) =>
+  `${values.map(csvValue).join(",")}\r\n`;
+
+// queryToCSV streams every page of query into a Blob, pages are appended to
+// the Blob as they arrive so that only one page is held in memory at a time
+export const queryToCSV = async <T extends Row>(
+  config: ConnectionConfig,
+  query: PagedQuery<T>,
+  onProgress?: (rows: number) => void
+) => {
+  let blob = new Blob([], { type: "text/csv" });
+  let columns: Array<string> | undefined;
+  let numRows = 0;
+
+  for await (const rows of QueryPages(config, query)) {
+    if (!columns && rows.length > 0) {
+      columns = Object.keys(rows[0]);
+      blob = new Blob([blob, csvLine(columns)], { type: "text/csv" });
+    }
+
+    const lines = rows.map((row) =>
+      csvLine((columns || []).map((column) => row[column]))
+    );
+    blob = new Blob([blob, ...lines], { type: "text/csv" });
+
+    numRows += rows.length;
+    onProgress?.(numRows);
+  }
+
+  return blob;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
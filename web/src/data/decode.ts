@@ -0,0 +1,207 @@
+import { Row } from "@/data/client";
+import { parseJSON, stringifyJSON } from "@/data/json";
+
+export class DecodeError extends Error {
+  query: string;
+  column: string;
+  value: unknown;
+
+  constructor(query: string, column: string, value: unknown, msg: string) {
+    super(`${query}: column "${column}" ${msg}`);
+    // https://stackoverflow.com/a/41429145/65872
+    Object.setPrototypeOf(this, DecodeError.prototype);
+    this.query = query;
+    this.column = column;
+    this.value = value;
+  }
+}
+
+// a Codec converts a single value returned by the Data API into T, returning
+// an error message if the value can not be converted
+export type Codec<T> = {
+  name: string;
+  decode: (value: unknown) => { value: T } | { error: string };
+};
+
+const describe = (value: unknown) =>
+  typeof value === "string" && value.length > 40
+    ? JSON.stringify(`${value.slice(0, 40)}...`)
+    : stringifyJSON(value);
+
+const codec = <T>(
+  name: string,
+  decode: (value: unknown) => T | undefined
+): Codec<T> => ({
+  name,
+  decode: (value) => {
+    const decoded = decode(value);
+    if (decoded === undefined) {
+      return { error: `expected ${name}, got ${describe(value)}` };
+    }
+    return { value: decoded };
+  },
+});
+
+const INTEGER_REGEX = /^-?\d+$/;
+const NUMBER_REGEX = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+
+// DATETIME(6) values are returned without a timezone, and are always written
+// in UTC by this app (see toISOStringNoTZ)
+const DATETIME_REGEX =
+  /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?)?$/;
+
+const WKT_REGEX =
+  /^\s*(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON)\s*\(/i;
+
+const string = codec("string", (v) => (typeof v === "string" ? v : undefined));
+
+// DECIMAL columns are returned as strings
+const number = codec("number", (v) => {
+  if (typeof v === "number") {
+    return v;
+  }
+  if (typeof v === "string" && NUMBER_REGEX.test(v)) {
+    return parseFloat(v);
+  }
+});
+
+// int rejects integers which can not be represented exactly by a number, use
+// bigint for BIGINT columns which may exceed 2^53
+const int = codec("integer", (v) => {
+  if (typeof v === "number" && Number.isSafeInteger(v)) {
+    return v;
+  }
+  if (typeof v === "string" && INTEGER_REGEX.test(v)) {
+    const n = parseInt(v, 10);
+    return Number.isSafeInteger(n) ? n : undefined;
+  }
+});
+
+const bigint = codec("bigint", (v) => {
+  if (typeof v === "bigint") {
+    return v;
+  }
+  if (typeof v === "number" && Number.isSafeInteger(v)) {
+    return BigInt(v);
+  }
+  if (typeof v === "string" && INTEGER_REGEX.test(v)) {
+    return BigInt(v);
+  }
+});
+
+// id keeps BIGINT identifiers exact by converting them to decimal strings
+const id = codec("BIGINT identifier", (v) => {
+  if (
+    typeof v === "bigint" ||
+    (typeof v === "number" && Number.isSafeInteger(v))
+  ) {
+    return String(v);
+  }
+  if (typeof v === "string" && INTEGER_REGEX.test(v)) {
+    return v;
+  }
+});
+
+const boolean = codec("boolean", (v) => {
+  if (typeof v === "boolean") {
+    return v;
+  }
+  if (v === 0 || v === 1 || v === "0" || v === "1") {
+    return v === 1 || v === "1";
+  }
+});
+
+const datetime = codec("DATETIME", (v) => {
+  if (typeof v !== "string" || !DATETIME_REGEX.test(v)) {
+    return;
+  }
+  const date = new Date(`${v.replace(" ", "T")}Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+});
+
+const json = codec("JSON", (v) => {
+  if (typeof v !== "string") {
+    return v === undefined ? undefined : (v as unknown);
+  }
+  try {
+    return parseJSON(v) as unknown;
+  } catch {
+    return;
+  }
+});
+
+// wkt checks that a GEOGRAPHY value is well known text without parsing it
+const wkt = codec("GEOGRAPHY", (v) =>
+  typeof v === "string" && WKT_REGEX.test(v) ? v : undefined
+);
+
+const nullable = <T>(c: Codec<T>): Codec<T | null> => ({
+  name: `${c.name} or NULL`,
+  decode: (value) => (value === null ? { value: null } : c.decode(value)),
+});
+
+const oneOf = <T extends string>(...values: Array<T>): Codec<T> =>
+  codec(values.map((v) => JSON.stringify(v)).join(" | "), (v) =>
+    values.includes(v as T) ? (v as T) : undefined
+  );
+
+export const codecs = {
+  string,
+  number,
+  int,
+  bigint,
+  id,
+  boolean,
+  datetime,
+  json,
+  wkt,
+  nullable,
+  oneOf,
+};
+
+export type Columns = { [column: string]: Codec<unknown> };
+
+export type RowSchema<T> = {
+  name: string;
+  columns: Columns;
+  decode: (row: Row) => T;
+};
+
+// Decoded maps every column of a schema to the type of its codec
+type Decoded<C> = {
+  [K in keyof C]: C[K] extends Codec<infer T> ? T : never;
+};
+
+// rowSchema describes the rows returned by the query called name, the name is
+// included in decode errors
+export const rowSchema = <C extends Columns>(
+  name: string,
+  columns: C
+): RowSchema<Decoded<C>> => ({
+  name,
+  columns,
+  decode: (row) => {
+    const decoded: { [column: string]: unknown } = {};
+
+    for (const [column, c] of Object.entries(columns)) {
+      if (!(column in row)) {
+        throw new DecodeError(
+          name,
+          column,
+          undefined,
+          `is missing, the query returned ${
+            Object.keys(row).join(", ") || "no columns"
+          }`
+        );
+      }
+
+      const result = c.decode(row[column]);
+      if ("error" in result) {
+        throw new DecodeError(name, column, row[column], result.error);
+      }
+      decoded[column] = result.value;
+    }
+
+    return decoded as Decoded<C>;
+  },
+});
@@ -0,0 +1,86 @@
+import { SELECTABLE_CITIES_DATA } from "@/data/constants";
+import {
+  DEFAULT_CITY,
+  Offer,
+  randomOffers,
+  Segment,
+  segmentId,
+} from "@/data/offers";
+import { City } from "@/data/queries";
+
+// offers reference their segments by id and keep their flight as DATETIME
+// values and their targeting as JSON like the offers table does
+export type FakeOffer = Omit<
+  Offer,
+  "segments" | "startAt" | "endAt" | "targeting"
+> & {
+  offerId: number;
+  segmentIds: Array<number>;
+  segmentExpression: string | null;
+  enabled: boolean;
+  startAt: string | null;
+  endAt: string | null;
+};
+
+export type FakeFixtures = {
+  partitions: number;
+
+  // memory available to tables, summed over all leaves
+  leafMemoryMB: number;
+
+  cities: Array<City>;
+  worldCities: Array<City>;
+  offers: Array<FakeOffer>;
+  segments: Array<Segment>;
+
+  // initial estimated row counts per table
+  rowCounts: { [table: string]: number };
+
+  // rows added per second to each timeseries table while the fake is running
+  ingestRates: { [table: string]: number };
+};
+
+export const defaultFixtures = (): FakeFixtures => {
+  const offers = randomOffers(DEFAULT_CITY, 200);
+  return {
+    partitions: 4,
+    leafMemoryMB: 8192,
+    cities: [
+      {
+        id: DEFAULT_CITY.id,
+        name: DEFAULT_CITY.name,
+        centerLon: DEFAULT_CITY.lonlat[0],
+        centerLat: DEFAULT_CITY.lonlat[1],
+        diameter: DEFAULT_CITY.diameter,
+      },
+    ],
+    worldCities: SELECTABLE_CITIES_DATA,
+    offers: offers.map(({ segments, targeting: _, ...offer }, i) => ({
+      ...offer,
+      offerId: i + 1,
+      segmentIds: segments.map(segmentId),
+      segmentExpression: null,
+      enabled: true,
+      startAt: null,
+      endAt: null,
+    })),
+    segments: offers.flatMap((offer) => offer.segments),
+    rowCounts: {
+      locations: 250_000,
+      requests: 120_000,
+      purchases: 40_000,
+      notifications: 5_000,
+      segments: 450,
+      subscriber_segments: 30_000,
+      subscribers: 10_000,
+      sessions: 1,
+      worldcities: SELECTABLE_CITIES_DATA.length,
+    },
+    ingestRates: {
+      locations: 2_000,
+      requests: 800,
+      purchases: 250,
+      subscriber_segments: 120,
+    },
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "vitest";
+
+import { ConnectionConfig, Query, QueryPage, SQLError } from "@/data/client";
+import { createFakeDataAPI } from "@/data/fake/server";
+import { getOffers, removeCity } from "@/data/offers";
+import {
+  budgetBurnDown,
+  connectToDB,
+  customerMetricsQuery,
+  estimatedRowCount,
+  getCities,
+  lookupClosestCity,
+  resetSchema,
+  runMatchingProcess,
+  schemaObjects,
+  seedCityWithOffers,
+} from "@/data/queries";
+import { truncateTimeseriesTables } from "@/data/retention";
+import { createMemoryTransport } from "@/data/transport";
+import { ScaleFactors } from "@/scalefactors";
+
+const fakeConfig = (): ConnectionConfig => ({
+  host: "fake",
+  user: "root",
+  password: "",
+  database: "martech",
+  transport: createMemoryTransport(createFakeDataAPI(), "fake"),
+  caller: "test",
+});
+
+describe("fake Data API", () => {
+  test("runs the offline flow from connecting to the dashboards", async () => {
+    const config = fakeConfig();
+
+    expect(await connectToDB(config)).toBe(true);
+    expect(Object.values(await schemaObjects(config))).not.toContain(false);
+
+    const progress: Array<string> = [];
+    await resetSchema(config, {
+      progress: (msg) => progress.push(msg),
+      includeSeedData: true,
+      resetDataOnly: false,
+    });
+    expect(progress).toContain("Schema initialized");
+
+    const closest = await lookupClosestCity(config, -0.12, 51.5);
+    const city = {
+      id: closest.id,
+      name: closest.name,
+      lonlat: [closest.centerLon, closest.centerLat] as [number, number],
+      diameter: closest.diameter,
+    };
+    await seedCityWithOffers(config, city, ScaleFactors[0]);
+    expect((await getCities(config)).map((c) => c.id)).toContain(city.id);
+
+    const offers = await getOffers(config, "", 1000);
+    expect(offers.length).toBeGreaterThan(0);
+
+    await runMatchingProcess(config);
+    const counts = await estimatedRowCount(config, "locations", "offers");
+    expect(counts.map((c) => c.tableName)).toEqual(["locations", "offers"]);
+    await budgetBurnDown(config, 10, 60);
+    await QueryPage(config, customerMetricsQuery("purchases", "customer", 10));
+    await truncateTimeseriesTables(config, ScaleFactors[0]);
+
+    await removeCity(config, city.id);
+    expect((await getCities(config)).map((c) => c.id)).not.toContain(city.id);
+  });
+
+  test("fails statements it does not model", async () => {
+    const error = await Query(fakeConfig(), "SELECT * FROM unmodeled").catch(
+      (e) => e
+    );
+    expect(error).toBeInstanceOf(SQLError);
+    expect((error as SQLError).isSyntaxError()).toBe(true);
+  });
+});
@@ -0,0 +1,1050 @@
+import stringHash from "string-hash";
+
+import { ExecResult, Row, SQLValue } from "@/data/client";
+import { defaultFixtures, FakeFixtures } from "@/data/fake/fixtures";
+import { FrequencyCapInterval, toFrequencyCap } from "@/data/frequencycaps";
+import {
+  bundledColumns,
+  migrationChecksum,
+  routineBody,
+} from "@/data/migrations";
+import {
+  segmentColumns,
+  segmentId,
+  SegmentInterval,
+  SegmentKind,
+  toSegment,
+} from "@/data/offers";
+import { pipelineNames } from "@/data/pipelines";
+import { trackedQueries } from "@/data/plancache";
+import { timeseriesTables } from "@/data/retention";
+import { BUNDLED_ROUTINES, BUNDLED_TABLES, MIGRATIONS } from "@/data/sql";
+import {
+  createMemoryTransport,
+  DataAPIRequest,
+  Transport,
+} from "@/data/transport";
+import { toISOStringNoTZ } from "@/datetime";
+import { WKTPolygonToPolygon } from "@/geo";
+import { defaultPipelineSource, renderPipelineSource } from "@/pipelinesources";
+import { randomFloatInRange, randomIntegerInRange } from "@/rand";
+import { defaultScaleFactor } from "@/scalefactors";
+import { splitStatements } from "@/sqlparser";
+
+// The fake Data API answers the statements issued by queries.ts from a set of
+// fixtures, which lets the whole application run without a SingleStore
+// cluster. Statements are matched against the routes below after collapsing
+// whitespace. Schema changes and writes which the fixtures do not track
+// succeed without effect, any other statement fails with a syntax error so
+// that queries the fake does not model show up instead of returning nothing.
+
+type FakeState = FakeFixtures & {
+  startedAt: number;
+  nextOfferId: number;
+  sessions: { [sessionID: string]: { isController: boolean } };
+  pipelines: {
+    [name: string]: { sourceType: string; connectionString: string };
+  };
+  retentionPolicies: {
+    [table: string]: { maxRows: SQLValue; maxAgeSeconds: SQLValue };
+  };
+  customerFrequencyCaps: {
+    [customer: string]: { maxNotifications: SQLValue; interval: SQLValue };
+  };
+
+  // epoch seconds of the oldest row of each timeseries table
+  oldestRows: { [table: string]: number };
+
+  // the cached plan of each tracked statement, dropping a plan compiles a
+  // new one with the next plan id
+  plans: { [queryName: string]: { planId: number; compiledAt: number } };
+  nextPlanId: number;
+};
+
+type RouteResult = Array<Row> | ExecResult;
+
+type Route = {
+  pattern: RegExp;
+  handle: (
+    state: FakeState,
+    args: Array<SQLValue>,
+    match: RegExpMatchArray
+  ) => RouteResult;
+};
+
+// FakeSQLError is returned to the client in the error payload of the Data
+// API, which the client turns into an SQLError with the same code
+class FakeSQLError extends Error {
+  code: number;
+
+  constructor(code: number, msg: string) {
+    super(msg);
+    Object.setPrototypeOf(this, FakeSQLError.prototype);
+    this.code = code;
+  }
+}
+
+const ok = (rowsAffected = 0, lastInsertId = 0): ExecResult => ({
+  rowsAffected,
+  lastInsertId,
+});
+
+const rowCount = (state: FakeState, table: string) => {
+  switch (table) {
+    case "offers":
+      return state.offers.length;
+
+    case "cities":
+      return state.cities.length;
+
+    default: {
+      const elapsedSeconds = (Date.now() - state.startedAt) / 1000;
+      const rate = state.ingestRates[table] || 0;
+      return Math.floor((state.rowCounts[table] || 0) + elapsedSeconds * rate);
+    }
+  }
+};
+
+// seconds of history in the timeseries tables when the fake starts
+const FAKE_HISTORY = 60 * 60;
+
+// stable pseudo random number in [0, 1) derived from key
+const stableRandom = (key: string) => (stringHash(key) % 1000) / 1000;
+
+const conversionRow = (key: string, eventTable: string) => {
+  const totalNotifications = 50 + Math.floor(stableRandom(key) * 500);
+  const totalConversions = Math.floor(
+    totalNotifications * stableRandom(`${key}-${eventTable}`) * 0.3
+  );
+  return {
+    totalNotifications,
+    totalConversions,
+    conversionRate: totalConversions / totalNotifications,
+  };
+};
+
+const compareValues = (x: SQLValue, y: SQLValue) => {
+  if (typeof x === "number" && typeof y === "number") {
+    return x - y;
+  }
+  return String(x).localeCompare(String(y));
+};
+
+// recentSeconds returns the epoch seconds of the last n seconds, newest first
+const recentSeconds = (n: number) => {
+  const now = Math.floor(Date.now() / 1000);
+  return Array.from({ length: n }, (_, i) => now - i);
+};
+
+const nullableString = (value: SQLValue) =>
+  value === null ? null : String(value);
+
+const nullableNumber = (value: SQLValue) =>
+  value === null ? null : Number(value);
+
+const fakeFrequencyCap = (maxNotifications: SQLValue, interval: SQLValue) =>
+  toFrequencyCap(
+    nullableNumber(maxNotifications),
+    interval === null ? null : (String(interval) as FrequencyCapInterval)
+  );
+
+const fakeNotification = (state: FakeState, second: number) => {
+  const offer =
+    state.offers[
+      Math.floor(stableRandom(`offer-${second}`) * state.offers.length)
+    ];
+  return {
+    offer,
+    ts: toISOStringNoTZ(new Date(second * 1000)),
+    cityId: state.cities[0]?.id || "0",
+    subscriberId: Math.floor(stableRandom(`subscriber-${second}`) * 10_000),
+  };
+};
+
+// fakeSpend sums the cost of the fake notifications of every offer
+const fakeSpend = (state: FakeState) => {
+  const spend = new Map<number, number>();
+  if (state.offers.length === 0) {
+    return spend;
+  }
+  for (const second of recentSeconds(FAKE_HISTORY)) {
+    const { offer } = fakeNotification(state, second);
+    spend.set(
+      offer.offerId,
+      (spend.get(offer.offerId) || 0) + offer.maximumBidCents
+    );
+  }
+  return spend;
+};
+
+// the fake pipelines run one batch per second since the fake started, each
+// loading the ingest rate of its table
+const fakeBatch = (state: FakeState, pipeline: string, batchId: number) => {
+  const rate = state.ingestRates[pipeline] || 0;
+  const batchTime = 0.2 + stableRandom(`batch-${pipeline}-${batchId}`) * 0.6;
+  return {
+    batchId,
+    state: "Succeeded",
+    startTime: toISOStringNoTZ(new Date(state.startedAt + batchId * 1000))
+      .replace("T", " ")
+      .slice(0, 19),
+    batchTime,
+    rowsStreamed: rate,
+    rowsPerSec: rate / batchTime,
+    mbPerSec: (rate * 0.0001) / batchTime,
+  };
+};
+
+const randomPointInPolygon = (wkt: string): [number, number] => {
+  const polygon = WKTPolygonToPolygon(wkt);
+  const lons = polygon.map(([lon]) => lon);
+  const lats = polygon.map(([, lat]) => lat);
+  return [
+    randomFloatInRange(Math.min(...lons), Math.max(...lons)),
+    randomFloatInRange(Math.min(...lats), Math.max(...lats)),
+  ];
+};
+
+const ROUTES: Array<Route> = [
+  {
+    pattern: /^SELECT 1$/i,
+    handle: () => [{ 1: 1 }],
+  },
+  {
+    pattern: /FROM information_schema\.tables .* information_schema\.routines/i,
+    handle: () => [
+      ...BUNDLED_TABLES.map(({ name }) => ({ type: "tables", name })),
+      ...BUNDLED_ROUTINES.map(({ kind, name }) => ({
+        type: kind === "procedure" ? "procedures" : "functions",
+        name,
+      })),
+    ],
+  },
+  {
+    pattern:
+      /FROM information_schema\.columns .* information_schema\.routines/i,
+    handle: () => [
+      ...BUNDLED_TABLES.flatMap(({ name, statement }) =>
+        bundledColumns(statement).map((column) => ({
+          type: "column",
+          parent: name,
+          name: column,
+          definition: "",
+        }))
+      ),
+      ...BUNDLED_ROUTINES.map(({ name, statement }) => ({
+        type: "routine",
+        parent: "",
+        name,
+        definition: routineBody(statement),
+      })),
+    ],
+  },
+  {
+    pattern: /^SHOW CREATE TABLE `(\w+)`$/i,
+    handle: (_, __, [, name]) =>
+      BUNDLED_TABLES.filter((t) => t.name === name).map(({ statement }) => ({
+        Table: name,
+        "Create Table": statement,
+      })),
+  },
+  {
+    pattern:
+      /^SELECT routine_definition FROM information_schema\.routines WHERE routine_schema = \? AND routine_name = \?$/i,
+    handle: (_, [, name]) =>
+      BUNDLED_ROUTINES.filter((r) => r.name === name).map(({ statement }) => ({
+        definition: routineBody(statement),
+      })),
+  },
+  {
+    pattern: /^SELECT version, checksum FROM schema_migrations$/i,
+    handle: () =>
+      MIGRATIONS.map((migration) => ({
+        version: migration.version,
+        checksum: migrationChecksum(migration),
+      })),
+  },
+  {
+    pattern: /FROM information_schema\.distributed_partitions/i,
+    handle: (state) => [{ count: state.partitions }],
+  },
+  {
+    pattern: /FROM information_schema\.mv_nodes/i,
+    handle: (state) => [{ memoryMB: state.leafMemoryMB }],
+  },
+  {
+    pattern: /AS connectionString FROM information_schema\.pipelines/i,
+    handle: (state, args) =>
+      args
+        .slice(1)
+        .filter((name) => String(name) in state.pipelines)
+        .map((name) => ({
+          pipelineName: String(name),
+          ...state.pipelines[String(name)],
+        })),
+  },
+  {
+    pattern:
+      /^CREATE OR REPLACE PIPELINE (\w+) AS LOAD DATA (\w+) '((?:[^'\\]|\\.)*)'/i,
+    handle: (state, _, [, name, sourceType, connectionString]) => {
+      state.pipelines[name] = { sourceType, connectionString };
+      return ok();
+    },
+  },
+  {
+    pattern: /FROM `information_schema`\.`pipelines` AS `p`/i,
+    handle: (state) => {
+      const windowSeconds = Math.min(
+        300,
+        (Date.now() - state.startedAt) / 1000
+      );
+      return pipelineNames.map((pipelineName) => {
+        const rowsStreamed =
+          (state.ingestRates[pipelineName] || 0) * windowSeconds;
+        return {
+          pipelineName,
+          state: "Running",
+          batches: Math.floor(windowSeconds),
+          failedBatches: 0,
+          rowsStreamed,
+          mbStreamed: rowsStreamed * 0.0001,
+          windowSeconds,
+          loadedFiles: 40,
+          totalFiles: 48,
+          skippedFiles: 0,
+          errors: 0,
+        };
+      });
+    },
+  },
+  {
+    pattern: /FROM `information_schema`\.`pipelines_batches_summary` WHERE/i,
+    handle: (state, [, name, limit]) => {
+      const elapsedSeconds = (Date.now() - state.startedAt) / 1000;
+      const count = Math.min(Number(limit), Math.floor(elapsedSeconds));
+      return Array.from({ length: count }, (_, i) =>
+        fakeBatch(state, String(name), Math.floor(elapsedSeconds) - i)
+      );
+    },
+  },
+  {
+    pattern:
+      /FROM `information_schema`\.`pipelines_(files|errors)`( AS `f`)? (LEFT JOIN|WHERE)/i,
+    handle: () => [],
+  },
+  {
+    pattern: /^(START|STOP|ALTER) PIPELINE/i,
+    handle: () => ok(),
+  },
+  {
+    // every tracked statement runs once per second, at a stable latency
+    pattern:
+      /FROM information_schema\.plancache WHERE database_name = \? \) plans/i,
+    handle: (state) =>
+      Object.entries(state.plans).map(([queryName, plan]) => {
+        const executions = Math.floor((Date.now() - plan.compiledAt) / 1000);
+        const latencyMs = 5 + stableRandom(`plan-${plan.planId}`) * 45;
+        return {
+          planId: plan.planId,
+          queryName,
+          queryText: queryName,
+          executions,
+          executionTimeMs: executions * latencyMs,
+          warnings: "",
+        };
+      }),
+  },
+  {
+    pattern: /^DROP (\d+) FROM PLANCACHE$/i,
+    handle: (state, _, [, planId]) => {
+      for (const plan of Object.values(state.plans)) {
+        if (plan.planId === Number(planId)) {
+          plan.planId = state.nextPlanId++;
+          plan.compiledAt = Date.now();
+        }
+      }
+      return ok();
+    },
+  },
+  {
+    pattern: /FROM information_schema\.(pipelines LEFT JOIN|plancache)/i,
+    handle: () => [],
+  },
+  {
+    pattern: /AS now FROM .* information_schema\.columnar_segments/i,
+    // the args are the database and the tables
+    handle: (state, [, ...tables]) => {
+      const now = Date.now() / 1000;
+      return tables.map(String).map((tableName) => ({
+        tableName,
+        count: rowCount(state, tableName),
+        minTs: state.oldestRows[tableName],
+        maxTs: now,
+        now,
+      }));
+    },
+  },
+  {
+    pattern: /FROM information_schema\.columnar_segments/i,
+    handle: () => [],
+  },
+  {
+    pattern:
+      /FROM information_schema\.table_statistics .* GROUP BY tableName$/i,
+    // the args are the database and the tables, once for each partition type
+    handle: (state, args) =>
+      args
+        .slice(1, args.length / 2)
+        .map(String)
+        .map((tableName) => ({ tableName, count: rowCount(state, tableName) })),
+  },
+  {
+    pattern: /^ECHO run_matching_process/i,
+    handle: (state) => {
+      const sent = randomIntegerInRange(0, 40);
+      state.rowCounts.notifications =
+        (state.rowCounts.notifications || 0) + sent;
+      return [{ RESULT: sent }];
+    },
+  },
+  {
+    pattern: /^CALL process_(locations|requests|purchases)_json\(\?\)$/i,
+    handle: (state, [rows], [, table]) => {
+      const count = JSON.parse(String(rows)).length;
+      state.rowCounts[table] = (state.rowCounts[table] || 0) + count;
+      return ok(count);
+    },
+  },
+  {
+    pattern: /^CALL update_sessions/i,
+    handle: (state, [sessionID, leaseSeconds]) => {
+      const id = String(sessionID);
+      if (!(id in state.sessions)) {
+        const hasController = Object.values(state.sessions).some(
+          (s) => s.isController
+        );
+        state.sessions[id] = { isController: !hasController };
+      }
+      return [
+        {
+          session_id: id,
+          is_controller: state.sessions[id].isController,
+          expires_at: toISOStringNoTZ(
+            new Date(Date.now() + Number(leaseSeconds) * 1000)
+          ),
+        },
+      ];
+    },
+  },
+  {
+    pattern: /^UPDATE sessions SET is_controller/i,
+    handle: (state, [isController, sessionID]) => {
+      for (const id of Object.keys(state.sessions)) {
+        state.sessions[id].isController = false;
+      }
+      state.sessions[String(sessionID)] = { isController: !!isController };
+      return ok(1);
+    },
+  },
+  {
+    pattern: /FROM retention_policies$/i,
+    handle: (state) =>
+      Object.entries(state.retentionPolicies).map(([tableName, policy]) => ({
+        tableName,
+        ...policy,
+      })),
+  },
+  {
+    pattern: /^INSERT INTO retention_policies/i,
+    handle: (state, [tableName, maxRows, maxAgeSeconds]) => {
+      state.retentionPolicies[String(tableName)] = { maxRows, maxAgeSeconds };
+      return ok(1);
+    },
+  },
+  {
+    pattern: /^DELETE FROM retention_policies WHERE table_name = \?$/i,
+    handle: (state, [tableName]) => {
+      delete state.retentionPolicies[String(tableName)];
+      return ok(1);
+    },
+  },
+  {
+    pattern: /FROM customer_frequency_caps ORDER BY customer$/i,
+    handle: (state) =>
+      Object.entries(state.customerFrequencyCaps)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([customer, cap]) => ({ customer, ...cap })),
+  },
+  {
+    pattern: /^INSERT INTO customer_frequency_caps/i,
+    handle: (state, [customer, maxNotifications, interval]) => {
+      state.customerFrequencyCaps[String(customer)] = {
+        maxNotifications,
+        interval,
+      };
+      return ok(1);
+    },
+  },
+  {
+    pattern: /^DELETE FROM customer_frequency_caps WHERE customer = \?$/i,
+    handle: (state, [customer]) => {
+      delete state.customerFrequencyCaps[String(customer)];
+      return ok(1);
+    },
+  },
+  {
+    // rows are spread evenly between the oldest row and now
+    pattern: /^DELETE FROM (\w+) WHERE ts <= FROM_UNIXTIME\(\?\)$/i,
+    handle: (state, [cutoff], [, table]) => {
+      const now = Date.now() / 1000;
+      const oldest = state.oldestRows[table];
+      const fraction = Math.min(
+        1,
+        Math.max(0, (Number(cutoff) - oldest) / (now - oldest))
+      );
+      const deleted = Math.floor(rowCount(state, table) * fraction);
+      state.rowCounts[table] = (state.rowCounts[table] || 0) - deleted;
+      state.oldestRows[table] = Math.max(oldest, Number(cutoff));
+      return ok(deleted);
+    },
+  },
+  {
+    pattern: /FROM notifications WHERE ts > \? AND GEOGRAPHY_CONTAINS/i,
+    handle: (_, [, bounds]) =>
+      Array.from({ length: randomIntegerInRange(0, 5) }, () => {
+        const [lon, lat] = randomPointInPolygon(String(bounds));
+        return { ts: toISOStringNoTZ(new Date()), lon, lat };
+      }),
+  },
+  {
+    pattern: /FROM offers WHERE GEOGRAPHY_INTERSECTS/i,
+    handle: (state) =>
+      state.offers.map(({ offerId, notificationZone }) => ({
+        offerId,
+        notificationZone,
+      })),
+  },
+  {
+    pattern: /FROM cities$/i,
+    handle: (state) => state.cities.map((city) => ({ ...city })),
+  },
+  {
+    pattern: /FROM worldcities ORDER BY GEOGRAPHY_DISTANCE/i,
+    handle: (state, [lon, lat]) => {
+      const distance = (city: { centerLon: number; centerLat: number }) =>
+        Math.hypot(city.centerLon - Number(lon), city.centerLat - Number(lat));
+      const [closest] = [...state.worldCities].sort(
+        (a, b) => distance(a) - distance(b)
+      );
+      return closest ? [{ ...closest, diameter: 0.1 }] : [];
+    },
+  },
+  {
+    pattern: /^INSERT INTO `cities` \((.*?)\) VALUES/i,
+    handle: (state, args, [, columnsSQL]) => {
+      const columns = columnsSQL
+        .split(",")
+        .map((c) => c.trim().replace(/`/g, ""));
+      const numCities = args.length / columns.length;
+      for (let i = 0; i < numCities; i++) {
+        const tuple = args.slice(i * columns.length, (i + 1) * columns.length);
+        const value = (column: string) => tuple[columns.indexOf(column)];
+        const [lon, lat] = String(value("center"))
+          .replace(/^POINT\(|\)$/g, "")
+          .split(" ")
+          .map(parseFloat);
+        const id = String(value("city_id"));
+        state.cities = [
+          ...state.cities.filter((c) => c.id !== id),
+          {
+            id,
+            name: String(value("city_name")),
+            centerLon: lon,
+            centerLat: lat,
+            diameter: Number(value("diameter")),
+          },
+        ];
+      }
+      return ok(numCities);
+    },
+  },
+  {
+    pattern: /^DELETE FROM cities WHERE city_id = \?$/i,
+    handle: (state, [id]) => {
+      const before = state.cities.length;
+      state.cities = state.cities.filter((c) => c.id !== String(id));
+      return ok(before - state.cities.length);
+    },
+  },
+  {
+    pattern: /^(INSERT|REPLACE) INTO `offers` \((.*?)\)/i,
+    handle: (state, args, [, , columnsSQL]) => {
+      const columns = columnsSQL
+        .split(",")
+        .map((c) => c.trim().replace(/`/g, ""));
+      const numOffers = args.length / columns.length;
+      for (let i = 0; i < numOffers; i++) {
+        const tuple = args.slice(i * columns.length, (i + 1) * columns.length);
+        const value = (column: string) => tuple[columns.indexOf(column)];
+        state.offers.push({
+          offerId: state.nextOfferId++,
+          customer: String(value("customer")),
+          segmentIds: JSON.parse(String(value("segment_ids"))),
+          segmentExpression: nullableString(value("segment_expression")),
+          notificationZone: String(value("notification_zone")),
+          notificationContent: String(value("notification_content")),
+          notificationTarget: String(value("notification_target")),
+          maximumBidCents: Number(value("maximum_bid_cents")),
+          enabled: true,
+          startAt: nullableString(value("start_at")),
+          endAt: nullableString(value("end_at")),
+          dailyBudgetCents: nullableNumber(value("daily_budget_cents")),
+          totalBudgetCents: nullableNumber(value("total_budget_cents")),
+          frequencyCap: fakeFrequencyCap(
+            value("frequency_cap"),
+            value("frequency_cap_interval")
+          ),
+        });
+      }
+      return ok(numOffers, state.nextOfferId - 1);
+    },
+  },
+  {
+    pattern:
+      /FROM offers LEFT JOIN .* WHERE customer LIKE \? ORDER BY offers\.offer_id DESC LIMIT \?$/i,
+    handle: (state, [pattern, limit]) => {
+      const spend = fakeSpend(state);
+      const prefix = String(pattern).replace(/%$/, "").replace(/\\(.)/g, "$1");
+      return state.offers
+        .filter((offer) => offer.customer.startsWith(prefix))
+        .sort((a, b) => b.offerId - a.offerId)
+        .slice(0, Number(limit))
+        .map(({ segmentIds, frequencyCap, ...offer }) => ({
+          ...offer,
+          segmentIds: JSON.stringify(segmentIds),
+          frequencyCap: frequencyCap?.maxNotifications ?? null,
+          frequencyCapInterval: frequencyCap?.interval ?? null,
+          spentCents: spend.get(offer.offerId) || 0,
+          spentTodayCents: spend.get(offer.offerId) || 0,
+        }));
+    },
+  },
+  {
+    pattern: /^UPDATE offers SET customer = \?, .* WHERE offer_id = \?$/i,
+    handle: (state, args) => {
+      const [customer, zone, segmentIds, expression, , content, target, bid] =
+        args;
+      const [startAt, endAt, dailyBudget, totalBudget] = args.slice(8);
+      const [maxNotifications, interval, id] = args.slice(12);
+      const offer = state.offers.find((o) => o.offerId === Number(id));
+      if (!offer) {
+        return ok();
+      }
+      Object.assign(offer, {
+        customer: String(customer),
+        notificationZone: String(zone),
+        segmentIds: JSON.parse(String(segmentIds)),
+        segmentExpression: nullableString(expression),
+        notificationContent: String(content),
+        notificationTarget: String(target),
+        maximumBidCents: Number(bid),
+        startAt: nullableString(startAt),
+        endAt: nullableString(endAt),
+        dailyBudgetCents: nullableNumber(dailyBudget),
+        totalBudgetCents: nullableNumber(totalBudget),
+        frequencyCap: fakeFrequencyCap(maxNotifications, interval),
+      });
+      return ok(1);
+    },
+  },
+  {
+    pattern: /^UPDATE offers SET enabled = \? WHERE offer_id = \?$/i,
+    handle: (state, [enabled, id]) => {
+      const offer = state.offers.find((o) => o.offerId === Number(id));
+      if (!offer) {
+        return ok();
+      }
+      offer.enabled = Boolean(enabled);
+      return ok(1);
+    },
+  },
+  {
+    pattern: /^DELETE FROM offers WHERE offer_id = \?$/i,
+    handle: (state, [id]) => {
+      const before = state.offers.length;
+      state.offers = state.offers.filter((o) => o.offerId !== Number(id));
+      return ok(before - state.offers.length);
+    },
+  },
+  {
+    pattern:
+      /FROM offers LEFT JOIN offer_spend .* WHERE total_budget_cents IS NOT NULL/i,
+    handle: (state, [limit]) => {
+      const spend = fakeSpend(state);
+      return state.offers
+        .filter((offer) => offer.totalBudgetCents !== null)
+        .map(({ offerId, customer, totalBudgetCents }) => ({
+          offerId,
+          customer,
+          totalBudgetCents,
+          spentCents: spend.get(offerId) || 0,
+        }))
+        .sort(
+          (a, b) =>
+            b.spentCents / Number(b.totalBudgetCents) -
+            a.spentCents / Number(a.totalBudgetCents)
+        )
+        .slice(0, Number(limit));
+    },
+  },
+  {
+    pattern:
+      /FROM notifications WHERE ts >= FROM_UNIXTIME\(\?\) AND `offer_id` IN \(/i,
+    handle: (state, [since, ...ids]) => {
+      const wanted = new Set(ids.map(Number));
+      const spend = new Map<string, Row>();
+      const now = Math.floor(Date.now() / 1000);
+      for (const second of recentSeconds(now - Math.floor(Number(since)))) {
+        const { offer } = fakeNotification(state, second);
+        if (!wanted.has(offer.offerId)) {
+          continue;
+        }
+        const minute = second - (second % 60);
+        const key = `${offer.offerId}-${minute}`;
+        const row = spend.get(key) || {
+          offerId: offer.offerId,
+          spentAt: toISOStringNoTZ(new Date(minute * 1000)),
+          spentCents: 0,
+        };
+        row.spentCents = Number(row.spentCents) + offer.maximumBidCents;
+        spend.set(key, row);
+      }
+      return [...spend.values()];
+    },
+  },
+  {
+    pattern: /^REPLACE INTO `segments` \((.*?)\)/i,
+    handle: (state, args, [, columnsSQL]) => {
+      const columns = columnsSQL
+        .split(",")
+        .map((c) => c.trim().replace(/`/g, ""));
+      const numSegments = args.length / columns.length;
+      for (let i = 0; i < numSegments; i++) {
+        const tuple = args.slice(i * columns.length, (i + 1) * columns.length);
+        const value = (column: string) => tuple[columns.indexOf(column)];
+        const segment = toSegment({
+          interval: value("valid_interval") as SegmentInterval,
+          kind: value("filter_kind") as SegmentKind,
+          value: String(value("filter_value")),
+          threshold: Number(value("filter_threshold") || 0),
+        });
+        state.segments = [
+          ...state.segments.filter((s) => segmentId(s) !== segmentId(segment)),
+          segment,
+        ];
+      }
+      return ok(numSegments);
+    },
+  },
+  {
+    pattern:
+      /FROM segments WHERE JSON_ARRAY_CONTAINS_DOUBLE\(\?, segment_id\)$/i,
+    handle: (state, [ids]) => {
+      const wanted = new Set<number>(JSON.parse(String(ids)));
+      return state.segments
+        .map((segment) => ({
+          segmentId: segmentId(segment),
+          ...segmentColumns(segment),
+        }))
+        .filter((segment) => wanted.has(segment.segmentId));
+    },
+  },
+  {
+    pattern:
+      /COUNT\(metrics\.converted_at\) AS `totalConversions` FROM `metrics` GROUP BY `metrics`\.`customer`/i,
+    handle: (state, _, [sql]) => {
+      const eventTable = sql.includes("`events`.`vendor`")
+        ? "purchases"
+        : "requests";
+      const customers = [...new Set(state.offers.map((o) => o.customer))];
+      return customers.map((customer) => ({
+        customer,
+        ...conversionRow(customer, eventTable),
+      }));
+    },
+  },
+  {
+    pattern: /GROUP BY `metrics`\.`notification_zone`/i,
+    handle: (state) =>
+      state.offers.map(({ notificationZone }) => ({
+        wktPolygon: notificationZone,
+        ...conversionRow(notificationZone, "purchases"),
+      })),
+  },
+  {
+    pattern: /AS `totalConversions` FROM `metrics` \) AS `counts`$/i,
+    handle: (_, __, [sql]) => [
+      conversionRow(
+        "overall",
+        sql.includes("`events`.`vendor`") ? "purchases" : "requests"
+      ),
+    ],
+  },
+  {
+    pattern: /ROUND\(\(n\.cost_cents \/ 10\), 2\) AS `cost`/i,
+    handle: (state) =>
+      recentSeconds(100).map((second) => {
+        const { offer, ts, cityId, subscriberId } = fakeNotification(
+          state,
+          second
+        );
+        return {
+          customer: offer.customer,
+          timestamp: ts.replace("T", " ").slice(0, 19),
+          ts,
+          cityId,
+          subscriberId,
+          offerId: offer.offerId,
+          cost: offer.maximumBidCents / 10,
+        };
+      }),
+  },
+  {
+    pattern: /`cost_cents` AS `costCents`.* FROM `notifications`$/i,
+    handle: (state) =>
+      recentSeconds(3600).map((second) => {
+        const { offer, ts, cityId, subscriberId } = fakeNotification(
+          state,
+          second
+        );
+        const [lon, lat] = randomPointInPolygon(offer.notificationZone);
+        return {
+          ts,
+          cityId,
+          subscriberId,
+          offerId: offer.offerId,
+          costCents: offer.maximumBidCents,
+          lon,
+          lat,
+        };
+      }),
+  },
+  {
+    pattern: /FROM `metrics` WHERE `converted_at` IS NOT NULL$/i,
+    handle: (state) =>
+      recentSeconds(3600)
+        .filter((second) => stableRandom(`converted-${second}`) < 0.2)
+        .map((second) => {
+          const { offer, ts, cityId, subscriberId } = fakeNotification(
+            state,
+            second
+          );
+          return {
+            customer: offer.customer,
+            offerId: offer.offerId,
+            cityId,
+            subscriberId,
+            notifiedAt: ts,
+            convertedAt: toISOStringNoTZ(new Date((second + 30) * 1000)),
+          };
+        }),
+  },
+  {
+    pattern:
+      /^(CREATE|DROP|TRUNCATE|ALTER|START|STOP|CALL|DELETE|INSERT|REPLACE|UPDATE)\b/i,
+    handle: () => ok(),
+  },
+];
+
+const normalizeSQL = (sql: string) => sql.replace(/\s+/g, " ").trim();
+
+const PAGED_QUERY_REGEX =
+  /^(.*?)SELECT \* FROM \( (.*) \) AS `page` (WHERE .* )?ORDER BY (.*) LIMIT \?$/i;
+
+// runPagedQuery answers the keyset pagination wrapper generated by QueryPage
+// by running the inner statement and paging through its rows in memory
+const runPagedQuery = (
+  state: FakeState,
+  match: RegExpMatchArray,
+  args: Array<SQLValue>
+) => {
+  const [, withSQL, innerSQL, whereSQL, orderBySQL] = match;
+  const keys = orderBySQL.split(", ").map((term) => {
+    const [column, direction] = term.split(" ");
+    return { column: column.replace(/`/g, ""), desc: direction === "DESC" };
+  });
+
+  // the keyset condition repeats the cursor values of the previous keys for
+  // every key, the full cursor is at the end
+  const n = keys.length;
+  const numCursorArgs = whereSQL ? (n * (n + 1)) / 2 : 0;
+  const innerArgs = args.slice(0, args.length - numCursorArgs - 1);
+  const cursor = whereSQL ? args.slice(-n - 1, -1) : undefined;
+  const limit = Number(args[args.length - 1]);
+
+  const result = runStatement(state, `${withSQL}${innerSQL}`, innerArgs);
+  const rows = Array.isArray(result) ? result : [];
+
+  const compareRows = (a: Array<SQLValue>, b: Array<SQLValue>) => {
+    for (let i = 0; i < n; i++) {
+      const cmp = compareValues(a[i], b[i]);
+      if (cmp !== 0) {
+        return keys[i].desc ? -cmp : cmp;
+      }
+    }
+    return 0;
+  };
+  const keyValues = (row: Row) => keys.map(({ column }) => row[column]);
+
+  return rows
+    .sort((a, b) => compareRows(keyValues(a), keyValues(b)))
+    .filter((row) => !cursor || compareRows(keyValues(row), cursor) > 0)
+    .slice(0, limit);
+};
+
+const runStatement = (
+  state: FakeState,
+  sql: string,
+  args: Array<SQLValue>
+): RouteResult => {
+  const normalized = normalizeSQL(sql);
+
+  const paged = normalized.match(PAGED_QUERY_REGEX);
+  if (paged) {
+    return runPagedQuery(state, paged, args);
+  }
+
+  for (const route of ROUTES) {
+    const match = normalized.match(route.pattern);
+    if (match) {
+      return route.handle(state, args, match);
+    }
+  }
+
+  throw new FakeSQLError(
+    1064,
+    `The fake Data API does not support this statement: ${normalized}`
+  );
+};
+
+const runTransactionStatements = (
+  state: FakeState,
+  sql: string,
+  args: Array<SQLValue>
+) => {
+  const results: Array<{ rows: Array<Row> }> = [];
+  let lastExec = ok();
+  let argsOffset = 0;
+
+  for (const { statement: part, placeholders } of splitStatements(sql)) {
+    const partArgs = args.slice(argsOffset, argsOffset + placeholders);
+    argsOffset += placeholders;
+
+    const normalized = normalizeSQL(part);
+    if (/^(START TRANSACTION|COMMIT)$/i.test(normalized)) {
+      continue;
+    }
+    if (/^SELECT ROW_COUNT\(\)/i.test(normalized)) {
+      results.push({ rows: [lastExec] });
+      continue;
+    }
+
+    const result = runStatement(state, part, partArgs);
+    if (Array.isArray(result)) {
+      results.push({ rows: result });
+    } else {
+      lastExec = result;
+    }
+  }
+
+  return { results };
+};
+
+// runTransaction mirrors Transaction in client.ts: one result set per
+// statement which returns rows, exec statements are followed by a ROW_COUNT
+// query which returns the result of the previous statement. If a statement
+// fails the state is restored to what it was before the transaction.
+const runTransaction = (
+  state: FakeState,
+  sql: string,
+  args: Array<SQLValue>
+) => {
+  const snapshot: FakeState = structuredClone(state);
+  try {
+    return runTransactionStatements(state, sql, args);
+  } catch (e) {
+    Object.assign(state, snapshot);
+    throw e;
+  }
+};
+
+export const createFakeDataAPI = (
+  fixtures: FakeFixtures = defaultFixtures()
+) => {
+  const state: FakeState = {
+    ...fixtures,
+    rowCounts: { ...fixtures.rowCounts },
+    startedAt: Date.now(),
+    nextOfferId: Math.max(0, ...fixtures.offers.map((o) => o.offerId)) + 1,
+    sessions: {},
+    pipelines: Object.fromEntries(
+      pipelineNames.map((name) => [
+        name,
+        renderPipelineSource(defaultPipelineSource, name, defaultScaleFactor),
+      ])
+    ),
+    retentionPolicies: {},
+    customerFrequencyCaps: {},
+    oldestRows: Object.fromEntries(
+      timeseriesTables.map((name) => [name, Date.now() / 1000 - FAKE_HISTORY])
+    ),
+    plans: Object.fromEntries(
+      trackedQueries.map(({ name }, i) => [
+        name,
+        { planId: i + 1, compiledAt: Date.now() },
+      ])
+    ),
+    nextPlanId: trackedQueries.length + 1,
+  };
+
+  const handle = ({ endpoint, sql, args }: DataAPIRequest) => {
+    if (/^\s*START TRANSACTION;/i.test(sql)) {
+      return runTransaction(state, sql, args);
+    }
+
+    const result = runStatement(state, sql, args);
+
+    if (endpoint === "exec") {
+      return Array.isArray(result) ? ok(result.length) : result;
+    }
+
+    const rows = Array.isArray(result) ? result : [];
+    return {
+      results: [
+        { rows: endpoint === "query/tuples" ? rows.map(Object.values) : rows },
+      ],
+    };
+  };
+
+  return (req: DataAPIRequest) => {
+    try {
+      return handle(req);
+    } catch (e) {
+      if (e instanceof FakeSQLError) {
+        return { error: { code: e.code, message: e.message } };
+      }
+      throw e;
+    }
+  };
+};
+
+let fakeTransport: Transport | undefined;
+
+// getFakeTransport returns a transport backed by a single fake Data API
+// instance which lives for as long as the page
+export const getFakeTransport = () => {
+  if (!fakeTransport) {
+    fakeTransport = createMemoryTransport(createFakeDataAPI(), "fake");
+  }
+  return fakeTransport;
+};
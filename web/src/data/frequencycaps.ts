@@ -0,0 +1,111 @@
+import { ConnectionConfig, Exec, Query } from "@/data/client";
+import { codecs, rowSchema } from "@/data/decode";
+import { SQLIntervals } from "@/data/queries";
+
+export const FrequencyCapIntervals = <const>["minute", "hour", "day", "week"];
+export type FrequencyCapInterval = (typeof FrequencyCapIntervals)[number];
+
+// FrequencyCap limits the notifications a subscriber receives to
+// maxNotifications per interval
+export type FrequencyCap = {
+  maxNotifications: number;
+  interval: FrequencyCapInterval;
+};
+
+export type CustomerFrequencyCap = FrequencyCap & {
+  customer: string;
+};
+
+// SubscriberFrequencyCaps apply to every subscriber, they are passed to
+// run_matching_process by the session which runs the simulator
+export type SubscriberFrequencyCaps = {
+  // a subscriber receives at most one notification per interval
+  interval: SQLIntervals;
+
+  // null for no daily cap
+  dailyCap: number | null;
+};
+
+export const defaultSubscriberFrequencyCaps: SubscriberFrequencyCaps = {
+  interval: "minute",
+  dailyCap: null,
+};
+
+export const formatFrequencyCap = (cap: FrequencyCap | null) =>
+  cap ? `${cap.maxNotifications} / ${cap.interval}` : "no cap";
+
+// frequencyCapErrors returns the reasons a cap can't be saved, the label names
+// the cap in the errors
+export const frequencyCapErrors = (
+  label: string,
+  cap: FrequencyCap | null
+): Array<string> => {
+  if (
+    cap !== null &&
+    (!Number.isInteger(cap.maxNotifications) || cap.maxNotifications <= 0)
+  ) {
+    return [`${label} must be a positive number of notifications`];
+  }
+  return [];
+};
+
+// columns of a frequency cap are decoded separately, the cap is only set when
+// both are
+export const toFrequencyCap = (
+  maxNotifications: number | null,
+  interval: FrequencyCapInterval | null
+): FrequencyCap | null =>
+  maxNotifications === null || interval === null
+    ? null
+    : { maxNotifications, interval };
+
+const CustomerFrequencyCapRow = rowSchema("customerFrequencyCaps", {
+  customer: codecs.string,
+  maxNotifications: codecs.int,
+  interval: codecs.oneOf(...FrequencyCapIntervals),
+});
+
+export const customerFrequencyCaps = (
+  config: ConnectionConfig
+): Promise<Array<CustomerFrequencyCap>> =>
+  Query(
+    config,
+    CustomerFrequencyCapRow,
+    `
+      SELECT
+        customer,
+        frequency_cap AS maxNotifications,
+        frequency_cap_interval AS \`interval\`
+      FROM customer_frequency_caps
+      ORDER BY customer
+    `
+  );
+
+export const saveCustomerFrequencyCap = (
+  config: ConnectionConfig,
+  { customer, maxNotifications, interval }: CustomerFrequencyCap
+) =>
+  Exec(
+    config,
+    `
+      INSERT INTO customer_frequency_caps
+        (customer, frequency_cap, frequency_cap_interval)
+      VALUES (?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        frequency_cap = VALUES(frequency_cap),
+        frequency_cap_interval = VALUES(frequency_cap_interval)
+    `,
+    customer,
+    maxNotifications,
+    interval
+  );
+
+export const deleteCustomerFrequencyCap = (
+  config: ConnectionConfig,
+  customer: string
+) =>
+  Exec(
+    config,
+    "DELETE FROM customer_frequency_caps WHERE customer = ?",
+    customer
+  );
@@ -0,0 +1,177 @@
+import { ConnectionConfig, Exec } from "@/data/client";
+import { stringifyJSON } from "@/data/json";
+import { CityOffset, randomCityOffset, vendorDomain } from "@/data/offers";
+import {
+  randomFloatInRange,
+  randomIntegerInRange,
+  randomVendor,
+  Vendor,
+} from "@/rand";
+
+// The event generator produces the location, request and purchase streams in
+// the browser, for clusters which can not reach the bucket the pipelines load
+// from. Its rows have the columns of the pipeline batches and are written with
+// the process_*_json procedures, which pass them on to the same procedures the
+// pipelines load into.
+
+export type EventGeneratorConfig = {
+  subscribers: number;
+  locationsPerSecond: number;
+  requestsPerSecond: number;
+  purchasesPerSecond: number;
+};
+
+export const defaultEventGeneratorConfig: EventGeneratorConfig = {
+  subscribers: 1000,
+  locationsPerSecond: 500,
+  requestsPerSecond: 200,
+  purchasesPerSecond: 50,
+};
+
+export type LocationEvent = {
+  subscriber_id: number;
+  offset_x: number;
+  offset_y: number;
+};
+
+export type RequestEvent = { subscriber_id: number; domain: string };
+
+export type PurchaseEvent = { subscriber_id: number; vendor: string };
+
+export type EventBatch = {
+  locations: Array<LocationEvent>;
+  requests: Array<RequestEvent>;
+  purchases: Array<PurchaseEvent>;
+};
+
+// subscribers move this far, in city diameters, with every location event
+const STEP_SIZE = 0.005;
+
+// maximum change of direction in radians between two location events
+const MAX_TURN = Math.PI / 8;
+
+// chance that a purchase is made at the vendor the subscriber last browsed
+const BROWSED_PURCHASE_PROBABILITY = 0.5;
+
+// a tick never generates more than this many seconds of events, so that a
+// tab which was in the background does not send one enormous batch
+const MAX_ELAPSED_SECONDS = 10;
+
+type Subscriber = {
+  id: number;
+  offset: CityOffset;
+  heading: number;
+  lastBrowsed?: Vendor;
+};
+
+// walk moves a subscriber one step, turning around at the edge of the city
+const walk = (subscriber: Subscriber) => {
+  subscriber.heading += randomFloatInRange(-MAX_TURN, MAX_TURN);
+  const next = subscriber.offset.map((v, i) => {
+    const direction = i === 0 ? Math.cos : Math.sin;
+    return v + direction(subscriber.heading) * STEP_SIZE;
+  });
+  if (next.some((v) => Math.abs(v) > 0.5)) {
+    subscriber.heading += Math.PI;
+    return;
+  }
+  subscriber.offset = [next[0], next[1]];
+};
+
+const randomSubscriber = (subscribers: Array<Subscriber>) =>
+  subscribers[randomIntegerInRange(0, subscribers.length)];
+
+// createEventGenerator returns a function which generates the events that
+// occurred in the given number of seconds. Rates below one event per tick
+// carry over to the next tick rather than being rounded away.
+export const createEventGenerator = (config: EventGeneratorConfig) => {
+  const subscribers: Array<Subscriber> = Array.from(
+    { length: config.subscribers },
+    (_, id) => ({
+      id,
+      offset: randomCityOffset(),
+      heading: randomFloatInRange(0, 2 * Math.PI),
+    })
+  );
+
+  const remainders = { locations: 0, requests: 0, purchases: 0 };
+  const eventCount = (
+    stream: keyof EventBatch,
+    perSecond: number,
+    seconds: number
+  ) => {
+    const exact = remainders[stream] + perSecond * seconds;
+    const count = Math.floor(exact);
+    remainders[stream] = exact - count;
+    return subscribers.length === 0 ? 0 : count;
+  };
+
+  return (seconds: number): EventBatch => {
+    const elapsed = Math.min(seconds, MAX_ELAPSED_SECONDS);
+
+    const locations = Array.from(
+      { length: eventCount("locations", config.locationsPerSecond, elapsed) },
+      () => {
+        const subscriber = randomSubscriber(subscribers);
+        walk(subscriber);
+        const [offsetX, offsetY] = subscriber.offset;
+        return {
+          subscriber_id: subscriber.id,
+          offset_x: offsetX,
+          offset_y: offsetY,
+        };
+      }
+    );
+
+    const requests = Array.from(
+      { length: eventCount("requests", config.requestsPerSecond, elapsed) },
+      () => {
+        const subscriber = randomSubscriber(subscribers);
+        subscriber.lastBrowsed = randomVendor();
+        return {
+          subscriber_id: subscriber.id,
+          domain: vendorDomain(subscriber.lastBrowsed),
+        };
+      }
+    );
+
+    const purchases = Array.from(
+      { length: eventCount("purchases", config.purchasesPerSecond, elapsed) },
+      () => {
+        const subscriber = randomSubscriber(subscribers);
+        const vendor =
+          subscriber.lastBrowsed && Math.random() < BROWSED_PURCHASE_PROBABILITY
+            ? subscriber.lastBrowsed
+            : randomVendor();
+        return { subscriber_id: subscriber.id, vendor: vendor.vendor };
+      }
+    );
+
+    return { locations, requests, purchases };
+  };
+};
+
+// rows sent with a single call, which keeps each request to the Data API
+// below a few hundred kilobytes
+const MAX_EVENTS_PER_CALL = 5000;
+
+const insertStream = async (
+  config: ConnectionConfig,
+  procedure: string,
+  rows: Array<LocationEvent | RequestEvent | PurchaseEvent>
+) => {
+  for (let i = 0; i < rows.length; i += MAX_EVENTS_PER_CALL) {
+    await Exec(
+      config,
+      `CALL ${procedure}(?)`,
+      stringifyJSON(rows.slice(i, i + MAX_EVENTS_PER_CALL))
+    );
+  }
+};
+
+export const insertEvents = (config: ConnectionConfig, batch: EventBatch) =>
+  Promise.all([
+    insertStream(config, "process_locations_json", batch.locations),
+    insertStream(config, "process_requests_json", batch.requests),
+    insertStream(config, "process_purchases_json", batch.purchases),
+  ]);
@@ -0,0 +1,163 @@
+import { SQLErrorKind, SQLValue } from "@/data/client";
+import { DataAPIEndpoint } from "@/data/transport";
+
+export type QueryEvent = {
+  id: number;
+  caller: string;
+  endpoint: DataAPIEndpoint;
+  database?: string;
+  sql: string;
+  args: Array<SQLValue>;
+
+  // epoch milliseconds at which the request was sent
+  startedAt: number;
+  durationMs: number;
+
+  // 1 for the first try, incremented for every retry
+  attempt: number;
+
+  // set when the request was merged into an identical request in flight
+  coalesced?: boolean;
+
+  // rows returned by queries, rows affected by exec statements
+  rowCount?: number;
+  error?: string;
+  aborted?: boolean;
+};
+
+export type QueryEventListener = (event: QueryEvent) => void;
+
+export const UNKNOWN_CALLER = "unknown";
+
+// only the most recent events are kept in memory
+const MAX_QUERY_EVENTS = 1000;
+
+let nextEventID = 1;
+let events: Array<QueryEvent> = [];
+const listeners = new Set<QueryEventListener>();
+
+export const recordQueryEvent = (event: Omit<QueryEvent, "id">) => {
+  const recorded = { ...event, id: nextEventID++ };
+
+  events.push(recorded);
+  if (events.length > MAX_QUERY_EVENTS) {
+    events = events.slice(-MAX_QUERY_EVENTS);
+  }
+
+  listeners.forEach((listener) => listener(recorded));
+};
+
+export const subscribeQueryEvents = (listener: QueryEventListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recentQueryEvents = (): Array<QueryEvent> => [...events];
+
+export const clearQueryEvents = () => {
+  events = [];
+};
+
+// HandledErrorEvent records a failure which never reached the user: either
+// the query was retried or the error was transient and ignored
+export type HandledErrorEvent = {
+  id: number;
+  caller: string;
+  handling: "retried" | "ignored";
+
+  // epoch milliseconds at which the error was handled
+  at: number;
+  kind: SQLErrorKind;
+  code: number;
+  message: string;
+  sql: string;
+
+  // the attempt which failed, only set for retried errors
+  attempt?: number;
+};
+
+let handledErrors: Array<HandledErrorEvent> = [];
+
+export const recordHandledError = (event: Omit<HandledErrorEvent, "id">) => {
+  handledErrors.push({ ...event, id: nextEventID++ });
+  if (handledErrors.length > MAX_QUERY_EVENTS) {
+    handledErrors = handledErrors.slice(-MAX_QUERY_EVENTS);
+  }
+};
+
+export const recentHandledErrors = (): Array<HandledErrorEvent> => [
+  ...handledErrors,
+];
+
+export const clearHandledErrors = () => {
+  handledErrors = [];
+};
+
+// normalizeQueryShape collapses whitespace, literals and placeholder lists so
+// that queries which only differ by their arguments are grouped together
+export const normalizeQueryShape = (sql: string) =>
+  sql
+    .replace(/--[^\n]*/g, " ")
+    .replace(/'(?:[^'\\]|\\.)*'/g, "?")
+    .replace(/\b\d+(\.\d+)?\b/g, "?")
+    .replace(/\(\s*\?(\s*,\s*\?)+\s*\)/g, "(?, ...)")
+    .replace(/(\(\?, \.\.\.\)\s*,\s*)+\(\?, \.\.\.\)/g, "(?, ...), ...")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const percentile = (values: Array<number>, p: number) => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const idx = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, idx))];
+};
+
+export type QueryEventSummary = {
+  key: string;
+  count: number;
+  errors: number;
+  coalesced: number;
+  totalRows: number;
+  p50Ms: number;
+  p95Ms: number;
+  totalMs: number;
+
+  // queries per second over the window covered by the events
+  rate: number;
+  callers: Array<string>;
+};
+
+export const summarizeQueryEvents = (
+  events: Array<QueryEvent>,
+  keyFn: (event: QueryEvent) => string
+): Array<QueryEventSummary> => {
+  const groups = new Map<string, Array<QueryEvent>>();
+  for (const event of events) {
+    const key = keyFn(event);
+    groups.set(key, [...(groups.get(key) || []), event]);
+  }
+
+  const first = Math.min(...events.map((e) => e.startedAt));
+  const last = Math.max(...events.map((e) => e.startedAt + e.durationMs));
+  const windowSeconds = Math.max(1, (last - first) / 1000);
+
+  return Array.from(groups, ([key, group]) => {
+    const durations = group.map((e) => e.durationMs);
+    return {
+      key,
+      count: group.length,
+      errors: group.filter((e) => e.error).length,
+      coalesced: group.filter((e) => e.coalesced).length,
+      totalRows: group.reduce((sum, e) => sum + (e.rowCount || 0), 0),
+      p50Ms: percentile(durations, 50),
+      p95Ms: percentile(durations, 95),
+      totalMs: durations.reduce((sum, d) => sum + d, 0),
+      rate: group.length / windowSeconds,
+      callers: Array.from(new Set(group.map((e) => e.caller))).sort(),
+    };
+  }).sort((a, b) => b.totalMs - a.totalMs);
+};
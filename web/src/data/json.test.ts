@@ -0,0 +1,31 @@
+import { describe, expect, test } from "vitest";
+
+import { parseJSON, stringifyJSON } from "@/data/json";
+
+describe("parseJSON", () => {
+  test("keeps integers beyond MAX_SAFE_INTEGER as exact strings", () => {
+    expect(
+      parseJSON('{"id": 9007199254740993, "neg": -9223372036854775808}')
+    ).toEqual({ id: "9007199254740993", neg: "-9223372036854775808" });
+  });
+
+  test("leaves safe integers, decimals and exponents as numbers", () => {
+    expect(
+      parseJSON("[9007199254740991, -42, 12345678901234567.5, 1e21, 0]")
+    ).toEqual([9007199254740991, -42, 12345678901234567.5, 1e21, 0]);
+  });
+
+  test("does not touch digits inside strings", () => {
+    expect(parseJSON('["9007199254740993", "a\\"12345678901234567"]')).toEqual([
+      "9007199254740993",
+      'a"12345678901234567',
+    ]);
+  });
+});
+
+describe("stringifyJSON", () => {
+  test("round trips bigints as decimal strings", () => {
+    const id = 2n ** 63n - 1n;
+    expect(parseJSON(stringifyJSON({ id }))).toEqual({ id: id.toString() });
+  });
+});
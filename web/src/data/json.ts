@@ -0,0 +1,66 @@
+// The Data API encodes BIGINT columns as JSON numbers, which JSON.parse
+// silently rounds once they exceed Number.MAX_SAFE_INTEGER. parseJSON quotes
+// integer literals which can not be represented exactly before parsing them,
+// so that they arrive as decimal strings instead.
+
+const UNSAFE_INTEGER_DIGITS = String(Number.MAX_SAFE_INTEGER).length;
+
+const isDigit = (ch: string) => ch >= "0" && ch <= "9";
+
+const quoteUnsafeIntegers = (text: string) => {
+  let out = "";
+  let last = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (ch === '"') {
+      // skip over string literals, including escaped quotes
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === "\\") {
+          i++;
+        }
+      }
+      continue;
+    }
+
+    if (ch !== "-" && !isDigit(ch)) {
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < text.length && isDigit(text[end])) {
+      end++;
+    }
+
+    const isInteger = !/[.eE]/.test(text[end] || "");
+    const literal = text.slice(i, end);
+    if (
+      isInteger &&
+      literal.replace("-", "").length >= UNSAFE_INTEGER_DIGITS &&
+      !Number.isSafeInteger(Number(literal))
+    ) {
+      out += `${text.slice(last, i)}"${literal}"`;
+      last = end;
+    }
+    i = end - 1;
+
+    // skip the rest of a decimal or exponent so it is not parsed again
+    while (i + 1 < text.length && /[-+.eE0-9]/.test(text[i + 1])) {
+      i++;
+    }
+  }
+
+  return last === 0 ? text : out + text.slice(last);
+};
+
+export const parseJSON = (text: string) =>
+  JSON.parse(quoteUnsafeIntegers(text));
+
+// stringifyJSON serializes bigint values as decimal strings, which SingleStore
+// converts back to BIGINT when they are compared with or stored in a BIGINT
+// column
+export const stringifyJSON = (value: unknown) =>
+  JSON.stringify(value, (_key, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
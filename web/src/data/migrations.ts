@@ -0,0 +1,398 @@
+import stringHash from "string-hash";
+
+import {
+  ConnectionConfig,
+  Exec,
+  ExecNoDb,
+  QueryTuples,
+  SQLError,
+} from "@/data/client";
+import { createVendors } from "@/data/offers";
+import {
+  BUNDLED_ROUTINES,
+  BUNDLED_TABLES,
+  Migration,
+  MIGRATIONS,
+  SCHEMA_OBJECTS,
+  SchemaObject,
+  TABLES,
+} from "@/data/sql";
+import { compileInsert, ident } from "@/data/sqlgen";
+import { toISOStringNoTZ } from "@/datetime";
+
+// Migrations upgrade a deployed database to the bundled schema in place. The
+// bundled tables are created with IF NOT EXISTS and the bundled routines with
+// CREATE OR REPLACE, so only changes to existing tables need a migration.
+
+const MIGRATIONS_TABLE = "schema_migrations";
+
+export const migrationChecksum = ({ statements }: Migration) =>
+  stringHash(statements.map(({ statement }) => statement).join(";"));
+
+const KEY_DEFINITION_REGEX =
+  /^(PRIMARY|UNIQUE|SHARD|SORT|KEY|INDEX|FULLTEXT|SPATIAL|FOREIGN|CONSTRAINT)\b/i;
+
+// bundledColumns lists the columns defined by a CREATE TABLE statement, it
+// expects one column or key definition per line like in schema.sql
+export const bundledColumns = (statement: string) => {
+  const body = statement.slice(
+    statement.indexOf("(") + 1,
+    statement.lastIndexOf(")")
+  );
+  return body
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("--"))
+    .filter((line) => !KEY_DEFINITION_REGEX.test(line))
+    .map((line) => line.split(/\s+/)[0].replace(/`/g, ""));
+};
+
+// routineBody strips the CREATE header of a bundled function or procedure,
+// information_schema.routines only stores the part following AS
+export const routineBody = (statement: string) => {
+  const match = statement.match(/\bAS\s*\n/i);
+  return match?.index === undefined
+    ? statement
+    : statement.slice(match.index + match[0].length);
+};
+
+// routine definitions are compared without whitespace
+const normalizeDefinition = (sql: string) =>
+  sql.replace(/\s+/g, "").toLowerCase();
+
+export type SchemaDrift = {
+  // false if none of the bundled tables exist in the database
+  deployed: boolean;
+
+  missingTables: Array<string>;
+  missingColumns: Array<string>;
+  unexpectedColumns: Array<string>;
+  missingRoutines: Array<string>;
+  changedRoutines: Array<string>;
+
+  pendingMigrations: Array<Migration>;
+
+  // migrations whose file changed after they were applied
+  changedMigrations: Array<Migration>;
+};
+
+// needsUpgrade is true if upgradeSchema would change the database, unexpected
+// columns and changed routines are only reported since the comparison of
+// routine definitions is approximate
+export const needsUpgrade = (drift: SchemaDrift) =>
+  drift.deployed &&
+  (drift.missingTables.length > 0 ||
+    drift.missingColumns.length > 0 ||
+    drift.missingRoutines.length > 0 ||
+    drift.pendingMigrations.length > 0);
+
+type DeployedObject = [
+  type: "column" | "routine",
+  parent: string,
+  name: string,
+  definition: string
+];
+
+const deployedObjects = async (config: ConnectionConfig) => {
+  const { database, ...configNoDb } = config;
+  try {
+    return await QueryTuples<DeployedObject>(
+      configNoDb,
+      `
+        SELECT "column", table_name, column_name, ""
+        FROM information_schema.columns
+        WHERE table_schema = ?
+        UNION ALL
+        SELECT "routine", "", routine_name, routine_definition
+        FROM information_schema.routines
+        WHERE routine_schema = ?
+      `,
+      database,
+      database
+    );
+  } catch (e) {
+    if (
+      e instanceof SQLError &&
+      (e.isUnknownDatabase() || e.isDatabaseRecovering())
+    ) {
+      return [];
+    }
+    throw e;
+  }
+};
+
+const appliedMigrations = (config: ConnectionConfig) =>
+  QueryTuples<[version: number, checksum: number]>(
+    config,
+    `SELECT version, checksum FROM ${MIGRATIONS_TABLE}`
+  );
+
+// schemaDrift compares the deployed tables, columns and routines with the
+// bundled schema and lists the migrations which have not been applied
+export const schemaDrift = async (
+  config: ConnectionConfig
+): Promise<SchemaDrift> => {
+  const objects = await deployedObjects(config);
+
+  const deployedColumns = new Map<string, Set<string>>();
+  const deployedRoutines = new Map<string, string>();
+  for (const [type, parent, name, definition] of objects) {
+    if (type === "column") {
+      const columns = deployedColumns.get(parent) || new Set<string>();
+      deployedColumns.set(parent, columns.add(name));
+    } else {
+      deployedRoutines.set(name, definition);
+    }
+  }
+
+  const drift: SchemaDrift = {
+    deployed: false,
+    missingTables: [],
+    missingColumns: [],
+    unexpectedColumns: [],
+    missingRoutines: [],
+    changedRoutines: [],
+    pendingMigrations: [],
+    changedMigrations: [],
+  };
+
+  for (const { name, statement } of BUNDLED_TABLES) {
+    const deployed = deployedColumns.get(name);
+    if (!deployed) {
+      drift.missingTables.push(name);
+      continue;
+    }
+    drift.deployed = true;
+
+    const bundled = bundledColumns(statement);
+    for (const column of bundled) {
+      if (!deployed.has(column)) {
+        drift.missingColumns.push(`${name}.${column}`);
+      }
+    }
+    for (const column of deployed) {
+      if (!bundled.includes(column)) {
+        drift.unexpectedColumns.push(`${name}.${column}`);
+      }
+    }
+  }
+
+  for (const { name, statement } of BUNDLED_ROUTINES) {
+    const definition = deployedRoutines.get(name);
+    if (definition === undefined) {
+      drift.missingRoutines.push(name);
+    } else if (
+      normalizeDefinition(routineBody(statement)) !==
+      normalizeDefinition(definition)
+    ) {
+      drift.changedRoutines.push(name);
+    }
+  }
+
+  // databases created before migrations were introduced are at the first
+  // version, which is the baseline
+  let applied: Array<[number, number]> = [];
+  if (deployedColumns.has(MIGRATIONS_TABLE)) {
+    applied = await appliedMigrations(config);
+  } else if (drift.deployed && MIGRATIONS.length > 0) {
+    applied = [[MIGRATIONS[0].version, migrationChecksum(MIGRATIONS[0])]];
+  }
+
+  for (const migration of MIGRATIONS) {
+    const row = applied.find(([version]) => version === migration.version);
+    if (!row) {
+      drift.pendingMigrations.push(migration);
+    } else if (row[1] !== migrationChecksum(migration)) {
+      drift.changedMigrations.push(migration);
+    }
+  }
+
+  return drift;
+};
+
+const recordMigrations = (
+  config: ConnectionConfig,
+  migrations: Array<Migration>
+) => {
+  if (migrations.length === 0) {
+    return;
+  }
+  const appliedAt = toISOStringNoTZ(new Date());
+  const { sql, params } = compileInsert({
+    table: MIGRATIONS_TABLE,
+    options: { onDuplicateKeyUpdate: ["name", "checksum", "applied_at"] },
+    columns: ["version", "name", "checksum", "applied_at"],
+    tuples: migrations.map((migration) => [
+      migration.version,
+      migration.name,
+      migrationChecksum(migration),
+      appliedAt,
+    ]),
+  });
+  return Exec(config, sql, ...params);
+};
+
+// markMigrationsApplied records every bundled migration, it is called after
+// the bundled schema has been created from scratch
+export const markMigrationsApplied = (config: ConnectionConfig) =>
+  recordMigrations(config, MIGRATIONS);
+
+type Progress = (msg: string, status: "info" | "success") => void;
+
+const createObjects = async (
+  config: ConnectionConfig,
+  objects: Array<SchemaObject>,
+  progress: Progress
+) => {
+  for (const obj of objects) {
+    progress(`Creating ${obj.kind}: ${obj.name}`, "info");
+    await Exec(config, obj.statement);
+  }
+};
+
+// upgradeSchema brings a database up to the bundled schema without touching
+// its data: pending migrations are applied in order, then missing tables are
+// created, every routine is replaced with the bundled version and the vendors
+// are written
+export const upgradeSchema = async (
+  config: ConnectionConfig,
+  progress: Progress
+) => {
+  progress("Checking schema", "info");
+  const before = await schemaDrift(config);
+
+  await ExecNoDb(
+    config,
+    "CREATE DATABASE IF NOT EXISTS `" + config.database + "`"
+  );
+
+  const migrationsTable = TABLES.find((t) => t.name === MIGRATIONS_TABLE);
+  if (migrationsTable) {
+    await Exec(config, migrationsTable.statement);
+  }
+
+  if (!before.deployed) {
+    // the bundled schema already includes every migration
+    await createObjects(config, SCHEMA_OBJECTS, progress);
+    await markMigrationsApplied(config);
+    progress("Creating vendors", "info");
+    await createVendors(config);
+    progress("Schema created", "success");
+    return;
+  }
+
+  // record the baseline of databases created before migrations existed
+  if (before.missingTables.includes(MIGRATIONS_TABLE)) {
+    await recordMigrations(
+      config,
+      MIGRATIONS.filter((m) => !before.pendingMigrations.includes(m))
+    );
+  }
+
+  for (const migration of before.pendingMigrations) {
+    progress(
+      `Applying migration ${migration.version}: ${migration.name}`,
+      "info"
+    );
+    for (const { statement } of migration.statements) {
+      await Exec(config, statement);
+    }
+    await recordMigrations(config, [migration]);
+  }
+
+  await createObjects(
+    config,
+    SCHEMA_OBJECTS.filter(
+      (o) => o.kind !== "table" || before.missingTables.includes(o.name)
+    ),
+    progress
+  );
+
+  // vendors are reference data which isn't part of the migrations, writing
+  // them again picks up vendors added since the last upgrade
+  progress("Creating vendors", "info");
+  await createVendors(config);
+
+  const after = await schemaDrift(config);
+  if (after.missingTables.length > 0 || after.missingColumns.length > 0) {
+    throw new Error(
+      "Schema is still out of date after upgrading, missing: " +
+        [...after.missingTables, ...after.missingColumns].join(", ")
+    );
+  }
+
+  progress("Schema upgraded", "success");
+};
+
+export type SchemaObjectDefinition = {
+  kind: "table" | "routine";
+
+  // the bundled statement, routines only include their body
+  bundled: string;
+
+  // undefined if the object does not exist in the database
+  deployed?: string;
+};
+
+const findBundledObject = (name: string) => {
+  const table = BUNDLED_TABLES.find((t) => t.name === name);
+  if (table) {
+    return { kind: "table" as const, statement: table.statement };
+  }
+  const routine = BUNDLED_ROUTINES.find((r) => r.name === name);
+  if (routine) {
+    return { kind: "routine" as const, statement: routine.statement };
+  }
+  throw new Error("Could not find schema object: " + name);
+};
+
+// schemaObjectDefinition fetches the live definition of a bundled table or
+// routine so that it can be compared with the bundled statement
+export const schemaObjectDefinition = async (
+  config: ConnectionConfig,
+  name: string
+): Promise<SchemaObjectDefinition> => {
+  const { kind, statement } = findBundledObject(name);
+
+  if (kind === "table") {
+    try {
+      const [[, deployed]] = await QueryTuples<[string, string]>(
+        config,
+        `SHOW CREATE TABLE ${ident(name)}`
+      );
+      return { kind, bundled: statement, deployed };
+    } catch (e) {
+      if (e instanceof SQLError && e.isUnknownTable()) {
+        return { kind, bundled: statement };
+      }
+      throw e;
+    }
+  }
+
+  const { database, ...configNoDb } = config;
+  const rows = await QueryTuples<[string]>(
+    configNoDb,
+    `
+      SELECT routine_definition
+      FROM information_schema.routines
+      WHERE routine_schema = ? AND routine_name = ?
+    `,
+    database,
+    name
+  );
+  return {
+    kind,
+    bundled: routineBody(statement).trim(),
+    deployed: rows.length > 0 ? rows[0][0].trim() : undefined,
+  };
+};
+
+// applySchemaObject recreates a single function or procedure from the bundled
+// statement, tables have to be upgraded with a migration instead
+export const applySchemaObject = (config: ConnectionConfig, name: string) => {
+  const { kind, statement } = findBundledObject(name);
+  if (kind !== "routine") {
+    throw new Error(`Only functions and procedures can be applied: ${name}`);
+  }
+  return Exec(config, statement);
+};
@@ -3,7 +3,7 @@ import { SetterOrUpdater, useRecoilState, useRecoilValue } from "recoil";
 
 import { trackAnalyticsEvent } from "@/analytics";
 import { ConnectionConfig } from "@/data/client";
-import { createCity, removeCity } from "@/data/offers";
+import { removeCity } from "@/data/offers";
 import {
   City,
   getCities,
@@ -22,7 +22,7 @@ import {
 
 const getSelectedCitiesFromDatabase = async (
   config: ConnectionConfig,
-  selectCityHook: [number, SetterOrUpdater<number>],
+  selectCityHook: [string, SetterOrUpdater<string>],
   setIsUpdating: React.Dispatch<React.SetStateAction<boolean>>,
   setCities: React.Dispatch<React.SetStateAction<Array<City>>>,
   setError: React.Dispatch<React.SetStateAction<Error | undefined>>
@@ -39,7 +39,7 @@ const getSelectedCitiesFromDatabase = async (
       (c) => c.id === lastSelectedCityId
     );
     if (!doesLastSelectedCityExist) {
-      setLastSelectedCityId((cities[0] && cities[0].id) || -1);
+      setLastSelectedCityId((cities[0] && cities[0].id) || "");
     }
   } catch (error) {
     setError(error as Error);
@@ -50,7 +50,7 @@ const getSelectedCitiesFromDatabase = async (
 const addCityToDatabase = async (
   config: ConnectionConfig,
   point: [number, number],
-  selectCityHook: [number, SetterOrUpdater<number>],
+  selectCityHook: [string, SetterOrUpdater<string>],
   setIsUpdating: React.Dispatch<React.SetStateAction<boolean>>,
   setCities: React.Dispatch<React.SetStateAction<Array<City>>>,
   setError: React.Dispatch<React.SetStateAction<Error | undefined>>
@@ -66,9 +66,8 @@ const addCityToDatabase = async (
     lonlat: <[number, number]>[city.centerLon, city.centerLat],
     diameter: city.diameter,
   };
-  await createCity(config, cityConfig);
-  trackAnalyticsEvent("create-city");
   await seedCityWithOffers(config, cityConfig, ScaleFactors[0]);
+  trackAnalyticsEvent("create-city");
   await getSelectedCitiesFromDatabase(
     config,
     selectCityHook,
@@ -81,8 +80,8 @@ const addCityToDatabase = async (
 
 const removeCityFromDatabase = async (
   config: ConnectionConfig,
-  cityId: number,
-  selectCityHook: [number, SetterOrUpdater<number>],
+  cityId: string,
+  selectCityHook: [string, SetterOrUpdater<string>],
   setIsUpdating: React.Dispatch<React.SetStateAction<boolean>>,
   setCities: React.Dispatch<React.SetStateAction<Array<City>>>,
   setError: React.Dispatch<React.SetStateAction<Error | undefined>>
@@ -105,7 +104,7 @@ const removeCityFromDatabase = async (
 
 export interface CityListHookReturnType {
   onCreateCity: (lat: number, lon: number) => void;
-  onRemoveCity: (cityId: number) => void;
+  onRemoveCity: (cityId: string) => void;
   updateCityList: () => void;
 }
 
@@ -128,7 +127,7 @@ export const useUpdateCityList = (): CityListHookReturnType => {
       setError
     );
   };
-  const onRemoveCity = async (cityId: number) => {
+  const onRemoveCity = async (cityId: string) => {
     await removeCityFromDatabase(
       config,
       cityId,
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "vitest";
+
+import {
+  formatSegmentExpression,
+  parseSegmentExpression,
+  segmentClauses,
+  SegmentExpression,
+  segmentExpressionErrors,
+} from "@/data/offers";
+
+const parse = (text: string) =>
+  parseSegmentExpression(text) as SegmentExpression;
+
+// andOfPairs returns (#1 OR #2) AND (#3 OR #4) AND ..., whose normal form has
+// 2^pairs clauses
+const andOfPairs = (pairs: number) =>
+  Array.from(
+    { length: pairs },
+    (_, i) => `(#${2 * i + 1} OR #${2 * i + 2})`
+  ).join(" AND ");
+
+describe("parseSegmentExpression", () => {
+  test("binds NOT tighter than AND and AND tighter than OR", () => {
+    const expression = parse("#1 OR NOT #2 AND #3");
+    expect(expression).toEqual({
+      or: [{ segment: 0 }, { and: [{ not: { segment: 1 } }, { segment: 2 }] }],
+    });
+    expect(formatSegmentExpression(expression)).toBe("#1 OR NOT #2 AND #3");
+  });
+
+  test("returns null for an empty expression and throws on syntax errors", () => {
+    expect(parseSegmentExpression("  ")).toBeNull();
+    expect(() => parseSegmentExpression("(#1 OR #2")).toThrow(
+      "missing a closing parenthesis"
+    );
+    expect(() => parseSegmentExpression("#1 AND")).toThrow("ends unexpectedly");
+  });
+});
+
+describe("segmentClauses", () => {
+  test("pushes negations down to the segments", () => {
+    expect(segmentClauses(parse("NOT (#1 AND NOT #2)"))).toEqual([
+      { all: [], none: [0] },
+      { all: [1], none: [] },
+    ]);
+  });
+
+  test("drops clauses which can never match", () => {
+    expect(segmentClauses(parse("#1 AND NOT #1"))).toEqual([]);
+    expect(segmentExpressionErrors(parse("#1 AND NOT #1"), 1)).toEqual([
+      "The targeting can never match",
+    ]);
+  });
+
+  test("expands up to MAX_SEGMENT_CLAUSES clauses", () => {
+    const clauses = segmentClauses(parse(andOfPairs(4)));
+    expect(clauses).toHaveLength(16);
+    expect(segmentExpressionErrors(parse(andOfPairs(4)), 8)).toEqual([]);
+  });
+
+  test("gives up once the expansion exceeds MAX_SEGMENT_CLAUSES", () => {
+    expect(segmentClauses(parse(andOfPairs(5)))).toBeUndefined();
+    // the negation is an OR of five clauses, which stays within the limit
+    expect(segmentClauses(parse(`NOT (${andOfPairs(5)})`))).toHaveLength(5);
+    expect(segmentExpressionErrors(parse(andOfPairs(5)), 10)).toEqual([
+      "The targeting is too complex, it expands to more than 16 alternatives",
+    ]);
+  });
+});
@@ -2,8 +2,23 @@ import OpenLocationCode from "open-location-code-typescript";
 import { Bounds, Point } from "pigeon-maps";
 import stringHash from "string-hash";
 
-import { ConnectionConfig, Exec } from "@/data/client";
-import { compileInsert, InsertStatement } from "@/data/sqlgen";
+import {
+  ConnectionConfig,
+  Exec,
+  ExecStatement,
+  execStatement,
+  Query,
+  Transaction,
+} from "@/data/client";
+import { Codec, codecs, rowSchema } from "@/data/decode";
+import {
+  FrequencyCap,
+  frequencyCapErrors,
+  FrequencyCapIntervals,
+  toFrequencyCap,
+} from "@/data/frequencycaps";
+import { compileInsertChunks } from "@/data/sqlgen";
+import { toISOStringNoTZ } from "@/datetime";
 import { boundsToWKTPolygon } from "@/geo";
 import {
   randomChoice,
@@ -15,42 +30,74 @@ import {
 import VENDORS from "@/static-data/vendors.json";
 
 export const DEFAULT_CITY = {
-  id: 120658,
+  id: "120658",
   name: "New York City",
   lonlat: <[number, number]>[-74.00597003, 40.71427003],
   diameter: 0.04,
 };
 
-const MAX_OFFERS_PER_BATCH = 500;
-
 export type CityConfig = {
-  id: number;
+  id: string;
   name: string;
   lonlat: Point;
   diameter: number;
 };
 
-export const createCity = (config: ConnectionConfig, city: CityConfig) =>
-  Exec(
-    config,
-    `
-      INSERT INTO cities (city_id, city_name, center, diameter)
-      VALUES (?, ?, ?, ?)
-      ON DUPLICATE KEY UPDATE
-        city_name = VALUES(city_name),
-        center = VALUES(center),
-        diameter = VALUES(diameter)
-    `,
-    city.id,
-    city.name,
-    `POINT(${city.lonlat[0]} ${city.lonlat[1]})`,
-    city.diameter
-  );
+// SeedProgress is called after each chunk of a bulk insert has been written
+export type SeedProgress = (
+  table: string,
+  written: number,
+  total: number
+) => void;
+
+const insertCitiesChunks = (cities: Array<CityConfig>) =>
+  compileInsertChunks({
+    table: "cities",
+    options: { onDuplicateKeyUpdate: ["city_name", "center", "diameter"] },
+    columns: ["city_id", "city_name", "center", "diameter"],
+    tuples: cities.map((city) => [
+      city.id,
+      city.name,
+      `POINT(${city.lonlat[0]} ${city.lonlat[1]})`,
+      city.diameter,
+    ]),
+  });
+
+export const createCityStatement = (city: CityConfig) => {
+  const [{ sql, params }] = insertCitiesChunks([city]);
+  return execStatement(sql, ...params);
+};
+
+export const createCity = (config: ConnectionConfig, city: CityConfig) => {
+  const { sql, args } = createCityStatement(city);
+  return Exec(config, sql, ...args);
+};
+
+export const createCities = async (
+  config: ConnectionConfig,
+  cities: Array<CityConfig>,
+  progress?: SeedProgress
+) => {
+  let written = 0;
+  for (const { sql, params, tuples } of insertCitiesChunks(cities)) {
+    await Exec(config, sql, ...params);
+    written += tuples;
+    progress?.("cities", written, cities.length);
+  }
+};
 
-export const removeCity = (config: ConnectionConfig, cityId: number) =>
+export const removeCity = (config: ConnectionConfig, cityId: string) =>
   Exec(config, "DELETE FROM cities WHERE city_id = ?", cityId);
 
-export const SegmentKinds = ["olc_8", "purchase", "request"] as const;
+export const SegmentKinds = [
+  "olc_8",
+  "olc_8_visits",
+  "olc_8_dwell",
+  "purchase",
+  "purchase_category",
+  "no_purchase",
+  "request",
+] as const;
 export type SegmentKind = (typeof SegmentKinds)[number];
 
 export const SegmentIntervals = <const>[
@@ -62,140 +109,1006 @@ export const SegmentIntervals = <const>[
 ];
 export type SegmentInterval = (typeof SegmentIntervals)[number];
 
-export type Segment = {
+const INTERVAL_MINUTES: { [interval in SegmentInterval]: number } = {
+  minute: 1,
+  hour: 60,
+  day: 24 * 60,
+  week: 7 * 24 * 60,
+  month: 30 * 24 * 60,
+};
+
+type SegmentOf<Kind extends SegmentKind> = {
+  interval: SegmentInterval;
+  kind: Kind;
+  value: string;
+};
+
+// subscribers who were in the open location code cell
+export type LocationSegment = SegmentOf<"olc_8">;
+
+// subscribers who were in the cell during at least visits distinct minutes
+export type VisitsSegment = SegmentOf<"olc_8_visits"> & { visits: number };
+
+// subscribers who stayed in the cell for at least dwellMinutes
+export type DwellSegment = SegmentOf<"olc_8_dwell"> & { dwellMinutes: number };
+
+// subscribers who purchased from the vendor
+export type PurchaseSegment = SegmentOf<"purchase">;
+
+// subscribers who purchased from any vendor of the category
+export type PurchaseCategorySegment = SegmentOf<"purchase_category">;
+
+// subscribers who did not purchase from the vendor
+export type NoPurchaseSegment = SegmentOf<"no_purchase">;
+
+// subscribers who requested the domain
+export type RequestSegment = SegmentOf<"request">;
+
+export type Segment =
+  | LocationSegment
+  | VisitsSegment
+  | DwellSegment
+  | PurchaseSegment
+  | PurchaseCategorySegment
+  | NoPurchaseSegment
+  | RequestSegment;
+
+// SegmentColumns is a segment as stored in the segments table
+export type SegmentColumns = {
   interval: SegmentInterval;
   kind: SegmentKind;
   value: string;
+  threshold: number;
 };
 
-export const segmentId = ({ interval, kind, value }: Segment) =>
-  stringHash(`${interval}-${kind}-${value}`);
+export const segmentColumns = (segment: Segment): SegmentColumns => {
+  const { interval, kind, value } = segment;
+  let threshold = 0;
+  if (segment.kind === "olc_8_visits") {
+    threshold = segment.visits;
+  } else if (segment.kind === "olc_8_dwell") {
+    threshold = segment.dwellMinutes;
+  }
+  return { interval, kind, value, threshold };
+};
 
-export const createSegments = async (
-  config: ConnectionConfig,
-  segments: Array<Segment>
+// toSegment is the inverse of segmentColumns, the threshold is dropped by the
+// kinds which don't use it
+export const toSegment = ({
+  interval,
+  kind,
+  value,
+  threshold,
+}: SegmentColumns): Segment => {
+  switch (kind) {
+    case "olc_8_visits":
+      return { interval, kind, value, visits: threshold };
+
+    case "olc_8_dwell":
+      return { interval, kind, value, dwellMinutes: threshold };
+
+    default:
+      return { interval, kind, value };
+  }
+};
+
+// the identifiers of segments without a threshold predate it and are kept
+export const segmentId = (segment: Segment) => {
+  const { interval, kind, value, threshold } = segmentColumns(segment);
+  if (threshold === 0) {
+    return stringHash(`${interval}-${kind}-${value}`);
+  }
+  return stringHash(`${interval}-${kind}-${value}-${threshold}`);
+};
+
+export const formatSegment = (segment: Segment) => {
+  const { interval, kind, value } = segment;
+  switch (segment.kind) {
+    case "olc_8_visits":
+      return `${kind} ${value} ${segment.visits}x / ${interval}`;
+
+    case "olc_8_dwell":
+      return `${kind} ${value} ${segment.dwellMinutes}min / ${interval}`;
+
+    default:
+      return `${kind} ${value} / ${interval}`;
+  }
+};
+
+// A SegmentExpression combines the segments of an offer with AND, OR and NOT,
+// its leaves are indexes into the segments of the offer. Offers without an
+// expression target the members of all of their segments.
+export type SegmentExpression =
+  | { segment: number }
+  | { and: Array<SegmentExpression> }
+  | { or: Array<SegmentExpression> }
+  | { not: SegmentExpression };
+
+// SegmentClause is a clause of an expression in disjunctive normal form, see
+// segment_clauses_match
+export type SegmentClause = { all: Array<number>; none: Array<number> };
+
+// every clause is evaluated for every subscriber in the notification zone of
+// the offer, which limits the complexity of expressions
+const MAX_SEGMENT_CLAUSES = 16;
+
+const mapSegmentExpression = (
+  expression: SegmentExpression,
+  f: (segment: number) => number
+): SegmentExpression => {
+  if ("segment" in expression) {
+    return { segment: f(expression.segment) };
+  }
+  if ("and" in expression) {
+    return { and: expression.and.map((e) => mapSegmentExpression(e, f)) };
+  }
+  if ("or" in expression) {
+    return { or: expression.or.map((e) => mapSegmentExpression(e, f)) };
+  }
+  return { not: mapSegmentExpression(expression.not, f) };
+};
+
+const expressionSegments = (expression: SegmentExpression): Array<number> => {
+  if ("segment" in expression) {
+    return [expression.segment];
+  }
+  if ("not" in expression) {
+    return expressionSegments(expression.not);
+  }
+  const args = "and" in expression ? expression.and : expression.or;
+  return args.flatMap(expressionSegments);
+};
+
+const uniq = (values: Array<number>) => [...new Set(values)];
+
+// uniqClauses drops clauses which list the same segments as an earlier one
+const uniqClauses = (clauses: Array<SegmentClause>) => {
+  const seen = new Set<string>();
+  return clauses.filter(({ all, none }) => {
+    const key = `${[...all].sort()}|${[...none].sort()}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+// segmentClauses compiles the expression to disjunctive normal form, negations
+// are pushed down to the leaves which are kept as they are. Clauses which
+// require and exclude the same segment can never match and are dropped. The
+// expansion grows exponentially, so it stops and returns undefined once it
+// has more than MAX_SEGMENT_CLAUSES clauses.
+export const segmentClauses = (
+  expression: SegmentExpression,
+  negated = false
+): Array<SegmentClause> | undefined => {
+  if ("segment" in expression) {
+    const { segment } = expression;
+    return [
+      negated ? { all: [], none: [segment] } : { all: [segment], none: [] },
+    ];
+  }
+  if ("not" in expression) {
+    return segmentClauses(expression.not, !negated);
+  }
+
+  const args = "and" in expression ? expression.and : expression.or;
+
+  // a negated AND is an OR of the negated arguments and vice versa
+  if ("and" in expression === negated) {
+    let clauses: Array<SegmentClause> = [];
+    for (const arg of args) {
+      const next = segmentClauses(arg, negated);
+      if (!next) {
+        return;
+      }
+      clauses = uniqClauses([...clauses, ...next]);
+      if (clauses.length > MAX_SEGMENT_CLAUSES) {
+        return;
+      }
+    }
+    return clauses;
+  }
+
+  let product: Array<SegmentClause> = [{ all: [], none: [] }];
+  for (const arg of args) {
+    const next = segmentClauses(arg, negated);
+    if (!next) {
+      return;
+    }
+    product = uniqClauses(
+      product
+        .flatMap((a) =>
+          next.map((b) => ({
+            all: uniq([...a.all, ...b.all]),
+            none: uniq([...a.none, ...b.none]),
+          }))
+        )
+        .filter(({ all, none }) => !all.some((s) => none.includes(s)))
+    );
+    if (product.length > MAX_SEGMENT_CLAUSES) {
+      return;
+    }
+  }
+  return product;
+};
+
+// segmentExpressionErrors returns the reasons an expression over numSegments
+// segments can't be saved
+export const segmentExpressionErrors = (
+  expression: SegmentExpression,
+  numSegments: number
 ) => {
-  const { sql, params } = compileInsert({
+  const errors: Array<string> = [];
+  const used = new Set(expressionSegments(expression));
+  for (const segment of used) {
+    if (!Number.isInteger(segment) || segment < 0 || segment >= numSegments) {
+      errors.push(`Segment #${segment + 1} doesn't exist`);
+    }
+  }
+  for (let i = 0; i < numSegments; i++) {
+    if (!used.has(i)) {
+      errors.push(`Segment #${i + 1} is not used by the targeting`);
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const clauses = segmentClauses(expression);
+  if (!clauses) {
+    errors.push(
+      `The targeting is too complex, it expands to more than ${MAX_SEGMENT_CLAUSES} alternatives`
+    );
+  } else if (clauses.length === 0) {
+    errors.push("The targeting can never match");
+  }
+  return errors;
+};
+
+// expressions are written with the 1-based numbers of the segments, e.g.
+// (#1 OR #2) AND NOT #3, NOT binds tighter than AND which binds tighter than
+// OR
+const EXPRESSION_TOKEN_REGEX = /\(|\)|#?\d+|[a-z]+|\S/gi;
+
+// parseSegmentExpression parses an expression written by formatSegmentExpression,
+// it returns null for an empty expression and throws on syntax errors
+export const parseSegmentExpression = (
+  text: string
+): SegmentExpression | null => {
+  const tokens = text.match(EXPRESSION_TOKEN_REGEX) || [];
+  if (tokens.length === 0) {
+    return null;
+  }
+  let pos = 0;
+  const peek = () => tokens[pos]?.toUpperCase();
+
+  const parseOr = (): SegmentExpression => {
+    const args = [parseAnd()];
+    while (peek() === "OR") {
+      pos++;
+      args.push(parseAnd());
+    }
+    return args.length === 1 ? args[0] : { or: args };
+  };
+
+  const parseAnd = (): SegmentExpression => {
+    const args = [parseUnary()];
+    while (peek() === "AND") {
+      pos++;
+      args.push(parseUnary());
+    }
+    return args.length === 1 ? args[0] : { and: args };
+  };
+
+  const parseUnary = (): SegmentExpression => {
+    const token = tokens[pos++];
+    if (token === undefined) {
+      throw new Error("The targeting ends unexpectedly");
+    }
+    if (token.toUpperCase() === "NOT") {
+      return { not: parseUnary() };
+    }
+    if (token === "(") {
+      const expression = parseOr();
+      if (tokens[pos++] !== ")") {
+        throw new Error("The targeting is missing a closing parenthesis");
+      }
+      return expression;
+    }
+    if (/^#?\d+$/.test(token)) {
+      return { segment: Number(token.replace("#", "")) - 1 };
+    }
+    throw new Error(`Unexpected "${token}" in the targeting`);
+  };
+
+  const expression = parseOr();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos]}" in the targeting`);
+  }
+  return expression;
+};
+
+const formatSegmentExpressionWithin = (
+  expression: SegmentExpression,
+  parentPrecedence: number
+): string => {
+  if ("segment" in expression) {
+    return `#${expression.segment + 1}`;
+  }
+  if ("not" in expression) {
+    return `NOT ${formatSegmentExpressionWithin(expression.not, 3)}`;
+  }
+  const [op, args, precedence] =
+    "and" in expression ? ["AND", expression.and, 2] : ["OR", expression.or, 1];
+  const text = args
+    .map((arg) => formatSegmentExpressionWithin(arg, precedence))
+    .join(` ${op} `);
+  return precedence < parentPrecedence ? `(${text})` : text;
+};
+
+export const formatSegmentExpression = (expression: SegmentExpression) =>
+  formatSegmentExpressionWithin(expression, 0);
+
+// toSegmentExpression checks the shape of a stored expression, its leaves may
+// be returned as strings
+const toSegmentExpression = (value: unknown): SegmentExpression | undefined => {
+  if (typeof value !== "object" || value === null) {
+    return;
+  }
+  const node = value as { [key: string]: unknown };
+  if ("segment" in node) {
+    const segment = Number(node.segment);
+    return Number.isFinite(segment) ? { segment } : undefined;
+  }
+  if ("not" in node) {
+    const arg = toSegmentExpression(node.not);
+    return arg && { not: arg };
+  }
+  const op = "and" in node ? "and" : "or";
+  const args = node[op];
+  if (!Array.isArray(args)) {
+    return;
+  }
+  const parsed = args.map(toSegmentExpression);
+  if (parsed.some((arg) => arg === undefined)) {
+    return;
+  }
+  const valid = parsed as Array<SegmentExpression>;
+  return op === "and" ? { and: valid } : { or: valid };
+};
+
+// the stored expression refers to segments by their position in segment_ids,
+// which differs from their index in the offer when segments are missing, see
+// getOffers
+const storedSegmentExpression: Codec<SegmentExpression> = {
+  name: "segment expression",
+  decode: (value) => {
+    const decoded = codecs.json.decode(value);
+    if ("error" in decoded) {
+      return decoded;
+    }
+    const expression = toSegmentExpression(decoded.value);
+    if (!expression) {
+      return { error: "expected a segment expression" };
+    }
+    return { value: expression };
+  },
+};
+
+// targetingColumns converts the targeting of the offer to the
+// segment_expression and segment_clauses columns
+const targetingColumns = ({ segments, targeting }: Offer) => {
+  if (!targeting) {
+    return [null, null];
+  }
+  const clauses = segmentClauses(
+    mapSegmentExpression(targeting, (i) => segmentId(segments[i]))
+  );
+  if (!clauses) {
+    throw new Error("The targeting of the offer is too complex");
+  }
+  return [JSON.stringify(targeting), JSON.stringify(clauses)];
+};
+
+const insertSegmentsChunks = (segments: Array<Segment>) =>
+  compileInsertChunks({
     table: "segments",
     options: { replace: true },
-    columns: ["segment_id", "valid_interval", "filter_kind", "filter_value"],
-    tuples: segments.map((segment) => [
-      segmentId(segment),
-      segment.interval,
-      segment.kind,
-      segment.value,
-    ]),
+    columns: [
+      "segment_id",
+      "valid_interval",
+      "filter_kind",
+      "filter_value",
+      "filter_threshold",
+    ],
+    tuples: segments.map((segment) => {
+      const { interval, kind, value, threshold } = segmentColumns(segment);
+      return [segmentId(segment), interval, kind, value, threshold];
+    }),
   });
 
-  await Exec(config, sql, ...params);
+export const createSegmentsStatements = (segments: Array<Segment>) =>
+  insertSegmentsChunks(segments).map(({ sql, params }) =>
+    execStatement(sql, ...params)
+  );
+
+export const createSegments = async (
+  config: ConnectionConfig,
+  segments: Array<Segment>,
+  progress?: SeedProgress
+) => {
+  let written = 0;
+  for (const { sql, params, tuples } of insertSegmentsChunks(segments)) {
+    await Exec(config, sql, ...params);
+    written += tuples;
+    progress?.("segments", written, segments.length);
+  }
 };
 
 export type Offer = {
   customer: string;
   segments: Array<Segment>;
 
+  // null targets the members of all the segments
+  targeting: SegmentExpression | null;
+
   // should be a WKT polygon
   notificationZone: string;
 
   notificationContent: string;
   notificationTarget: string;
   maximumBidCents: number;
+
+  // the flight of the offer, null leaves it open ended
+  startAt: Date | null;
+  endAt: Date | null;
+
+  // the offer is no longer matched once its spend reaches either budget,
+  // null for no cap
+  dailyBudgetCents: number | null;
+  totalBudgetCents: number | null;
+
+  // caps the notifications of this offer per subscriber, null for no cap
+  frequencyCap: FrequencyCap | null;
 };
 
-export const createOffers = async (
-  config: ConnectionConfig,
+const toDatetimeValue = (date: Date | null) =>
+  date ? toISOStringNoTZ(date) : null;
+
+export type OffersBatch = {
+  offers: number;
+  statements: Array<ExecStatement>;
+};
+
+// createOffersStatements splits the offers into chunks which fit in a single
+// request, each batch inserts a chunk of offers along with the segments they
+// reference
+export const createOffersStatements = (
   offers: Array<Offer>
-) => {
-  const stmt: InsertStatement = {
+): Array<OffersBatch> => {
+  const chunks = compileInsertChunks({
     table: "offers",
     options: { replace: true },
     columns: [
       "customer",
       "notification_zone",
       "segment_ids",
+      "segment_expression",
+      "segment_clauses",
       "notification_content",
       "notification_target",
       "maximum_bid_cents",
+      "start_at",
+      "end_at",
+      "daily_budget_cents",
+      "total_budget_cents",
+      "frequency_cap",
+      "frequency_cap_interval",
     ],
-    tuples: [],
-  };
-
-  let numOffers = 0;
-  let segments: Array<Segment> = [];
-
-  const commitBatch = async () => {
-    const { sql, params } = compileInsert(stmt);
-    await Promise.all([
-      Exec(config, sql, ...params),
-      createSegments(config, segments),
-    ]);
-
-    stmt.tuples = [];
-    segments = [];
-    numOffers = 0;
-  };
-
-  for (const offer of offers) {
-    stmt.tuples.push([
+    tuples: offers.map((offer) => [
       offer.customer,
       offer.notificationZone,
       JSON.stringify(offer.segments.map(segmentId)),
+      ...targetingColumns(offer),
       offer.notificationContent,
       offer.notificationTarget,
       offer.maximumBidCents,
-    ]);
+      toDatetimeValue(offer.startAt),
+      toDatetimeValue(offer.endAt),
+      offer.dailyBudgetCents,
+      offer.totalBudgetCents,
+      offer.frequencyCap?.maxNotifications ?? null,
+      offer.frequencyCap?.interval ?? null,
+    ]),
+  });
+
+  let start = 0;
+  return chunks.map(({ sql, params, tuples }) => {
+    const batch = offers.slice(start, start + tuples);
+    start += tuples;
+    return {
+      offers: tuples,
+      statements: [
+        execStatement(sql, ...params),
+        ...createSegmentsStatements(batch.flatMap((offer) => offer.segments)),
+      ],
+    };
+  });
+};
+
+// createOffers writes each batch of offers along with its segments in a
+// single transaction so that an offer never references missing segments
+export const createOffers = async (
+  config: ConnectionConfig,
+  offers: Array<Offer>,
+  progress?: SeedProgress
+) => {
+  let written = 0;
+  for (const batch of createOffersStatements(offers)) {
+    await Transaction(config, batch.statements);
+    written += batch.offers;
+    progress?.("offers", written, offers.length);
+  }
+};
+
+// createVendors writes the category of every vendor which purchase_category
+// segments are matched against
+export const createVendors = async (
+  config: ConnectionConfig,
+  progress?: SeedProgress
+) => {
+  const chunks = compileInsertChunks({
+    table: "vendors",
+    options: { replace: true },
+    columns: ["vendor", "category"],
+    tuples: VENDORS.map(({ vendor, category }) => [vendor, category]),
+  });
+  let written = 0;
+  for (const { sql, params, tuples } of chunks) {
+    await Exec(config, sql, ...params);
+    written += tuples;
+    progress?.("vendors", written, VENDORS.length);
+  }
+};
+
+// seedCity writes the vendors and then the offers of the city one chunk per
+// request, the city is written along with the first chunk. If a later chunk
+// fails the city is removed again so that it never shows up with only part of
+// its offers.
+export const seedCity = async (
+  config: ConnectionConfig,
+  city: CityConfig,
+  offers: Array<Offer>,
+  progress?: SeedProgress
+) => {
+  await createVendors(config, progress);
 
-    numOffers++;
-    segments = segments.concat(offer.segments);
+  const [first, ...rest] = createOffersStatements(offers);
+  await Transaction(config, [
+    createCityStatement(city),
+    ...(first ? first.statements : []),
+  ]);
+  progress?.("cities", 1, 1);
 
-    if (numOffers >= MAX_OFFERS_PER_BATCH) {
-      await commitBatch();
+  let written = first ? first.offers : 0;
+  progress?.("offers", written, offers.length);
+  try {
+    for (const batch of rest) {
+      await Transaction(config, batch.statements);
+      written += batch.offers;
+      progress?.("offers", written, offers.length);
     }
+  } catch (e) {
+    await removeCity(config, city.id);
+    throw e;
+  }
+};
+
+// identifiers of BIGINT columns are decimal strings, see parseJSON
+export type SavedOffer = Offer & {
+  offerId: string;
+
+  // paused offers are not matched
+  enabled: boolean;
+
+  spentCents: number;
+  spentTodayCents: number;
+
+  // ids of segments of the offer which no longer exist, they are left out of
+  // segments and the targeting refers to them past the end of segments
+  missingSegmentIds: Array<number>;
+};
+
+export type OfferStatus =
+  | "active"
+  | "paused"
+  | "scheduled"
+  | "ended"
+  | "over budget";
+
+// offerStatus mirrors the filter of match_offers_to_subscribers
+export const offerStatus = (
+  offer: SavedOffer,
+  now = new Date()
+): OfferStatus => {
+  if (!offer.enabled) {
+    return "paused";
+  }
+  if (offer.startAt && offer.startAt > now) {
+    return "scheduled";
+  }
+  if (offer.endAt && offer.endAt <= now) {
+    return "ended";
+  }
+  if (
+    (offer.dailyBudgetCents !== null &&
+      offer.spentTodayCents >= offer.dailyBudgetCents) ||
+    (offer.totalBudgetCents !== null &&
+      offer.spentCents >= offer.totalBudgetCents)
+  ) {
+    return "over budget";
+  }
+  return "active";
+};
+
+const isPositiveBudget = (cents: number | null) =>
+  cents === null || (Number.isInteger(cents) && cents > 0);
+
+// open location codes are stored without the "+" separator, see randomSegment
+const OLC_8_REGEX = /^[23456789CFGHJMPQRVWX]{8}$/;
+
+const segmentErrors = (segment: Segment) => {
+  const { kind, value, interval } = segment;
+  if (!value.trim()) {
+    return [`A ${kind} segment needs a value`];
+  }
+  if (kind.startsWith("olc_8") && !OLC_8_REGEX.test(value)) {
+    return [`${value} is not an 8 character open location code`];
+  }
+  const { threshold } = segmentColumns(segment);
+  if (
+    (kind === "olc_8_visits" || kind === "olc_8_dwell") &&
+    !(Number.isInteger(threshold) && threshold > 0)
+  ) {
+    return [`The threshold of a ${kind} segment must be a positive integer`];
+  }
+  if (threshold > INTERVAL_MINUTES[interval]) {
+    return [`The threshold of a ${kind} segment can't exceed a ${interval}`];
+  }
+  return [];
+};
+
+// offerErrors returns the reasons an offer can't be saved
+export const offerErrors = (offer: Offer) => {
+  const errors: Array<string> = [];
+  if (!offer.customer.trim()) {
+    errors.push("Customer is required");
+  }
+  if (!offer.notificationContent.trim()) {
+    errors.push("Notification content is required");
   }
+  if (!offer.notificationTarget.trim()) {
+    errors.push("Notification target is required");
+  }
+  if (!Number.isInteger(offer.maximumBidCents) || offer.maximumBidCents <= 0) {
+    errors.push("Maximum bid must be a positive number of cents");
+  }
+  if (offer.segments.length === 0) {
+    errors.push("An offer needs at least one segment");
+  }
+  errors.push(...offer.segments.flatMap(segmentErrors));
+  if (offer.targeting) {
+    errors.push(
+      ...segmentExpressionErrors(offer.targeting, offer.segments.length)
+    );
+  }
+  if (!offer.notificationZone) {
+    errors.push("Draw the notification zone on the map");
+  }
+  if (offer.startAt && offer.endAt && offer.endAt <= offer.startAt) {
+    errors.push("The flight must end after it starts");
+  }
+  if (!isPositiveBudget(offer.dailyBudgetCents)) {
+    errors.push("Daily budget must be a positive number of cents");
+  }
+  if (!isPositiveBudget(offer.totalBudgetCents)) {
+    errors.push("Total budget must be a positive number of cents");
+  }
+  if (
+    offer.dailyBudgetCents !== null &&
+    offer.totalBudgetCents !== null &&
+    offer.dailyBudgetCents > offer.totalBudgetCents
+  ) {
+    errors.push("Daily budget can't be larger than the total budget");
+  }
+  errors.push(...frequencyCapErrors("Frequency cap", offer.frequencyCap));
+  return errors;
+};
+
+const OfferRow = rowSchema("getOffers", {
+  offerId: codecs.id,
+  customer: codecs.string,
+  notificationZone: codecs.wkt,
+  segmentIds: codecs.json,
+  segmentExpression: codecs.nullable(storedSegmentExpression),
+  notificationContent: codecs.string,
+  notificationTarget: codecs.string,
+  maximumBidCents: codecs.int,
+  startAt: codecs.nullable(codecs.datetime),
+  endAt: codecs.nullable(codecs.datetime),
+  dailyBudgetCents: codecs.nullable(codecs.int),
+  totalBudgetCents: codecs.nullable(codecs.int),
+  frequencyCap: codecs.nullable(codecs.int),
+  frequencyCapInterval: codecs.nullable(codecs.oneOf(...FrequencyCapIntervals)),
+  enabled: codecs.boolean,
+  spentCents: codecs.int,
+  spentTodayCents: codecs.int,
+});
 
-  if (numOffers > 0) {
-    await commitBatch();
+const SegmentRow = rowSchema("getOfferSegments", {
+  segmentId: codecs.int,
+  interval: codecs.oneOf(...SegmentIntervals),
+  kind: codecs.oneOf(...SegmentKinds),
+  value: codecs.string,
+  threshold: codecs.int,
+});
+
+// getOffers returns the most recently created offers along with their
+// segments and spend, optionally filtered by a customer prefix
+export const getOffers = async (
+  config: ConnectionConfig,
+  customerPrefix: string,
+  limit: number
+): Promise<Array<SavedOffer>> => {
+  const rows = await Query(
+    config,
+    OfferRow,
+    `
+      SELECT
+        offers.offer_id AS offerId,
+        customer,
+        notification_zone AS notificationZone,
+        segment_ids AS segmentIds,
+        segment_expression AS segmentExpression,
+        notification_content AS notificationContent,
+        notification_target AS notificationTarget,
+        maximum_bid_cents AS maximumBidCents,
+        start_at AS startAt,
+        end_at AS endAt,
+        daily_budget_cents AS dailyBudgetCents,
+        total_budget_cents AS totalBudgetCents,
+        frequency_cap AS frequencyCap,
+        frequency_cap_interval AS frequencyCapInterval,
+        enabled,
+        IFNULL(spend.spentCents, 0) AS spentCents,
+        IFNULL(spend.spentTodayCents, 0) AS spentTodayCents
+      FROM offers
+      LEFT JOIN (
+        SELECT
+          offer_id,
+          SUM(spent_cents) AS spentCents,
+          SUM(IF(spend_date = CURRENT_DATE(), spent_cents, 0)) AS spentTodayCents
+        FROM offer_spend
+        GROUP BY offer_id
+      ) spend ON offers.offer_id = spend.offer_id
+      WHERE customer LIKE ?
+      ORDER BY offers.offer_id DESC
+      LIMIT ?
+    `,
+    `${customerPrefix.replace(/[\\%_]/g, "\\$&")}%`,
+    limit
+  );
+
+  const offers = rows.map(
+    ({ segmentIds, frequencyCap, frequencyCapInterval, ...row }) => ({
+      ...row,
+      frequencyCap: toFrequencyCap(frequencyCap, frequencyCapInterval),
+      segmentIds: Array.isArray(segmentIds) ? segmentIds.map(Number) : [],
+    })
+  );
+  const ids = [...new Set(offers.flatMap((o) => o.segmentIds))];
+  if (ids.length === 0) {
+    return offers.map(({ segmentIds: _, segmentExpression: __, ...offer }) => ({
+      ...offer,
+      segments: [],
+      targeting: null,
+      missingSegmentIds: [],
+    }));
   }
+
+  const segmentRows = await Query(
+    config,
+    SegmentRow,
+    `
+      SELECT
+        segment_id AS segmentId,
+        valid_interval AS \`interval\`,
+        filter_kind AS kind,
+        filter_value AS value,
+        filter_threshold AS threshold
+      FROM segments
+      WHERE JSON_ARRAY_CONTAINS_DOUBLE(?, segment_id)
+    `,
+    JSON.stringify(ids)
+  );
+  const segments = new Map(
+    segmentRows.map(({ segmentId, ...columns }) => [
+      segmentId,
+      toSegment(columns),
+    ])
+  );
+
+  return offers.map(({ segmentIds, segmentExpression, ...offer }) => {
+    const found = segmentIds.filter((id) => segments.has(id));
+    const missing = segmentIds.filter((id) => !segments.has(id));
+
+    // renumber the positions in segment_ids to indexes in segments, missing
+    // segments keep their order after the found ones
+    const indexes: Array<number> = [];
+    let numFound = 0;
+    let numMissing = 0;
+    for (const id of segmentIds) {
+      indexes.push(segments.has(id) ? numFound++ : found.length + numMissing++);
+    }
+
+    return {
+      ...offer,
+      segments: found.flatMap((id) => segments.get(id) || []),
+      targeting:
+        segmentExpression &&
+        mapSegmentExpression(segmentExpression, (i) => indexes[i] ?? -1),
+      missingSegmentIds: missing,
+    };
+  });
 };
 
+// updateOffer replaces every field of an existing offer, the segments are
+// written in the same transaction as in createOffers
+export const updateOffer = (
+  config: ConnectionConfig,
+  offerId: string,
+  offer: Offer
+) =>
+  Transaction(config, [
+    execStatement(
+      `
+        UPDATE offers SET
+          customer = ?,
+          notification_zone = ?,
+          segment_ids = ?,
+          segment_expression = ?,
+          segment_clauses = ?,
+          notification_content = ?,
+          notification_target = ?,
+          maximum_bid_cents = ?,
+          start_at = ?,
+          end_at = ?,
+          daily_budget_cents = ?,
+          total_budget_cents = ?,
+          frequency_cap = ?,
+          frequency_cap_interval = ?
+        WHERE offer_id = ?
+      `,
+      offer.customer,
+      offer.notificationZone,
+      JSON.stringify(offer.segments.map(segmentId)),
+      ...targetingColumns(offer),
+      offer.notificationContent,
+      offer.notificationTarget,
+      offer.maximumBidCents,
+      toDatetimeValue(offer.startAt),
+      toDatetimeValue(offer.endAt),
+      offer.dailyBudgetCents,
+      offer.totalBudgetCents,
+      offer.frequencyCap?.maxNotifications ?? null,
+      offer.frequencyCap?.interval ?? null,
+      offerId
+    ),
+    ...createSegmentsStatements(offer.segments),
+  ]);
+
+// setOfferEnabled pauses or resumes an offer, its flight and budgets still
+// apply once resumed
+export const setOfferEnabled = (
+  config: ConnectionConfig,
+  offerId: string,
+  enabled: boolean
+) =>
+  Exec(
+    config,
+    "UPDATE offers SET enabled = ? WHERE offer_id = ?",
+    enabled,
+    offerId
+  );
+
+// deleteOffer removes the offer along with its spend, its segments are kept
+// as other offers may reference them
+export const deleteOffer = (config: ConnectionConfig, offerId: string) =>
+  Transaction(config, [
+    execStatement("DELETE FROM offers WHERE offer_id = ?", offerId),
+    execStatement("DELETE FROM offer_spend WHERE offer_id = ?", offerId),
+  ]);
+
 const randomSegmentKind = () => randomChoice(SegmentKinds);
 const randomSegmentInterval = () => randomChoice(SegmentIntervals);
 
-const vendorDomain = ({ vendor, tld }: (typeof VENDORS)[number]) =>
+// visits and dwell times are counted within an hour or a day, shorter
+// intervals leave no room for them
+const randomThresholdInterval = () => randomChoice(<const>["hour", "day"]);
+
+export const vendorDomain = ({ vendor, tld }: (typeof VENDORS)[number]) =>
   `${vendor.toLowerCase()}.${tld}`;
 
-const randomPointInCity = (city: CityConfig): Point => {
+// A city offset is a position relative to the center of a city in units of
+// its diameter, which is how the location streams place subscribers in every
+// city at once (see process_locations).
+export type CityOffset = [number, number];
+
+export const randomCityOffset = (): CityOffset => [
+  randomFloatInRange(-0.5, 0.5),
+  randomFloatInRange(-0.5, 0.5),
+];
+
+export const cityOffsetToPoint = (
+  city: CityConfig,
+  [offsetX, offsetY]: CityOffset
+): Point => {
   const [lon, lat] = city.lonlat;
-  const radius = city.diameter / 2;
-  const [minLon, maxLon] = [lon - radius, lon + radius];
-  const [minLat, maxLat] = [lat - radius, lat + radius];
-  return [
-    randomFloatInRange(minLon, maxLon),
-    randomFloatInRange(minLat, maxLat),
-  ];
+  return [lon + offsetX * city.diameter, lat + offsetY * city.diameter];
+};
+
+const randomPointInCity = (city: CityConfig): Point =>
+  cityOffsetToPoint(city, randomCityOffset());
+
+const randomOLC8 = (city: CityConfig) => {
+  const [lon, lat] = randomPointInCity(city);
+  return OpenLocationCode.encode(lat, lon, 8).substring(0, 8);
 };
 
 export const randomSegment = (city: CityConfig, vendor: Vendor): Segment => {
   const kind = randomSegmentKind();
   const interval = randomSegmentInterval();
   switch (kind) {
-    case "olc_8": {
-      const [lon, lat] = randomPointInCity(city);
-      const olc = OpenLocationCode.encode(lat, lon, 8).substring(0, 8);
+    case "olc_8":
       return {
         kind,
         interval,
-        value: olc,
+        value: randomOLC8(city),
+      };
+
+    case "olc_8_visits":
+      return {
+        kind,
+        interval: randomThresholdInterval(),
+        value: randomOLC8(city),
+        visits: randomIntegerInRange(2, 6),
+      };
+
+    case "olc_8_dwell":
+      return {
+        kind,
+        interval: randomThresholdInterval(),
+        value: randomOLC8(city),
+        dwellMinutes: randomIntegerInRange(5, 31),
       };
-    }
 
     case "purchase":
+    case "no_purchase":
       return {
         kind,
         interval,
         value: vendor.vendor,
       };
 
+    case "purchase_category":
+      return {
+        kind,
+        interval,
+        value: vendor.category,
+      };
+
     case "request":
       return {
         kind,
@@ -233,6 +1146,12 @@ export const randomOffer = (city: CityConfig): Offer => {
     notificationContent,
     notificationTarget,
     maximumBidCents: randomIntegerInRange(2, 15),
+    startAt: null,
+    endAt: null,
+    dailyBudgetCents: null,
+    totalBudgetCents: null,
+    frequencyCap: null,
+    targeting: null,
   };
 };
 
@@ -0,0 +1,366 @@
+import { ConnectionConfig, Exec, Query } from "@/data/client";
+import { codecs, rowSchema } from "@/data/decode";
+import { stringifyJSON } from "@/data/json";
+import {
+  and,
+  col,
+  compileSelect,
+  eq,
+  expr,
+  gt,
+  ident,
+  inList,
+  ne,
+  SelectColumn,
+  SelectStatement,
+} from "@/data/sqlgen";
+
+export type PipelineName = "locations" | "requests" | "purchases";
+export const pipelineNames: Array<PipelineName> = [
+  "locations",
+  "requests",
+  "purchases",
+];
+
+// throughput is computed from the batches which started in this window
+const THROUGHPUT_WINDOW_SECONDS = 5 * 60;
+
+export type PipelineSummary = {
+  pipelineName: PipelineName;
+  state: string;
+  batches: number;
+  failedBatches: number;
+  rowsStreamed: number;
+  mbStreamed: number;
+
+  // seconds since the oldest batch in the throughput window started
+  windowSeconds: number;
+  loadedFiles: number;
+  totalFiles: number;
+  skippedFiles: number;
+  errors: number;
+};
+
+const PipelineSummaryRow = rowSchema("pipelineSummaries", {
+  pipelineName: codecs.oneOf(...pipelineNames),
+  state: codecs.string,
+  batches: codecs.int,
+  failedBatches: codecs.int,
+  rowsStreamed: codecs.number,
+  mbStreamed: codecs.number,
+  windowSeconds: codecs.number,
+  loadedFiles: codecs.int,
+  totalFiles: codecs.int,
+  skippedFiles: codecs.int,
+  errors: codecs.int,
+});
+
+const inDatabase = (database: string, alias?: string) =>
+  eq(alias ? `${alias}.database_name` : "database_name", database);
+
+// orZero selects an aggregate computed by a LEFT JOINed subquery
+const orZero = (column: string): SelectColumn => [
+  expr`IFNULL(${col(column)}, 0)`,
+  column.split(".")[1],
+];
+
+export const pipelineSummaries = (config: ConnectionConfig) => {
+  const { database } = config;
+
+  const batches: SelectStatement = {
+    columns: [
+      "pipeline_name",
+      [expr`COUNT(*)`, "batches"],
+      [expr`SUM(batch_state = 'Failed')`, "failedBatches"],
+      [expr`SUM(rows_streamed)`, "rowsStreamed"],
+      [expr`SUM(mb_streamed)`, "mbStreamed"],
+      [
+        expr`TIMESTAMPDIFF(MICROSECOND, MIN(start_time), NOW(6)) / 1e6`,
+        "windowSeconds",
+      ],
+    ],
+    from: "information_schema.pipelines_batches_summary",
+    where: and(
+      inDatabase(database),
+      gt(
+        "start_time",
+        expr`NOW(6) - INTERVAL ${THROUGHPUT_WINDOW_SECONDS} SECOND`
+      )
+    ),
+    groupBy: ["pipeline_name"],
+  };
+
+  const files: SelectStatement = {
+    columns: [
+      "pipeline_name",
+      [expr`SUM(file_state = 'Loaded')`, "loadedFiles"],
+      [expr`COUNT(*)`, "totalFiles"],
+      [expr`SUM(file_state = 'Skipped')`, "skippedFiles"],
+    ],
+    from: "information_schema.pipelines_files",
+    where: inDatabase(database),
+    groupBy: ["pipeline_name"],
+  };
+
+  const errors: SelectStatement = {
+    columns: ["pipeline_name", [expr`COUNT(*)`, "errors"]],
+    from: "information_schema.pipelines_errors",
+    where: inDatabase(database),
+    groupBy: ["pipeline_name"],
+  };
+
+  const joinOn = (alias: string) =>
+    eq(`${alias}.pipeline_name`, col("p.pipeline_name"));
+
+  const { sql, params } = compileSelect({
+    columns: [
+      ["p.pipeline_name", "pipelineName"],
+      ["p.state", "state"],
+      orZero("b.batches"),
+      orZero("b.failedBatches"),
+      orZero("b.rowsStreamed"),
+      orZero("b.mbStreamed"),
+      orZero("b.windowSeconds"),
+      orZero("f.loadedFiles"),
+      orZero("f.totalFiles"),
+      orZero("f.skippedFiles"),
+      orZero("e.errors"),
+    ],
+    from: { source: "information_schema.pipelines", alias: "p" },
+    joins: [
+      { kind: "LEFT", from: { source: batches, alias: "b" }, on: joinOn("b") },
+      { kind: "LEFT", from: { source: files, alias: "f" }, on: joinOn("f") },
+      { kind: "LEFT", from: { source: errors, alias: "e" }, on: joinOn("e") },
+    ],
+    where: and(
+      inDatabase(database, "p"),
+      inList("p.pipeline_name", pipelineNames)
+    ),
+    orderBy: [{ column: "pipelineName" }],
+  });
+
+  return Query(config, PipelineSummaryRow, sql, ...params);
+};
+
+export type PipelineBatch = {
+  batchId: number;
+  state: string;
+  startTime: string;
+  batchTime: number;
+  rowsStreamed: number;
+  rowsPerSec: number;
+  mbPerSec: number;
+};
+
+const PipelineBatchRow = rowSchema("pipelineBatches", {
+  batchId: codecs.int,
+  state: codecs.string,
+  startTime: codecs.string,
+  batchTime: codecs.number,
+  rowsStreamed: codecs.number,
+  rowsPerSec: codecs.number,
+  mbPerSec: codecs.number,
+});
+
+export const pipelineBatches = (
+  config: ConnectionConfig,
+  name: PipelineName,
+  limit: number
+) => {
+  const { sql, params } = compileSelect({
+    columns: [
+      ["batch_id", "batchId"],
+      ["batch_state", "state"],
+      [expr`DATE_FORMAT(start_time, '%Y-%m-%d %H:%i:%s')`, "startTime"],
+      [expr`IFNULL(batch_time, 0)`, "batchTime"],
+      [expr`IFNULL(rows_streamed, 0)`, "rowsStreamed"],
+      [expr`IFNULL(rows_per_sec, 0)`, "rowsPerSec"],
+      [expr`IFNULL(mb_per_sec, 0)`, "mbPerSec"],
+    ],
+    from: "information_schema.pipelines_batches_summary",
+    where: and(inDatabase(config.database), eq("pipeline_name", name)),
+    orderBy: [{ column: "batch_id", direction: "DESC" }],
+    limit,
+  });
+
+  return Query(config, PipelineBatchRow, sql, ...params);
+};
+
+export type PipelineFile = {
+  fileName: string;
+  fileState: string;
+  errors: number;
+  lastError: string | null;
+};
+
+const PipelineFileRow = rowSchema("failedPipelineFiles", {
+  fileName: codecs.string,
+  fileState: codecs.string,
+  errors: codecs.int,
+  lastError: codecs.nullable(codecs.string),
+});
+
+// failedPipelineFiles returns the files which were skipped or which caused
+// errors, file sources report the file name as the partition of a batch
+export const failedPipelineFiles = async (
+  config: ConnectionConfig,
+  name: PipelineName
+) => {
+  const { sql, params } = compileSelect({
+    columns: [
+      ["f.file_name", "fileName"],
+      ["f.file_state", "fileState"],
+      [expr`COUNT(e.error_id)`, "errors"],
+      [expr`MAX(e.error_message)`, "lastError"],
+    ],
+    from: { source: "information_schema.pipelines_files", alias: "f" },
+    joins: [
+      {
+        kind: "LEFT",
+        from: { source: "information_schema.pipelines_errors", alias: "e" },
+        on: and(
+          eq("e.database_name", col("f.database_name")),
+          eq("e.pipeline_name", col("f.pipeline_name")),
+          eq("e.batch_source_partition_id", col("f.file_name"))
+        ),
+      },
+    ],
+    where: and(
+      inDatabase(config.database, "f"),
+      eq("f.pipeline_name", name),
+      ne("f.file_state", "Loaded")
+    ),
+    groupBy: ["f.file_name", "f.file_state"],
+    orderBy: [{ column: "fileName" }],
+  });
+
+  const files = await Query(config, PipelineFileRow, sql, ...params);
+  return files.filter((f) => f.fileState === "Skipped" || f.errors > 0);
+};
+
+export type PipelineError = {
+  errorTime: string;
+  errorType: string;
+  errorCode: number;
+  errorMessage: string;
+  source: string | null;
+  batchId: number | null;
+};
+
+const PipelineErrorRow = rowSchema("pipelineErrors", {
+  errorTime: codecs.string,
+  errorType: codecs.string,
+  errorCode: codecs.int,
+  errorMessage: codecs.string,
+  source: codecs.nullable(codecs.string),
+  batchId: codecs.nullable(codecs.int),
+});
+
+export const pipelineErrors = (
+  config: ConnectionConfig,
+  name: PipelineName,
+  limit: number
+) => {
+  const { sql, params } = compileSelect({
+    columns: [
+      [
+        expr`DATE_FORMAT(FROM_UNIXTIME(error_unix_timestamp), '%Y-%m-%d %H:%i:%s')`,
+        "errorTime",
+      ],
+      ["error_type", "errorType"],
+      ["error_code", "errorCode"],
+      ["error_message", "errorMessage"],
+      ["batch_source_partition_id", "source"],
+      ["batch_id", "batchId"],
+    ],
+    from: "information_schema.pipelines_errors",
+    where: and(inDatabase(config.database), eq("pipeline_name", name)),
+    orderBy: [{ column: "error_unix_timestamp", direction: "DESC" }],
+    limit,
+  });
+
+  return Query(config, PipelineErrorRow, sql, ...params);
+};
+
+// Every action taken on a pipeline, whether from the pipeline console or by
+// the simulation monitor, is kept in memory so that the console can show why
+// a pipeline was restarted.
+
+export type PipelineAction = "start" | "stop" | "skip file" | "reset offsets";
+
+export type PipelineEvent = {
+  id: number;
+  at: Date;
+  pipeline: string;
+  action: PipelineAction;
+  reason: string;
+};
+
+// only the most recent events are kept in memory
+const MAX_PIPELINE_EVENTS = 200;
+
+let nextEventID = 1;
+let events: Array<PipelineEvent> = [];
+
+const recordPipelineEvent = (
+  pipeline: string,
+  action: PipelineAction,
+  reason: string
+) => {
+  events.push({ id: nextEventID++, at: new Date(), pipeline, action, reason });
+  if (events.length > MAX_PIPELINE_EVENTS) {
+    events = events.slice(-MAX_PIPELINE_EVENTS);
+  }
+};
+
+// recentPipelineEvents returns the recorded events, newest first
+export const recentPipelineEvents = (): Array<PipelineEvent> =>
+  [...events].reverse();
+
+export const startPipeline = async (
+  config: ConnectionConfig,
+  name: string,
+  reason: string
+) => {
+  await Exec(config, `START PIPELINE IF NOT RUNNING ${ident(name)}`);
+  recordPipelineEvent(name, "start", reason);
+};
+
+export const stopPipeline = async (
+  config: ConnectionConfig,
+  name: string,
+  reason: string
+) => {
+  await Exec(config, `STOP PIPELINE IF RUNNING ${ident(name)}`);
+  recordPipelineEvent(name, "stop", reason);
+};
+
+// resetPipelineOffsets makes the pipeline load every file again and forgets
+// the files which no longer exist in the source
+export const resetPipelineOffsets = async (
+  config: ConnectionConfig,
+  name: string,
+  reason: string
+) => {
+  await Exec(
+    config,
+    `ALTER PIPELINE ${ident(name)} SET OFFSETS EARLIEST DROP ORPHAN FILES`
+  );
+  recordPipelineEvent(name, "reset offsets", reason);
+};
+
+// skipPipelineFile marks a file as loaded without loading it, file sources
+// track each file as a partition whose offset is 1 once it has been loaded
+export const skipPipelineFile = async (
+  config: ConnectionConfig,
+  name: string,
+  fileName: string,
+  reason: string
+) => {
+  await Exec(
+    config,
+    `ALTER PIPELINE ${ident(name)} SET OFFSETS ?`,
+    stringifyJSON({ [fileName]: 1 })
+  );
+  recordPipelineEvent(name, "skip file", `${reason}: ${fileName}`);
+};
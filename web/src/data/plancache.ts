@@ -0,0 +1,315 @@
+import { ConnectionConfig, Exec, Query, SQLError } from "@/data/client";
+import { codecs, rowSchema } from "@/data/decode";
+import { Timeseries } from "@/data/timeseries";
+
+// The plan cache monitor samples information_schema.plancache for the
+// statements the simulator depends on. The samples are kept in memory, which
+// is enough to compare the recent latency of a plan with the best latency
+// observed for the same statement and to chart it over time.
+
+export type TrackedQueryName = "matching" | "segments" | "analytics";
+
+export const trackedQueries: Array<{
+  name: TrackedQueryName;
+  label: string;
+
+  // LIKE pattern matching the query text of the statement's plans
+  pattern: string;
+}> = [
+  {
+    name: "matching",
+    label: "match_offers_to_subscribers",
+    pattern: "%match_offers_to_subscribers%",
+  },
+  {
+    name: "segments",
+    label: "update_segments",
+    pattern: "%dynamic_subscriber_segments%",
+  },
+  {
+    // every analytics query is built on the conversion metrics
+    name: "analytics",
+    label: "analytics",
+    pattern: "%offer_notification%",
+  },
+];
+
+// a plan is regressed once its recent latency is this many times the best
+// recent latency observed for the same statement
+const REGRESSION_FACTOR = 2;
+
+// recent latency is measured over this window, and only once the plan ran
+// at least MIN_RECENT_EXECUTIONS times in it
+const RECENT_WINDOW_MS = 5 * 60 * 1000;
+const MIN_RECENT_EXECUTIONS = 3;
+
+// samples and latency points older than this are discarded
+const HISTORY_MS = 30 * 60 * 1000;
+
+export type PlanHealth = "healthy" | "regressed" | "stale" | "idle";
+
+export type PlanStatus = {
+  planId: string;
+  queryName: TrackedQueryName;
+  queryText: string;
+  warnings: string;
+  executions: number;
+  avgLatencyMs: number;
+
+  // null if the plan did not run often enough in the recent window
+  recentLatencyMs: number | null;
+  health: PlanHealth;
+  reason: string;
+};
+
+const PlanRow = rowSchema("planCacheSample", {
+  planId: codecs.id,
+  queryName: codecs.oneOf(...trackedQueries.map((q) => q.name)),
+  queryText: codecs.string,
+  executions: codecs.int,
+  executionTimeMs: codecs.number,
+  warnings: codecs.string,
+});
+
+type PlanSample = { at: number; executions: number; executionTimeMs: number };
+
+const samples = new Map<string, Array<PlanSample>>();
+const baselines: { [name in TrackedQueryName]?: number } = {};
+const latencySeries: { [name in TrackedQueryName]: Timeseries } = {
+  matching: [],
+  segments: [],
+  analytics: [],
+};
+
+// recentLatency returns the average latency of the executions in the recent
+// window
+const recentLatency = (history: Array<PlanSample>, now: number) => {
+  const first = history.find((s) => now - s.at <= RECENT_WINDOW_MS);
+  const last = history[history.length - 1];
+  if (!first) {
+    return null;
+  }
+  const executions = last.executions - first.executions;
+  if (executions < MIN_RECENT_EXECUTIONS) {
+    return null;
+  }
+  return (last.executionTimeMs - first.executionTimeMs) / executions;
+};
+
+const planHealth = (
+  queryName: TrackedQueryName,
+  warnings: string,
+  recentLatencyMs: number | null
+): { health: PlanHealth; reason: string } => {
+  const baseline = baselines[queryName];
+  if (
+    recentLatencyMs !== null &&
+    baseline !== undefined &&
+    recentLatencyMs > baseline * REGRESSION_FACTOR
+  ) {
+    return {
+      health: "regressed",
+      reason: `${(recentLatencyMs / baseline).toFixed(
+        1
+      )}x slower than the best plan for this statement`,
+    };
+  }
+  if (warnings) {
+    return { health: "stale", reason: warnings };
+  }
+  if (recentLatencyMs === null) {
+    return { health: "idle", reason: "not executed recently" };
+  }
+  return { health: "healthy", reason: "" };
+};
+
+// recordLatencyPoint adds the average latency of every statement since the
+// previous sample to its series, plans seen for the first time are skipped
+// as their counters go back to when they were compiled
+const recordLatencyPoint = (
+  rows: Array<{ planId: string; queryName: TrackedQueryName }>,
+  previous: Map<string, PlanSample>,
+  now: number
+) => {
+  for (const { name } of trackedQueries) {
+    let executions = 0;
+    let executionTimeMs = 0;
+    for (const row of rows.filter((r) => r.queryName === name)) {
+      const before = previous.get(row.planId);
+      const history = samples.get(row.planId);
+      if (before && history) {
+        const after = history[history.length - 1];
+        executions += after.executions - before.executions;
+        executionTimeMs += after.executionTimeMs - before.executionTimeMs;
+      }
+    }
+    if (executions > 0) {
+      const series = latencySeries[name];
+      series.push([new Date(now), executionTimeMs / executions]);
+      while (series.length > 0 && now - series[0][0].getTime() > HISTORY_MS) {
+        series.shift();
+      }
+    }
+  }
+};
+
+// samplePlanCache records the counters of the tracked plans and returns
+// their health, plans which are no longer cached are forgotten
+export const samplePlanCache = async (
+  config: ConnectionConfig
+): Promise<Array<PlanStatus>> => {
+  const cases = trackedQueries
+    .map(() => "WHEN query_text LIKE ? THEN ?")
+    .join(" ");
+  const rows = await Query(
+    config,
+    PlanRow,
+    `
+      SELECT * FROM (
+        SELECT
+          plan_id AS planId,
+          CASE ${cases} END AS queryName,
+          query_text AS queryText,
+          commits + rollbacks AS executions,
+          execution_time AS executionTimeMs,
+          IFNULL(plan_warnings, "") AS warnings
+        FROM information_schema.plancache
+        WHERE database_name = ?
+      ) plans
+      WHERE queryName IS NOT NULL
+      ORDER BY queryName, planId
+    `,
+    ...trackedQueries.flatMap((q) => [q.pattern, q.name]),
+    config.database
+  );
+
+  const now = Date.now();
+  const previous = new Map<string, PlanSample>();
+  for (const [planId, history] of samples) {
+    previous.set(planId, history[history.length - 1]);
+  }
+
+  const cached = new Set(rows.map((r) => r.planId));
+  for (const planId of samples.keys()) {
+    if (!cached.has(planId)) {
+      samples.delete(planId);
+    }
+  }
+
+  const statuses = rows.map((row) => {
+    const history = (samples.get(row.planId) || []).filter(
+      (s) => now - s.at <= HISTORY_MS
+    );
+    history.push({
+      at: now,
+      executions: row.executions,
+      executionTimeMs: row.executionTimeMs,
+    });
+    samples.set(row.planId, history);
+
+    const recentLatencyMs = recentLatency(history, now);
+    if (recentLatencyMs !== null) {
+      baselines[row.queryName] = Math.min(
+        baselines[row.queryName] ?? recentLatencyMs,
+        recentLatencyMs
+      );
+    }
+
+    return {
+      planId: row.planId,
+      queryName: row.queryName,
+      queryText: row.queryText,
+      warnings: row.warnings,
+      executions: row.executions,
+      avgLatencyMs:
+        row.executions > 0 ? row.executionTimeMs / row.executions : 0,
+      recentLatencyMs,
+      ...planHealth(row.queryName, row.warnings, recentLatencyMs),
+    };
+  });
+
+  recordLatencyPoint(rows, previous, now);
+  return statuses;
+};
+
+// planLatencySeries returns the average latency of every tracked statement
+// between consecutive samples
+export const planLatencySeries = () =>
+  Object.fromEntries(
+    trackedQueries.map(({ name }) => [name, [...latencySeries[name]]])
+  ) as { [name in TrackedQueryName]: Timeseries };
+
+// Every plan dropped by the monitor or from the query inspector is kept in
+// memory along with the reason.
+
+export type PlanDrop = {
+  id: number;
+  at: Date;
+  planId: string;
+  queryText: string;
+  reason: string;
+};
+
+// only the most recent drops are kept in memory
+const MAX_PLAN_DROPS = 200;
+
+let nextDropID = 1;
+let drops: Array<PlanDrop> = [];
+
+const recordPlanDrop = (planId: string, queryText: string, reason: string) => {
+  drops.push({ id: nextDropID++, at: new Date(), planId, queryText, reason });
+  if (drops.length > MAX_PLAN_DROPS) {
+    drops = drops.slice(-MAX_PLAN_DROPS);
+  }
+};
+
+// recentPlanDrops returns the recorded drops, newest first
+export const recentPlanDrops = (): Array<PlanDrop> => [...drops].reverse();
+
+// dropPlan removes a plan from the plan cache, the statement is optimized
+// again the next time it runs. Plans which are already gone are ignored.
+export const dropPlan = async (
+  config: ConnectionConfig,
+  planId: string,
+  queryText: string,
+  reason: string
+) => {
+  try {
+    await Exec(config, `DROP ${planId} FROM PLANCACHE`);
+  } catch (e) {
+    if (!(e instanceof SQLError && e.isPlanMissing())) {
+      throw e;
+    }
+    return;
+  }
+  samples.delete(planId);
+  recordPlanDrop(planId, queryText, reason);
+};
+
+const WarnedPlanRow = rowSchema("checkPlans", {
+  planId: codecs.id,
+  queryText: codecs.string,
+});
+
+// checkPlans drops plans which were compiled while the tables were empty,
+// returns true if any plans were dropped
+export const checkPlans = async (config: ConnectionConfig) => {
+  const badPlans = await Query(
+    config,
+    WarnedPlanRow,
+    `
+      SELECT plan_id AS planId, query_text AS queryText
+      FROM information_schema.plancache
+      WHERE
+        plan_warnings LIKE "%empty tables%"
+    `
+  );
+
+  await Promise.all(
+    badPlans.map(({ planId, queryText }) =>
+      dropPlan(config, planId, queryText, "compiled against empty tables")
+    )
+  );
+
+  return badPlans.length > 0;
+};
@@ -5,30 +5,63 @@ import {
   ConnectionConfigOptionalDatabase,
   Exec,
   ExecNoDb,
+  PagedQuery,
   Query,
   QueryNoDb,
   QueryOne,
   QueryTuples,
   SQLError,
 } from "@/data/client";
+import { codecs, rowSchema } from "@/data/decode";
+import { markMigrationsApplied } from "@/data/migrations";
 import {
   CityConfig,
   createCity,
-  createOffers,
+  createVendors,
   DEFAULT_CITY,
   randomOffers,
+  seedCity,
+  SeedProgress,
 } from "@/data/offers";
 import {
+  PipelineName,
+  pipelineNames,
+  pipelineSummaries,
+  resetPipelineOffsets,
+  startPipeline,
+} from "@/data/pipelines";
+import {
+  BUNDLED_PIPELINES,
   findPipelineByName,
   FUNCTIONS,
   PROCEDURES,
+  SCHEMA_OBJECTS,
   SEED,
   TABLES,
 } from "@/data/sql";
-import { compileWithStatement } from "@/data/sqlgen";
+import {
+  and,
+  col,
+  CompiledQuery,
+  compileSelect,
+  eq,
+  expr,
+  gt,
+  inList,
+  isNotNull,
+  OrderBy,
+  orderBy,
+  SelectStatement,
+} from "@/data/sqlgen";
+import { Timeseries } from "@/data/timeseries";
 import { toISOStringNoTZ } from "@/datetime";
 import { boundsToWKTPolygon } from "@/geo";
-import { ScaleFactor } from "@/scalefactors";
+import {
+  PipelineSource,
+  PipelineSourceLabels,
+  renderPipelineSource,
+} from "@/pipelinesources";
+import { ClusterSizing, ScaleFactor } from "@/scalefactors";
 
 export const isConnected = async (config: ConnectionConfigOptionalDatabase) => {
   try {
@@ -106,9 +139,12 @@ export const schemaObjects = async (
 
   return Object.fromEntries(
     [
-      TABLES.map(({ name }) => [name, name && tables.includes(name)]),
-      PROCEDURES.map(({ name }) => [name, name && procedures.includes(name)]),
-      FUNCTIONS.map(({ name }) => [name, name && functions.includes(name)]),
+      TABLES.map(({ kind, name }) => [
+        name,
+        (kind === "table" ? tables : functions).includes(name),
+      ]),
+      PROCEDURES.map(({ name }) => [name, procedures.includes(name)]),
+      FUNCTIONS.map(({ name }) => [name, functions.includes(name)]),
     ].flat()
   );
 };
@@ -128,6 +164,36 @@ export const countPartitions = async (
     config.database
   ).then((x) => x.count);
 
+// leafMemoryMB returns the memory available to tables on all leaves
+export const leafMemoryMB = (config: ConnectionConfig): Promise<number> =>
+  QueryOne(
+    config,
+    rowSchema("leafMemoryMB", { memoryMB: codecs.number }),
+    `
+      SELECT IFNULL(SUM(max_table_memory_mb), 0) AS memoryMB
+      FROM information_schema.mv_nodes
+      WHERE type = "LEAF"
+    `
+  ).then((x) => x.memoryMB);
+
+// clusterSizing collects the inputs of recommendScaleFactor, the ingest rate
+// is the rate at which the pipelines currently load rows
+export const clusterSizing = async (
+  config: ConnectionConfig
+): Promise<ClusterSizing> => {
+  const [partitions, memoryMB, pipelines] = await Promise.all([
+    countPartitions(config),
+    leafMemoryMB(config),
+    pipelineSummaries(config),
+  ]);
+  const ingestRowsPerSecond = pipelines.reduce(
+    (sum, p) =>
+      sum + (p.windowSeconds > 0 ? p.rowsStreamed / p.windowSeconds : 0),
+    0
+  );
+  return { partitions, leafMemoryMB: memoryMB, ingestRowsPerSecond };
+};
+
 export const dropDatabase = (config: ConnectionConfig) =>
   ExecNoDb(config, "DROP DATABASE IF EXISTS `" + config.database + "`");
 
@@ -160,22 +226,18 @@ export const resetSchema = async (
     await truncateData(config);
   }
 
-  for (const obj of FUNCTIONS) {
-    progress(`Creating function: ${obj.name}`, "info");
-    await Exec(config, obj.statement);
-  }
-  for (const obj of TABLES) {
-    progress(`Creating table: ${obj.name}`, "info");
-    await Exec(config, obj.statement);
-  }
-  for (const obj of PROCEDURES) {
-    progress(`Creating procedure: ${obj.name}`, "info");
+  for (const obj of SCHEMA_OBJECTS) {
+    progress(`Creating ${obj.kind}: ${obj.name}`, "info");
     await Exec(config, obj.statement);
   }
+  await markMigrationsApplied(config);
 
   progress("Creating New York", "info");
   await createCity(config, DEFAULT_CITY);
 
+  progress("Creating vendors", "info");
+  await createVendors(config);
+
   if (includeSeedData) {
     progress("Creating sample data", "info");
     await insertSeedData(config);
@@ -193,11 +255,12 @@ export const insertSeedData = async (config: ConnectionConfig) => {
 export const seedCityWithOffers = (
   config: ConnectionConfig,
   city: CityConfig,
-  scaleFactor: ScaleFactor
+  scaleFactor: ScaleFactor,
+  progress?: SeedProgress
 ) => {
   const numOffers = 100 * scaleFactor.partitions;
   const offers = randomOffers(city, numOffers);
-  return createOffers(config, offers);
+  return seedCity(config, city, offers, progress);
 };
 
 export type SegmentConfig = {
@@ -206,22 +269,19 @@ export type SegmentConfig = {
   value: string;
 };
 
-export type PipelineName = "locations" | "requests" | "purchases";
-export const pipelineNames: Array<PipelineName> = [
-  "locations",
-  "requests",
-  "purchases",
-];
-
+// pipelineStatus reports which pipelines need to be recreated because they
+// do not exist or load from a different source or scale factor. Changes to
+// the credentials or config of a source are not visible in
+// information_schema, see the recreate option of ensurePipelinesExist.
 export const pipelineStatus = async (
   config: ConnectionConfig,
-  scaleFactor: ScaleFactor
+  scaleFactor: ScaleFactor,
+  source: PipelineSource
 ) => {
-  const scaleFactorPrefix = scaleFactor.prefix;
-
   type Row = {
     pipelineName: string;
-    needsUpdate: boolean;
+    sourceType: string;
+    connectionString: string;
   };
 
   const status = await Query<Row>(
@@ -229,7 +289,8 @@ export const pipelineStatus = async (
     `
       SELECT
         pipeline_name AS pipelineName,
-        (config_json::$connection_string NOT LIKE "%${scaleFactorPrefix}%") AS needsUpdate
+        config_json::$source_type AS sourceType,
+        config_json::$connection_string AS connectionString
       FROM information_schema.pipelines
       WHERE
         pipelines.database_name = ?
@@ -241,9 +302,13 @@ export const pipelineStatus = async (
 
   return pipelineNames.map((pipelineName) => {
     const row = status.find((x) => x.pipelineName === pipelineName);
+    const expected = renderPipelineSource(source, pipelineName, scaleFactor);
     return {
       pipelineName,
-      needsUpdate: row?.needsUpdate ?? true,
+      needsUpdate:
+        !row ||
+        row.sourceType !== expected.sourceType ||
+        row.connectionString !== expected.connectionString,
     };
   });
 };
@@ -254,6 +319,7 @@ export const truncateData = (config: ConnectionConfig) =>
     Exec(config, "TRUNCATE TABLE locations"),
     Exec(config, "TRUNCATE TABLE notifications"),
     Exec(config, "TRUNCATE TABLE offers"),
+    Exec(config, "TRUNCATE TABLE offer_spend"),
     Exec(config, "TRUNCATE TABLE purchases"),
     Exec(config, "TRUNCATE TABLE requests"),
     Exec(config, "TRUNCATE TABLE segments"),
@@ -263,17 +329,30 @@ export const truncateData = (config: ConnectionConfig) =>
     Exec(config, "TRUNCATE TABLE subscribers_last_notification"),
   ]);
 
+// getPipelineSQL renders the create statement of the named pipeline, set
+// redactCredentials to display the statement without the source's secrets
 export const getPipelineSQL = (
   name: PipelineName,
   scaleFactor: ScaleFactor,
-  maxPartitions: number
+  maxPartitions: number,
+  source: PipelineSource,
+  redactCredentials = false
 ) => {
   const pipeline = findPipelineByName(name);
+  const { clause, format } = renderPipelineSource(
+    source,
+    name,
+    scaleFactor,
+    redactCredentials
+  );
   const varRegex = /\$\{([^}]+)\}/g; // varRegex matches ${varName}
   return pipeline.statement.replaceAll(varRegex, (_, key) => {
     switch (key) {
-      case "SCALE_FACTOR":
-        return scaleFactor.prefix;
+      case "SOURCE":
+        return clause;
+
+      case "FORMAT":
+        return format;
 
       case "PARTITIONS":
         return Math.min(maxPartitions, scaleFactor.partitions).toString();
@@ -284,42 +363,47 @@ export const getPipelineSQL = (
   });
 };
 
+// dropPipelines drops every bundled pipeline, including the ones loading the
+// seed data, in the reverse of the order in which they are created
 export const dropPipelines = async (config: ConnectionConfig) => {
   await Exec(config, `STOP ALL PIPELINES`);
-  await Promise.all(
-    pipelineNames.map((pipeline) =>
-      Exec(config, `DROP PIPELINE IF EXISTS ${pipeline}`)
-    )
-  );
+  for (const { name } of [...BUNDLED_PIPELINES].reverse()) {
+    await Exec(config, `DROP PIPELINE IF EXISTS ${name}`);
+  }
 };
 
+// ensurePipelinesExist creates the pipelines which need an update, or every
+// pipeline if recreate is set
 export const ensurePipelinesExist = async (
   config: ConnectionConfig,
-  scaleFactor: ScaleFactor
+  scaleFactor: ScaleFactor,
+  source: PipelineSource,
+  recreate = false
 ) => {
-  const pipelines = await pipelineStatus(config, scaleFactor);
+  const pipelines = await pipelineStatus(config, scaleFactor, source);
   const numPartitions = await countPartitions(config);
 
   await Promise.all(
     pipelines
-      .filter((p) => p.needsUpdate)
+      .filter((p) => recreate || p.needsUpdate)
       .map(async (pipeline) => {
         console.log(`recreating pipeline ${pipeline.pipelineName}`);
 
         await Exec(
           config,
-          getPipelineSQL(pipeline.pipelineName, scaleFactor, numPartitions)
+          getPipelineSQL(
+            pipeline.pipelineName,
+            scaleFactor,
+            numPartitions,
+            source
+          )
         );
 
-        await Exec(
-          config,
-          `ALTER PIPELINE ${pipeline.pipelineName} SET OFFSETS EARLIEST DROP ORPHAN FILES`
-        );
-
-        await Exec(
-          config,
-          `START PIPELINE IF NOT RUNNING ${pipeline.pipelineName}`
-        );
+        const reason = `recreated for scale factor ${scaleFactor.name} from ${
+          PipelineSourceLabels[source.kind]
+        }`;
+        await resetPipelineOffsets(config, pipeline.pipelineName, reason);
+        await startPipeline(config, pipeline.pipelineName, reason);
 
         console.log(`finished creating pipeline ${pipeline.pipelineName}`);
       })
@@ -327,7 +411,7 @@ export const ensurePipelinesExist = async (
 };
 
 export const ensurePipelinesAreRunning = async (config: ConnectionConfig) => {
-  const pipelines = await QueryTuples(
+  const pipelines = await QueryTuples<[string, string, number, number]>(
     config,
     `
       SELECT
@@ -348,51 +432,26 @@ export const ensurePipelinesAreRunning = async (config: ConnectionConfig) => {
   );
 
   await Promise.all(
-    pipelines.map(async ([name]) => {
+    pipelines.map(async ([name, state, numLoaded, numTotal]) => {
       console.log("restarting pipeline", name);
-      await Exec(
-        config,
-        `ALTER PIPELINE ${name} SET OFFSETS EARLIEST DROP ORPHAN FILES`
-      );
-      await Exec(config, `START PIPELINE IF NOT RUNNING ${name}`);
+      const reason =
+        state === "Running"
+          ? `all ${numTotal} files were loaded`
+          : `pipeline was ${state.toLowerCase()} with ${numLoaded}/${numTotal} files loaded`;
+      await resetPipelineOffsets(config, name, reason);
+      await startPipeline(config, name, reason);
     })
   );
 };
 
-// returns true if any plans were dropped
-export const checkPlans = async (config: ConnectionConfig) => {
-  const badPlans = await Query<{ planId: string }>(
-    config,
-    `
-      SELECT plan_id AS planId
-      FROM information_schema.plancache
-      WHERE
-        plan_warnings LIKE "%empty tables%"
-    `
-  );
-
-  try {
-    await Promise.all(
-      badPlans.map(({ planId }) =>
-        Exec(config, `DROP ${planId} FROM PLANCACHE`)
-      )
-    );
-  } catch (e) {
-    if (!(e instanceof SQLError && e.isPlanMissing())) {
-      throw e;
-    }
-  }
-
-  return badPlans.length > 0;
-};
-
-export const estimatedRowCount = <TableName extends string>(
+// tables without statistics yet are counted as empty
+const queryRowCounts = async <TableName extends string>(
   config: ConnectionConfig,
   ...tables: Array<TableName>
 ) => {
-  const tablesSQL = tables.map((name) => `"${name}"`).join(",");
+  const inTables = inList("table_name", tables);
 
-  return QueryNoDb<{ tableName: TableName; count: number }>(
+  const rows = await QueryNoDb<{ tableName: TableName; count: number }>(
     config,
     `
       SELECT tableName, MAX(count) :> BIGINT AS count
@@ -404,7 +463,7 @@ export const estimatedRowCount = <TableName extends string>(
           partition_type = "Master"
           AND ordinal IS NOT NULL
           AND database_name = ?
-          AND table_name IN (${tablesSQL})
+          AND ${inTables.sql}
         GROUP BY table_name
         UNION ALL
         SELECT
@@ -414,17 +473,120 @@ export const estimatedRowCount = <TableName extends string>(
           partition_type = "Reference"
           AND ordinal IS NULL
           AND database_name = ?
-          AND table_name IN (${tablesSQL})
+          AND ${inTables.sql}
         GROUP BY table_name
-        UNION ALL
-        SELECT table_col AS tableName, 0 AS count
-        FROM TABLE([${tablesSQL}])
       )
       GROUP BY tableName
     `,
     config.database,
-    config.database
+    ...inTables.params,
+    config.database,
+    ...inTables.params
+  );
+
+  const counts = new Map(
+    rows.map(({ tableName, count }) => [tableName, count])
   );
+  return tables.map((tableName) => ({
+    tableName,
+    count: counts.get(tableName) ?? 0,
+  }));
+};
+
+// estimated row counts are polled by several components at once, so counts
+// requested within the same batch window are fetched by a single query and
+// reused by every caller until they are older than ROW_COUNT_MAX_AGE_MS
+const ROW_COUNT_BATCH_WINDOW_MS = 20;
+const ROW_COUNT_MAX_AGE_MS = 900;
+
+type RowCountBatch = {
+  tables: Set<string>;
+  callers: Set<string>;
+  counts: Promise<Map<string, number>>;
+};
+
+const rowCountBatches = new Map<string, RowCountBatch>();
+const rowCountCache = new Map<
+  string,
+  Map<string, { count: number; fetchedAt: number }>
+>();
+
+const rowCountConnectionKey = (config: ConnectionConfig) =>
+  JSON.stringify([
+    config.transport?.name,
+    config.host,
+    config.user,
+    config.database,
+  ]);
+
+const scheduleRowCountBatch = (config: ConnectionConfig, key: string) => {
+  const batch: RowCountBatch = {
+    tables: new Set(),
+    callers: new Set(),
+    counts: new Promise((resolve, reject) =>
+      setTimeout(async () => {
+        rowCountBatches.delete(key);
+        try {
+          const rows = await queryRowCounts(
+            { ...config, caller: Array.from(batch.callers).join("+") },
+            ...Array.from(batch.tables)
+          );
+
+          const fetchedAt = Date.now();
+          const cache = rowCountCache.get(key) || new Map();
+          rows.forEach(({ tableName, count }) =>
+            cache.set(tableName, { count, fetchedAt })
+          );
+          rowCountCache.set(key, cache);
+
+          resolve(
+            new Map(rows.map(({ tableName, count }) => [tableName, count]))
+          );
+        } catch (e) {
+          reject(e);
+        }
+      }, ROW_COUNT_BATCH_WINDOW_MS)
+    ),
+  };
+  rowCountBatches.set(key, batch);
+  return batch;
+};
+
+export const estimatedRowCount = async <TableName extends string>(
+  config: ConnectionConfig,
+  ...tables: Array<TableName>
+): Promise<Array<{ tableName: TableName; count: number }>> => {
+  if (config.ctx) {
+    return queryRowCounts(config, ...tables);
+  }
+
+  const key = rowCountConnectionKey(config);
+  const cache = rowCountCache.get(key);
+  const now = Date.now();
+  const cached = tables.map((tableName) => ({
+    tableName,
+    entry: cache?.get(tableName),
+  }));
+  if (
+    cached.every(
+      ({ entry }) => entry && now - entry.fetchedAt < ROW_COUNT_MAX_AGE_MS
+    )
+  ) {
+    return cached.map(({ tableName, entry }) => ({
+      tableName,
+      count: entry?.count || 0,
+    }));
+  }
+
+  const batch = rowCountBatches.get(key) || scheduleRowCountBatch(config, key);
+  tables.forEach((name) => batch.tables.add(name));
+  batch.callers.add(config.caller || "estimatedRowCount");
+
+  const counts = await batch.counts;
+  return tables.map((tableName) => ({
+    tableName,
+    count: counts.get(tableName) || 0,
+  }));
 };
 
 export const estimatedRowCountObj = <TableName extends string>(
@@ -438,83 +600,6 @@ export const estimatedRowCountObj = <TableName extends string>(
     }, {} as { [name in TableName]: number })
   );
 
-export const truncateTimeseriesTables = async (
-  config: ConnectionConfig,
-  scaleFactor: ScaleFactor
-) => {
-  const { maxRows } = scaleFactor;
-  const tables = [
-    "locations",
-    "requests",
-    "purchases",
-    "notifications",
-  ] as const;
-  const tablesSQL = tables.map((name) => `"${name}"`).join(",");
-
-  const oversizedTables = await QueryNoDb<{
-    tableName: (typeof tables)[number];
-    minTs: number;
-    maxTs: number;
-    count: number;
-  }>(
-    config,
-    `
-      SELECT
-        stats.table_name AS tableName,
-        stats.count,
-        UNIX_TIMESTAMP(minmax.minTs) AS minTs,
-        UNIX_TIMESTAMP(minmax.maxTs) AS maxTs
-      FROM
-        (
-          SELECT database_name, table_name, SUM(rows) AS count
-          FROM information_schema.table_statistics
-          WHERE
-            database_name = ?
-            AND table_name IN (${tablesSQL})
-            AND partition_type = "Master"
-          GROUP BY database_name, table_name
-        ) stats,
-        (
-          SELECT
-            database_name, table_name,
-            MIN(min_value) AS minTs,
-            MAX(max_value) AS maxTs
-          FROM information_schema.columnar_segments
-          WHERE column_name = "ts"
-          GROUP BY database_name, table_name
-        ) minmax
-      WHERE
-        stats.database_name = minmax.database_name
-        AND stats.table_name = minmax.table_name
-        AND stats.count > ?
-    `,
-    config.database,
-    maxRows
-  );
-
-  await Promise.all(
-    oversizedTables.map(async ({ tableName, count, minTs, maxTs }) => {
-      // calculate % of count to remove
-      const delta = count - maxRows;
-      const deltaPercent = delta / count;
-
-      if (deltaPercent < 0.2) {
-        return;
-      }
-
-      const ts = new Date((minTs + deltaPercent * (maxTs - minTs)) * 1000);
-      console.log(
-        `removing rows from ${tableName} older than ${toISOStringNoTZ(ts)}`
-      );
-      await Exec(
-        config,
-        `DELETE FROM ${tableName} WHERE ts <= ?`,
-        toISOStringNoTZ(ts)
-      );
-    })
-  );
-};
-
 export type SQLIntervals =
   | "second"
   | "minute"
@@ -523,15 +608,18 @@ export type SQLIntervals =
   | "week"
   | "month";
 
-// returns number of notifications sent
+// returns number of notifications sent, a subscriber is notified at most once
+// per interval and dailyCap times per day, null for no daily cap
 export const runMatchingProcess = (
   config: ConnectionConfig,
-  interval: SQLIntervals = "minute"
+  interval: SQLIntervals = "minute",
+  dailyCap: number | null = null
 ) =>
   QueryOne<{ RESULT: number }>(
     config,
-    "ECHO run_matching_process(?)",
-    interval
+    "ECHO run_matching_process(?, ?)",
+    interval,
+    dailyCap
   ).then((x) => x.RESULT);
 
 // returns the timestamp to use in the next call to runUpdateSegments
@@ -571,46 +659,64 @@ export const queryNotificationsInBounds = (
         ts > ?
         AND GEOGRAPHY_CONTAINS(?, lonlat)
       ORDER BY ts DESC
-      LIMIT ${limit}
+      LIMIT ?
     `,
     since,
-    boundsToWKTPolygon(bounds)
+    boundsToWKTPolygon(bounds),
+    limit
   );
 
 export type Offer = {
-  offerId: number;
+  offerId: string;
   notificationZone: string;
 };
 
+const OfferRow = rowSchema("queryOffersInBounds", {
+  offerId: codecs.id,
+  notificationZone: codecs.wkt,
+});
+
 export const queryOffersInBounds = (
   config: ConnectionConfig,
   limit: number,
   bounds: Bounds
 ) =>
-  Query<Offer>(
+  Query(
     config,
+    OfferRow,
     `
       SELECT
         offer_id AS offerId,
         notification_zone AS notificationZone
       FROM offers
       WHERE GEOGRAPHY_INTERSECTS(?, notification_zone)
-      LIMIT ${limit}
+      LIMIT ?
     `,
-    boundsToWKTPolygon(bounds)
+    boundsToWKTPolygon(bounds),
+    limit
   );
 
+// identifiers of BIGINT columns are decimal strings, see parseJSON
 export type City = {
-  id: number;
+  id: string;
   name: string;
   centerLat: number;
   centerLon: number;
   diameter: number;
 };
 
-export const getCities = (config: ConnectionConfig) =>
-  Query<City>(
+const cityColumns = {
+  id: codecs.id,
+  name: codecs.string,
+  centerLat: codecs.number,
+  centerLon: codecs.number,
+  diameter: codecs.number,
+};
+
+export const getCities = (config: ConnectionConfig): Promise<Array<City>> =>
+  Query(
     config,
+    rowSchema("getCities", cityColumns),
     `
       SELECT
         city_id AS id,
@@ -626,9 +732,10 @@ export const lookupClosestCity = (
   config: ConnectionConfig,
   lon: number,
   lat: number
-) =>
-  QueryOne<City>(
+): Promise<City> =>
+  QueryOne(
     config,
+    rowSchema("lookupClosestCity", cityColumns),
     `
       SELECT
         city_id AS id,
@@ -644,37 +751,92 @@ export const lookupClosestCity = (
     lat
   );
 
-export type ConversionEventTable = "requests" | "purchases";
-
-const conversionMetricsBaseFragment = (eventsTable: ConversionEventTable) => `
-  SELECT
-    offer_notification.customer,
-    offer_notification.notification_zone,
-    offer_notification.offer_id,
-    events.ts as converted_at
-  FROM (
-    SELECT
-      offers.offer_id,
-      offers.customer,
-      offers.notification_zone,
-      offers.notification_target,
-      notifications.city_id,
-      notifications.subscriber_id,
-      FIRST(notifications.ts) AS ts
-    FROM offers, notifications
-    WHERE offers.offer_id = notifications.offer_id
-    GROUP BY offers.offer_id, notifications.city_id, notifications.subscriber_id
-  ) offer_notification
-  LEFT JOIN ${eventsTable} AS events ON
-    offer_notification.city_id = events.city_id
-    AND offer_notification.subscriber_id = events.subscriber_id
-    AND events.ts > offer_notification.ts
-    ${
-      eventsTable === "purchases"
-        ? "AND events.vendor = offer_notification.customer"
-        : "AND events.domain = offer_notification.notification_target"
-    }
-`;
+export const CONVERSION_EVENT_TABLES = ["requests", "purchases"] as const;
+export type ConversionEventTable = (typeof CONVERSION_EVENT_TABLES)[number];
+
+// conversionMetricsBase joins every notification with the first matching
+// event in eventTable, which is NULL if the notification did not convert
+const conversionMetricsBase = (
+  eventTable: ConversionEventTable
+): SelectStatement => {
+  if (!CONVERSION_EVENT_TABLES.includes(eventTable)) {
+    throw new Error(`Unsupported conversion event table: ${eventTable}`);
+  }
+
+  return {
+    columns: [
+      "offer_notification.customer",
+      "offer_notification.notification_zone",
+      "offer_notification.offer_id",
+      "offer_notification.city_id",
+      "offer_notification.subscriber_id",
+      ["offer_notification.ts", "notified_at"],
+      ["events.ts", "converted_at"],
+    ],
+    from: {
+      source: {
+        columns: [
+          "offers.offer_id",
+          "offers.customer",
+          "offers.notification_zone",
+          "offers.notification_target",
+          "notifications.city_id",
+          "notifications.subscriber_id",
+          [expr`FIRST(notifications.ts)`, "ts"],
+        ],
+        from: ["offers", "notifications"],
+        where: eq("offers.offer_id", col("notifications.offer_id")),
+        groupBy: [
+          "offers.offer_id",
+          "notifications.city_id",
+          "notifications.subscriber_id",
+        ],
+      },
+      alias: "offer_notification",
+    },
+    joins: [
+      {
+        kind: "LEFT",
+        from: { source: eventTable, alias: "events" },
+        on: and(
+          eq("offer_notification.city_id", col("events.city_id")),
+          eq("offer_notification.subscriber_id", col("events.subscriber_id")),
+          gt("events.ts", col("offer_notification.ts")),
+          eventTable === "purchases"
+            ? eq("events.vendor", col("offer_notification.customer"))
+            : eq("events.domain", col("offer_notification.notification_target"))
+        ),
+      },
+    ],
+  };
+};
+
+// conversionRates counts notifications and conversions, optionally grouped by
+// a column of the conversion metrics
+const conversionRates = (
+  eventTable: ConversionEventTable,
+  groupBy?: [column: string, alias: string],
+  where?: CompiledQuery
+): SelectStatement => ({
+  with: [["metrics", conversionMetricsBase(eventTable)]],
+  columns: [
+    "*",
+    [expr`(totalConversions / totalNotifications) :> DOUBLE`, "conversionRate"],
+  ],
+  from: {
+    source: {
+      columns: [
+        ...(groupBy ? [groupBy] : []),
+        [expr`COUNT(metrics.offer_id)`, "totalNotifications"],
+        [expr`COUNT(metrics.converted_at)`, "totalConversions"],
+      ],
+      from: "metrics",
+      where,
+      groupBy: groupBy && [groupBy[0]],
+    },
+    alias: "counts",
+  },
+});
 
 export type CustomerMetrics = {
   customer: string;
@@ -686,80 +848,273 @@ export type CustomerMetrics = {
 export type CostMetrics = {
   customer: string;
   timestamp: string;
-  subscriberId: number;
-  offerId: number;
+  subscriberId: string;
+  offerId: string;
   cost: number;
-}
+};
 
-export const customerMetrics = (
-  config: ConnectionConfig,
+const CostMetricsRow = rowSchema("costMetrics", {
+  customer: codecs.string,
+  timestamp: codecs.string,
+  subscriberId: codecs.id,
+  offerId: codecs.id,
+  cost: codecs.number,
+});
+
+const CustomerMetricsRow = rowSchema("customerMetrics", {
+  customer: codecs.string,
+  totalNotifications: codecs.int,
+  totalConversions: codecs.int,
+  conversionRate: codecs.number,
+});
+
+const CUSTOMER_METRICS_SORT_COLUMNS: Array<keyof CustomerMetrics> = [
+  "customer",
+  "totalNotifications",
+  "totalConversions",
+  "conversionRate",
+];
+
+const COST_METRICS_SORT_COLUMNS: Array<keyof CostMetrics> = [
+  "customer",
+  "timestamp",
+  "subscriberId",
+  "offerId",
+  "cost",
+];
+
+// sortKeys sorts by key first and breaks ties with the unique key columns
+const sortKeys = (key: OrderBy, unique: Array<OrderBy>): Array<OrderBy> => [
+  key,
+  ...unique.filter(({ column }) => column !== key.column),
+];
+
+export const customerMetricsQuery = (
   eventTable: ConversionEventTable,
   sortColumn: keyof CustomerMetrics,
-  limit: number
-) =>
-  Query<CustomerMetrics>(
+  pageSize: number
+): PagedQuery<CustomerMetrics> => ({
+  select: conversionRates(eventTable, ["metrics.customer", "customer"]),
+  orderBy: sortKeys(
+    orderBy(sortColumn, CUSTOMER_METRICS_SORT_COLUMNS, "DESC"),
+    [{ column: "customer" }]
+  ),
+  pageSize,
+  schema: CustomerMetricsRow,
+});
+
+export const costMetricsQuery = (
+  sortColumn: keyof CostMetrics,
+  pageSize: number
+): PagedQuery<CostMetrics> => ({
+  select: {
+    columns: [
+      "offers.customer",
+      [expr`DATE_FORMAT(n.ts, '%Y-%m-%d %H:%i:%s')`, "timestamp"],
+      "n.ts",
+      ["n.city_id", "cityId"],
+      ["n.subscriber_id", "subscriberId"],
+      ["n.offer_id", "offerId"],
+      [expr`ROUND((n.cost_cents / 10), 2)`, "cost"],
+    ],
+    from: [{ source: "notifications", alias: "n" }, "offers"],
+    where: eq("n.offer_id", col("offers.offer_id")),
+  },
+  // a subscriber receives at most one notification at a time in each city
+  orderBy: sortKeys(orderBy(sortColumn, COST_METRICS_SORT_COLUMNS, "DESC"), [
+    { column: "ts", direction: "DESC" },
+    { column: "cityId" },
+    { column: "subscriberId" },
+  ]),
+  pageSize,
+  schema: CostMetricsRow,
+});
+
+const MINUTE_MS = 60 * 1000;
+
+export type BudgetBurnDown = {
+  offerId: string;
+  customer: string;
+  totalBudgetCents: number;
+  spentCents: number;
+
+  // remaining budget in cents at the start of every minute of the window and
+  // now, a matching run can overshoot the budget so it is clamped at zero
+  remaining: Timeseries;
+};
+
+const BudgetRow = rowSchema("budgetBurnDown", {
+  offerId: codecs.id,
+  customer: codecs.string,
+  totalBudgetCents: codecs.int,
+  spentCents: codecs.int,
+});
+
+const BudgetSpendRow = rowSchema("budgetBurnDownSpend", {
+  offerId: codecs.id,
+  spentAt: codecs.datetime,
+  spentCents: codecs.int,
+});
+
+// budgetBurnDown returns the offers with a total budget which spent the
+// largest share of it. The remaining budget is walked back from the current
+// spend, so that the series stays accurate once the retention policies
+// delete notifications older than the window.
+export const budgetBurnDown = async (
+  config: ConnectionConfig,
+  maxOffers: number,
+  windowMinutes: number
+): Promise<Array<BudgetBurnDown>> => {
+  const budgets = await Query(
     config,
-    compileWithStatement({
-      with: [["metrics", conversionMetricsBaseFragment(eventTable)]],
-      base: `
-        SELECT
-          *, (totalConversions / totalNotifications) :> DOUBLE AS conversionRate
-        FROM (
-          SELECT
-            metrics.customer,
-            COUNT(metrics.offer_id) AS totalNotifications,
-            COUNT(metrics.converted_at) AS totalConversions
-          FROM metrics
-          GROUP BY metrics.customer
-        )
-        ORDER BY ${sortColumn} DESC
-        LIMIT ${limit}`,
-    }).sql
+    BudgetRow,
+    `
+      SELECT
+        offers.offer_id AS offerId,
+        customer,
+        total_budget_cents AS totalBudgetCents,
+        IFNULL(SUM(offer_spend.spent_cents), 0) AS spentCents
+      FROM offers
+      LEFT JOIN offer_spend ON offers.offer_id = offer_spend.offer_id
+      WHERE total_budget_cents IS NOT NULL
+      GROUP BY offers.offer_id, customer, total_budget_cents
+      ORDER BY spentCents / totalBudgetCents DESC, offerId
+      LIMIT ?
+    `,
+    maxOffers
   );
+  if (budgets.length === 0) {
+    return [];
+  }
 
-  export const costMetrics = (
-    config: ConnectionConfig,
-    sortColumn: keyof CostMetrics,
-    limit: number
-  ) =>
-    Query<CostMetrics>(
-      config,
-      `SELECT offers.customer,
-        DATE_FORMAT(ts, '%Y-%m-%d %H:%i:%s') AS timestamp,
-        subscriber_id AS subscriberId,
-        n.offer_id AS offerId,
-        ROUND((cost_cents/10),2) AS cost 
-        FROM notifications n, offers
-        WHERE n.offer_id = offers.offer_id
-        ORDER BY ${sortColumn} DESC
-        LIMIT 10 
-      `,
-    );
+  // the window is made of whole minutes, the last one is the current minute
+  const now = Date.now();
+  const start = (Math.floor(now / MINUTE_MS) - windowMinutes + 1) * MINUTE_MS;
+
+  // the ids are bound as strings, BIGINT ids don't survive a round trip
+  // through doubles
+  const forOffers = inList(
+    "offer_id",
+    budgets.map((b) => b.offerId)
+  );
+  const spend = await Query(
+    config,
+    BudgetSpendRow,
+    `
+      SELECT
+        offer_id AS offerId,
+        DATE_TRUNC("minute", ts) AS spentAt,
+        SUM(cost_cents) AS spentCents
+      FROM notifications
+      WHERE
+        ts >= FROM_UNIXTIME(?)
+        AND ${forOffers.sql}
+      GROUP BY offerId, spentAt
+    `,
+    start / 1000,
+    ...forOffers.params
+  );
+
+  return budgets.map((budget) => {
+    const perMinute = new Array<number>(windowMinutes).fill(0);
+    for (const row of spend) {
+      const i = Math.floor((row.spentAt.getTime() - start) / MINUTE_MS);
+      if (row.offerId === budget.offerId && i >= 0 && i < windowMinutes) {
+        perMinute[i] += row.spentCents;
+      }
+    }
+
+    // walk back from now, adding the spend of every minute to the remaining
+    // budget at its start
+    let remainingCents = budget.totalBudgetCents - budget.spentCents;
+    const remaining: Timeseries = [[new Date(now), remainingCents]];
+    for (let i = windowMinutes - 1; i >= 0; i--) {
+      remainingCents += perMinute[i];
+      remaining.unshift([new Date(start + i * MINUTE_MS), remainingCents]);
+    }
+
+    return {
+      ...budget,
+      remaining: remaining.map(([t, cents]) => [t, Math.max(0, cents)]),
+    };
+  });
+};
+
+export type NotificationExportRow = {
+  ts: string;
+  cityId: string;
+  subscriberId: string;
+  offerId: string;
+  costCents: number;
+  lon: number;
+  lat: number;
+};
+
+export const notificationsExportQuery = (
+  pageSize: number
+): PagedQuery<NotificationExportRow> => ({
+  select: {
+    columns: [
+      "ts",
+      ["city_id", "cityId"],
+      ["subscriber_id", "subscriberId"],
+      ["offer_id", "offerId"],
+      ["cost_cents", "costCents"],
+      [expr`GEOGRAPHY_LONGITUDE(lonlat)`, "lon"],
+      [expr`GEOGRAPHY_LATITUDE(lonlat)`, "lat"],
+    ],
+    from: "notifications",
+  },
+  orderBy: [{ column: "ts" }, { column: "cityId" }, { column: "subscriberId" }],
+  pageSize,
+});
+
+export type ConversionExportRow = {
+  customer: string;
+  offerId: string;
+  cityId: string;
+  subscriberId: string;
+  notifiedAt: string;
+  convertedAt: string;
+};
+
+export const conversionsExportQuery = (
+  eventTable: ConversionEventTable,
+  pageSize: number
+): PagedQuery<ConversionExportRow> => ({
+  select: {
+    with: [["metrics", conversionMetricsBase(eventTable)]],
+    columns: [
+      "customer",
+      ["offer_id", "offerId"],
+      ["city_id", "cityId"],
+      ["subscriber_id", "subscriberId"],
+      ["notified_at", "notifiedAt"],
+      ["converted_at", "convertedAt"],
+    ],
+    from: "metrics",
+    where: isNotNull("converted_at"),
+  },
+  orderBy: [
+    { column: "convertedAt" },
+    { column: "offerId" },
+    { column: "cityId" },
+    { column: "subscriberId" },
+  ],
+  pageSize,
+});
 
 export const overallConversionRate = (
   config: ConnectionConfig,
   eventTable: ConversionEventTable
-) =>
-  QueryOne<{
+) => {
+  const { sql, params } = compileSelect(conversionRates(eventTable));
+  return QueryOne<{
     totalNotifications: number;
     totalConversions: number;
     conversionRate: number;
-  }>(
-    config,
-    compileWithStatement({
-      with: [["metrics", conversionMetricsBaseFragment(eventTable)]],
-      base: `
-        SELECT
-          *, (totalConversions / totalNotifications) :> DOUBLE AS conversionRate
-        FROM (
-          SELECT
-            COUNT(metrics.offer_id) AS totalNotifications,
-            COUNT(metrics.converted_at) AS totalConversions
-          FROM metrics
-        )
-      `,
-    }).sql
-  );
+  }>(config, sql, ...params);
+};
 
 export type ZoneMetrics = {
   wktPolygon: string;
@@ -773,27 +1128,16 @@ export const zoneMetrics = (
   bounds: Bounds,
   eventTable: ConversionEventTable
 ) => {
-  const query = compileWithStatement({
-    with: [["metrics", conversionMetricsBaseFragment(eventTable)]],
-    base: {
-      sql: `
-        SELECT
-          *, (totalConversions / totalNotifications) :> DOUBLE AS conversionRate
-        FROM (
-          SELECT
-            metrics.notification_zone AS wktPolygon,
-            COUNT(metrics.offer_id) AS totalNotifications,
-            COUNT(metrics.converted_at) AS totalConversions
-          FROM metrics
-          WHERE GEOGRAPHY_INTERSECTS(?, metrics.notification_zone)
-          GROUP BY metrics.notification_zone
-        )
-      `,
-      params: [boundsToWKTPolygon(bounds)],
-    },
-  });
-
-  return Query<ZoneMetrics>(config, query.sql, ...query.params);
+  const { sql, params } = compileSelect(
+    conversionRates(
+      eventTable,
+      ["metrics.notification_zone", "wktPolygon"],
+      expr`GEOGRAPHY_INTERSECTS(${boundsToWKTPolygon(
+        bounds
+      )}, metrics.notification_zone)`
+    )
+  );
+  return Query<ZoneMetrics>(config, sql, ...params);
 };
 
 export type Session = {
@@ -802,6 +1146,12 @@ export type Session = {
   expiresAt: Date;
 };
 
+const SessionRow = rowSchema("updateSessions", {
+  session_id: codecs.string,
+  is_controller: codecs.boolean,
+  expires_at: codecs.datetime,
+});
+
 export const updateSessions = (
   config: ConnectionConfig,
   sessionID: string,
@@ -809,14 +1159,15 @@ export const updateSessions = (
 ): Promise<Session> =>
   QueryOne(
     config,
+    SessionRow,
     "CALL update_sessions(?, ?)",
     sessionID,
     leaseDurationSeconds
   ).then(
     ({ session_id, is_controller, expires_at }): Session => ({
-      sessionID: session_id as string,
-      isController: is_controller as boolean,
-      expiresAt: new Date(expires_at as string),
+      sessionID: session_id,
+      isController: is_controller,
+      expiresAt: expires_at,
     })
   );
 
@@ -3,7 +3,17 @@ import { v4 as uuidv4 } from "uuid";
 
 import { trackAnalyticsEvent } from "@/analytics";
 import { ConnectionConfig } from "@/data/client";
+import {
+  defaultSubscriberFrequencyCaps,
+  SubscriberFrequencyCaps,
+} from "@/data/frequencycaps";
+import {
+  defaultEventGeneratorConfig,
+  EventGeneratorConfig,
+} from "@/data/generator";
+import { createLazyTransport } from "@/data/transport";
 
+import { defaultPipelineSource, PipelineSource } from "../pipelinesources";
 import { defaultScaleFactor, ScaleFactor, ScaleFactors } from "../scalefactors";
 import { City, getCities } from "./queries";
 
@@ -57,7 +67,7 @@ export const userSessionID = atom({
 
 export const selectedCity = atom({
   key: "selectedCity",
-  default: -1,
+  default: "",
 });
 
 export const defaultSelectedCities = selector<Array<City>>({
@@ -114,6 +124,22 @@ export const connectionDatabase = atom({
   effects: [localStorageEffect()],
 });
 
+// the fake Data API is only loaded when it's selected, so that it isn't part of
+// the production bundle
+const fakeTransport = createLazyTransport("fake", () =>
+  import("@/data/fake/server").then(({ getFakeTransport }) =>
+    getFakeTransport()
+  )
+);
+
+// set ?transport=fake to run the application against the in-browser fake
+// Data API instead of a SingleStore cluster
+export const connectionTransport = atom({
+  key: "connectionTransport",
+  default: null,
+  effects: [searchParamEffect("transport")],
+});
+
 export const portalDatabase = atom({
   key: "portalDatabase",
   default: "martech",
@@ -176,6 +202,9 @@ export const connectionConfig = selector<ConnectionConfig>({
     const user = get(connectionUser);
     const password = get(connectionPassword);
     const database = get(connectionDatabase);
+    if (get(connectionTransport) === "fake") {
+      return { host, user, password, database, transport: fakeTransport };
+    }
     return { host, user, password, database };
   },
   cachePolicy_UNSTABLE: {
@@ -183,18 +212,63 @@ export const connectionConfig = selector<ConnectionConfig>({
   },
 });
 
+// custom scale factors are defined in the scale factor advisor
+export const customScaleFactors = atom<Array<ScaleFactor>>({
+  key: "customScaleFactors",
+  default: [],
+  effects: [localStorageEffect()],
+});
+
+// the selected scale factor is stored in full so that custom scale factors
+// survive a reload, bundled ones are looked up by name so that they pick up
+// changes to their definition. Older versions only stored the name.
+const decodeScaleFactor = (v: string): ScaleFactor => {
+  const stored: Partial<ScaleFactor> = v.startsWith("{")
+    ? JSON.parse(v)
+    : { name: v };
+  const bundled = ScaleFactors.find((sf) => sf.name === stored.name);
+  return (
+    bundled || (stored.maxRows ? (stored as ScaleFactor) : defaultScaleFactor)
+  );
+};
+
 export const configScaleFactor = atom<ScaleFactor>({
   key: "configScaleFactor",
   default: defaultScaleFactor,
   effects: [
     localStorageEffect({
-      encode: (v: ScaleFactor) => v.name,
-      decode: (v: string) =>
-        ScaleFactors.find((sf) => sf.name === v) || defaultScaleFactor,
+      encode: (v: ScaleFactor) => JSON.stringify(v),
+      decode: decodeScaleFactor,
     }),
   ],
 });
 
+export const configPipelineSource = atom<PipelineSource>({
+  key: "configPipelineSource",
+  default: defaultPipelineSource,
+  effects: [localStorageEffect()],
+});
+
+// the event generator replaces the location, request and purchase pipelines
+// while it is enabled
+export const eventGeneratorEnabled = atom<boolean>({
+  key: "eventGeneratorEnabled",
+  default: false,
+  effects: [localStorageEffect()],
+});
+
+export const eventGeneratorConfig = atom<EventGeneratorConfig>({
+  key: "eventGeneratorConfig",
+  default: defaultEventGeneratorConfig,
+  effects: [localStorageEffect()],
+});
+
+export const subscriberFrequencyCaps = atom<SubscriberFrequencyCaps>({
+  key: "subscriberFrequencyCaps",
+  default: defaultSubscriberFrequencyCaps,
+  effects: [localStorageEffect()],
+});
+
 export const simulatorEnabled = atom<boolean>({
   key: "simulatorEnabled",
   default: true,
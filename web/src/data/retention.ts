@@ -0,0 +1,307 @@
+import { ConnectionConfig, Exec, Query, QueryNoDb } from "@/data/client";
+import { codecs, rowSchema } from "@/data/decode";
+import { inList } from "@/data/sqlgen";
+import { ScaleFactor } from "@/scalefactors";
+
+export type TimeseriesTable =
+  | "locations"
+  | "requests"
+  | "purchases"
+  | "notifications";
+
+export const timeseriesTables: Array<TimeseriesTable> = [
+  "locations",
+  "requests",
+  "purchases",
+  "notifications",
+];
+
+export type RetentionPolicy = {
+  tableName: TimeseriesTable;
+
+  // null disables the limit, when both are set the stricter one applies
+  maxRows: number | null;
+  maxAgeSeconds: number | null;
+};
+
+export type EffectiveRetentionPolicy = RetentionPolicy & {
+  // set for tables without a stored policy, which keep the number of rows of
+  // the selected scale factor
+  isDefault: boolean;
+};
+
+// tables are only truncated once they exceed their row limit by this fraction
+// of their rows, so that every delete removes a sizeable chunk
+const ROWS_THRESHOLD = 0.2;
+
+// likewise rows are only deleted by age once the oldest row is this fraction
+// of the maximum age past it, the tables keep between 1 and 1.1 times the
+// maximum age of history
+const AGE_THRESHOLD = 0.1;
+
+// shorter ages would delete rows before the segments are updated from them
+const MIN_AGE_SECONDS = 10 * 60;
+
+const RetentionPolicyRow = rowSchema("retentionPolicies", {
+  tableName: codecs.oneOf(...timeseriesTables),
+  maxRows: codecs.nullable(codecs.int),
+  maxAgeSeconds: codecs.nullable(codecs.int),
+});
+
+export const retentionPolicies = async (
+  config: ConnectionConfig,
+  scaleFactor: ScaleFactor
+): Promise<Array<EffectiveRetentionPolicy>> => {
+  const stored = await Query(
+    config,
+    RetentionPolicyRow,
+    `
+      SELECT
+        table_name AS tableName,
+        max_rows AS maxRows,
+        max_age_seconds AS maxAgeSeconds
+      FROM retention_policies
+    `
+  );
+
+  return timeseriesTables.map((tableName) => {
+    const policy = stored.find((p) => p.tableName === tableName);
+    if (policy) {
+      return { ...policy, isDefault: false };
+    }
+    return {
+      tableName,
+      maxRows: scaleFactor.maxRows,
+      maxAgeSeconds: null,
+      isDefault: true,
+    };
+  });
+};
+
+// retentionPolicyErrors returns a description of every problem with the
+// policy, it can only be saved once it is empty
+export const retentionPolicyErrors = (
+  policy: RetentionPolicy
+): Array<string> => {
+  const errors: Array<string> = [];
+  if (policy.maxRows === null && policy.maxAgeSeconds === null) {
+    errors.push(
+      `Set a row limit, an age limit or both for ${policy.tableName}.`
+    );
+  }
+  if (
+    policy.maxRows !== null &&
+    (!Number.isInteger(policy.maxRows) || policy.maxRows <= 0)
+  ) {
+    errors.push(
+      `The row limit of ${policy.tableName} must be a positive integer.`
+    );
+  }
+  if (
+    policy.maxAgeSeconds !== null &&
+    !(policy.maxAgeSeconds >= MIN_AGE_SECONDS)
+  ) {
+    errors.push(
+      `The age limit of ${policy.tableName} must be at least ${
+        MIN_AGE_SECONDS / 60
+      } minutes.`
+    );
+  }
+  return errors;
+};
+
+export const saveRetentionPolicy = (
+  config: ConnectionConfig,
+  { tableName, maxRows, maxAgeSeconds }: RetentionPolicy
+) =>
+  Exec(
+    config,
+    `
+      INSERT INTO retention_policies (table_name, max_rows, max_age_seconds)
+      VALUES (?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        max_rows = VALUES(max_rows),
+        max_age_seconds = VALUES(max_age_seconds)
+    `,
+    tableName,
+    maxRows,
+    maxAgeSeconds
+  );
+
+// deleteRetentionPolicy reverts the table to the default policy
+export const deleteRetentionPolicy = (
+  config: ConnectionConfig,
+  tableName: TimeseriesTable
+) =>
+  Exec(
+    config,
+    "DELETE FROM retention_policies WHERE table_name = ?",
+    tableName
+  );
+
+// Every delete made by truncateTimeseriesTables is kept in memory so that
+// Configure can show what each monitor tick removed.
+
+export type RetentionReason = "rows" | "age";
+
+export type RetentionDeletion = {
+  tableName: TimeseriesTable;
+
+  // the limits which were exceeded, the cutoff is that of the stricter one
+  reasons: Array<RetentionReason>;
+  cutoff: Date;
+  rowsBefore: number;
+  rowsDeleted: number;
+};
+
+export type RetentionRun = {
+  id: number;
+  at: Date;
+  deletions: Array<RetentionDeletion>;
+};
+
+// only the most recent runs which deleted rows are kept in memory
+const MAX_RETENTION_RUNS = 100;
+
+let nextRunID = 1;
+let runs: Array<RetentionRun> = [];
+
+const recordRetentionRun = (deletions: Array<RetentionDeletion>) => {
+  runs.push({ id: nextRunID++, at: new Date(), deletions });
+  if (runs.length > MAX_RETENTION_RUNS) {
+    runs = runs.slice(-MAX_RETENTION_RUNS);
+  }
+};
+
+// recentRetentionRuns returns the recorded runs, newest first
+export const recentRetentionRuns = (): Array<RetentionRun> =>
+  [...runs].reverse();
+
+// timestamps are in seconds since the epoch, now is the time of the database
+type TableStats = {
+  tableName: TimeseriesTable;
+  count: number;
+  minTs: number;
+  maxTs: number;
+  now: number;
+};
+
+const TableStatsRow = rowSchema("timeseriesTableStats", {
+  tableName: codecs.oneOf(...timeseriesTables),
+  count: codecs.number,
+  minTs: codecs.number,
+  maxTs: codecs.number,
+  now: codecs.number,
+});
+
+// retentionCutoff returns the timestamp, in seconds since the epoch, up to
+// which rows have to be deleted to comply with the policy
+const retentionCutoff = (
+  { maxRows, maxAgeSeconds }: RetentionPolicy,
+  { count, minTs, maxTs, now }: TableStats
+) => {
+  const cutoffs: Array<{ reason: RetentionReason; ts: number }> = [];
+
+  if (maxRows !== null && count > maxRows) {
+    // assume rows are spread evenly between the oldest and newest row
+    const deltaPercent = (count - maxRows) / count;
+    if (deltaPercent >= ROWS_THRESHOLD) {
+      cutoffs.push({
+        reason: "rows",
+        ts: minTs + deltaPercent * (maxTs - minTs),
+      });
+    }
+  }
+
+  if (
+    maxAgeSeconds !== null &&
+    now - minTs > maxAgeSeconds * (1 + AGE_THRESHOLD)
+  ) {
+    cutoffs.push({ reason: "age", ts: now - maxAgeSeconds });
+  }
+
+  if (cutoffs.length === 0) {
+    return;
+  }
+  return {
+    reasons: cutoffs.map((c) => c.reason),
+    ts: Math.max(...cutoffs.map((c) => c.ts)),
+  };
+};
+
+// truncateTimeseriesTables deletes the oldest rows of every timeseries table
+// which exceeds its retention policy
+export const truncateTimeseriesTables = async (
+  config: ConnectionConfig,
+  scaleFactor: ScaleFactor
+) => {
+  const policies = await retentionPolicies(config, scaleFactor);
+  const inTables = inList("table_name", timeseriesTables);
+
+  const stats = await QueryNoDb(
+    config,
+    TableStatsRow,
+    `
+      SELECT
+        stats.table_name AS tableName,
+        stats.count,
+        UNIX_TIMESTAMP(minmax.minTs) AS minTs,
+        UNIX_TIMESTAMP(minmax.maxTs) AS maxTs,
+        UNIX_TIMESTAMP(NOW(6)) AS now
+      FROM
+        (
+          SELECT database_name, table_name, SUM(rows) AS count
+          FROM information_schema.table_statistics
+          WHERE
+            database_name = ?
+            AND ${inTables.sql}
+            AND partition_type = "Master"
+          GROUP BY database_name, table_name
+        ) stats,
+        (
+          SELECT
+            database_name, table_name,
+            MIN(min_value) AS minTs,
+            MAX(max_value) AS maxTs
+          FROM information_schema.columnar_segments
+          WHERE column_name = "ts"
+          GROUP BY database_name, table_name
+        ) minmax
+      WHERE
+        stats.database_name = minmax.database_name
+        AND stats.table_name = minmax.table_name
+    `,
+    config.database,
+    ...inTables.params
+  );
+
+  const deletions = await Promise.all(
+    stats.map(async (table): Promise<RetentionDeletion | undefined> => {
+      const policy = policies.find((p) => p.tableName === table.tableName);
+      const cutoff = policy && retentionCutoff(policy, table);
+      if (!cutoff) {
+        return;
+      }
+
+      // the cutoff is converted back with FROM_UNIXTIME so that it is
+      // interpreted in the same time zone as the statistics
+      const { rowsAffected } = await Exec(
+        config,
+        `DELETE FROM ${table.tableName} WHERE ts <= FROM_UNIXTIME(?)`,
+        cutoff.ts
+      );
+      return {
+        tableName: table.tableName,
+        reasons: cutoff.reasons,
+        cutoff: new Date(cutoff.ts * 1000),
+        rowsBefore: table.count,
+        rowsDeleted: rowsAffected,
+      };
+    })
+  );
+
+  const deleted = deletions.filter((d): d is RetentionDeletion => !!d);
+  if (deleted.length > 0) {
+    recordRetentionRun(deleted);
+  }
+};
@@ -1,15 +1,67 @@
+import { sortSchemaObjects } from "@/schemagraph";
 // these files are parsed at build time in vite.config.js
-import FUNCTIONS from "@/sql/functions.sql";
+import FUNCTIONS, { SchemaObject } from "@/sql/functions.sql";
 import PIPELINES from "@/sql/pipelines.sql";
 import PROCEDURES from "@/sql/procedures.sql";
 import TABLES from "@/sql/schema.sql";
 import SEED from "@/sql/seed.sql";
 
 export { FUNCTIONS, PIPELINES, PROCEDURES, SEED, TABLES };
+export type { SchemaObject };
+
+// schema.sql also defines the table valued functions used by the procedures
+export const BUNDLED_TABLES = TABLES.filter(({ kind }) => kind === "table");
+export const BUNDLED_ROUTINES = [
+  ...FUNCTIONS,
+  ...TABLES.filter(({ kind }) => kind === "function"),
+  ...PROCEDURES,
+];
+
+// every bundled object in the order in which it can be created, the build
+// fails if the files reference an object which is not bundled or if objects
+// depend on each other in a cycle
+const SCHEMA = sortSchemaObjects([
+  ...FUNCTIONS,
+  ...TABLES,
+  ...PROCEDURES,
+  ...PIPELINES,
+  ...SEED,
+]);
+
+// the tables, functions and procedures which make up the schema in the order
+// in which they are created, drop them in reverse
+export const SCHEMA_OBJECTS = SCHEMA.filter(
+  ({ kind }) => kind !== "pipeline" && kind !== "statement"
+);
+export const BUNDLED_PIPELINES = SCHEMA.filter(
+  ({ kind }) => kind === "pipeline"
+);
 
 export const S3_BUCKET_NAME = "singlestore-realtime-digital-marketing";
 
-type SchemaObject = (typeof FUNCTIONS)[0];
+export type Migration = {
+  version: number;
+  name: string;
+  statements: Array<SchemaObject>;
+};
+
+// migrations are parsed at build time like the files above, each file is
+// called NNNN_name.sql where NNNN is its version
+const MIGRATION_FILES = import.meta.globEager("../../../sql/migrations/*.sql");
+
+export const MIGRATIONS: Array<Migration> = Object.entries(MIGRATION_FILES)
+  .map(([path, module]) => {
+    const match = path.match(/(\d+)_(\w+)\.sql$/);
+    if (!match) {
+      throw new Error("Invalid migration file name: " + path);
+    }
+    return {
+      version: parseInt(match[1], 10),
+      name: match[2],
+      statements: module.default as Array<SchemaObject>,
+    };
+  })
+  .sort((a, b) => a.version - b.version);
 
 export const findSchemaObjectByName = (name: string): SchemaObject => {
   const search = [FUNCTIONS, PROCEDURES, TABLES, SEED];
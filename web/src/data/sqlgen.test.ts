@@ -0,0 +1,103 @@
+import { describe, expect, test } from "vitest";
+
+import {
+  compileInsert,
+  compileInsertChunks,
+  eq,
+  expr,
+  ident,
+  inList,
+  InsertStatement,
+} from "@/data/sqlgen";
+
+describe("escaping", () => {
+  test("quotes every part of an identifier and doubles backticks", () => {
+    expect(ident("offers.offer_id")).toBe("`offers`.`offer_id`");
+    expect(ident("we`ird")).toBe("`we``ird`");
+    expect(ident("offers.*")).toBe("`offers`.*");
+  });
+
+  test("sends values as params instead of inlining them", () => {
+    const evil = "'; DROP TABLE offers; --";
+    expect(eq("offers.vendor", evil)).toEqual({
+      sql: "`offers`.`vendor` = ?",
+      params: [evil],
+    });
+    expect(expr`${eq("a", 1)} AND b = ${"x"}`).toEqual({
+      sql: "`a` = ? AND b = ?",
+      params: [1, "x"],
+    });
+  });
+});
+
+describe("inList", () => {
+  test("is never true for an empty list", () => {
+    expect(inList("city_id", [])).toEqual({ sql: "FALSE", params: [] });
+  });
+
+  test("binds one param per value", () => {
+    expect(inList("city_id", [1, 2])).toEqual({
+      sql: "`city_id` IN (?, ?)",
+      params: [1, 2],
+    });
+  });
+});
+
+describe("compileInsertChunks", () => {
+  const insert = (rows: number): InsertStatement => ({
+    table: "t",
+    columns: ["a", "b"],
+    tuples: Array.from({ length: rows }, (_, i) => [i, "x"]),
+  });
+
+  test("keeps inserts within the limits in a single statement", () => {
+    const stmt = insert(3);
+    expect(compileInsertChunks(stmt)).toEqual([
+      { ...compileInsert(stmt), tuples: 3 },
+    ]);
+  });
+
+  test("splits exactly at the param limit", () => {
+    const limits = { maxParams: 4, maxBytes: Infinity };
+    expect(compileInsertChunks(insert(4), limits).map((c) => c.tuples)).toEqual(
+      [2, 2]
+    );
+    expect(compileInsertChunks(insert(5), limits).map((c) => c.tuples)).toEqual(
+      [2, 2, 1]
+    );
+  });
+
+  test("splits on the byte limit and keeps rows in order", () => {
+    const [first] = compileInsertChunks(insert(1));
+    const size = first.sql.length + JSON.stringify(first.params).length;
+    const chunks = compileInsertChunks(insert(3), {
+      maxParams: Infinity,
+      maxBytes: size,
+    });
+    expect(chunks.map((c) => c.tuples)).toEqual([1, 1, 1]);
+    expect(chunks.map((c) => c.params[0])).toEqual([0, 1, 2]);
+  });
+
+  test("gives a tuple which exceeds the limits a chunk of its own", () => {
+    const chunks = compileInsertChunks(insert(2), {
+      maxParams: 1,
+      maxBytes: 1,
+    });
+    expect(chunks.map((c) => c.tuples)).toEqual([1, 1]);
+  });
+
+  test("counts the params of an upsert in every chunk", () => {
+    const chunks = compileInsertChunks(
+      { ...insert(2), options: { onDuplicateKeyUpdate: { b: "y" } } },
+      { maxParams: 3, maxBytes: Infinity }
+    );
+    expect(chunks.map((c) => c.params)).toEqual([
+      [0, "x", "y"],
+      [1, "x", "y"],
+    ]);
+  });
+
+  test("returns no statements for no tuples", () => {
+    expect(compileInsertChunks(insert(0))).toEqual([]);
+  });
+});
@@ -1,75 +1,414 @@
-import dedent from "ts-dedent";
-
 import { SQLValue } from "@/data/client";
+import { stringifyJSON } from "@/data/json";
 
 export interface CompiledQuery {
   sql: string;
   params: Array<SQLValue>;
 }
 
-export type SQLChunk =
+// the builder below sends every value as a query parameter and quotes every
+// identifier, raw SQL can only be introduced through the expr template tag
+
+const isCompiledQuery = (v: unknown): v is CompiledQuery =>
+  typeof v === "object" &&
+  v !== null &&
+  !Array.isArray(v) &&
+  typeof (v as CompiledQuery).sql === "string" &&
+  Array.isArray((v as CompiledQuery).params);
+
+const joinQueries = (
+  queries: Array<CompiledQuery>,
+  separator: string
+): CompiledQuery => ({
+  sql: queries.map(({ sql }) => sql).join(separator),
+  params: queries.flatMap(({ params }) => params),
+});
+
+// expr builds a SQL expression from a template, interpolated values become
+// parameters unless they are compiled queries themselves
+export const expr = (
+  strings: TemplateStringsArray,
+  ...values: Array<SQLValue | CompiledQuery>
+): CompiledQuery => {
+  let sql = strings[0];
+  const params: Array<SQLValue> = [];
+  values.forEach((value, i) => {
+    if (isCompiledQuery(value)) {
+      sql += value.sql;
+      params.push(...value.params);
+    } else {
+      sql += "?";
+      params.push(value);
+    }
+    sql += strings[i + 1];
+  });
+  return { sql, params };
+};
+
+// ident quotes a possibly qualified identifier such as offers.offer_id
+export const ident = (name: string) =>
+  name
+    .split(".")
+    .map((part) => (part === "*" ? part : `\`${part.replace(/`/g, "``")}\``))
+    .join(".");
+
+// col references a column in a position where a value is expected, e.g. to
+// compare two columns with eq
+export const col = (name: string): CompiledQuery => ({
+  sql: ident(name),
+  params: [],
+});
+
+type Operand = string | CompiledQuery;
+
+const operand = (column: Operand) =>
+  typeof column === "string" ? col(column) : column;
+
+const value = (v: SQLValue | CompiledQuery) =>
+  isCompiledQuery(v) ? v : { sql: "?", params: [v] };
+
+type ComparisonOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+const compare =
+  (op: ComparisonOperator) =>
+  (column: Operand, v: SQLValue | CompiledQuery): CompiledQuery =>
+    joinQueries([operand(column), value(v)], ` ${op} `);
+
+export const eq = compare("=");
+export const ne = compare("!=");
+export const gt = compare(">");
+export const gte = compare(">=");
+export const lt = compare("<");
+export const lte = compare("<=");
+
+export const isNull = (column: Operand) => expr`${operand(column)} IS NULL`;
+export const isNotNull = (column: Operand) =>
+  expr`${operand(column)} IS NOT NULL`;
+
+export const inList = (
+  column: Operand,
+  values: ReadonlyArray<SQLValue>
+): CompiledQuery => {
+  if (values.length === 0) {
+    return { sql: "FALSE", params: [] };
+  }
+  return {
+    sql: `${operand(column).sql} IN (${values.map(() => "?").join(", ")})`,
+    params: [...operand(column).params, ...values],
+  };
+};
+
+const combine =
+  (op: "AND" | "OR", empty: string) =>
+  (...conditions: Array<CompiledQuery | undefined>): CompiledQuery => {
+    const defined = conditions.filter(isCompiledQuery);
+    if (defined.length === 0) {
+      return { sql: empty, params: [] };
+    }
+    if (defined.length === 1) {
+      return defined[0];
+    }
+    return joinQueries(
+      defined.map((c) => expr`(${c})`),
+      ` ${op} `
+    );
+  };
+
+// and and or skip undefined conditions, which makes optional filters easy
+export const and = combine("AND", "TRUE");
+export const or = combine("OR", "FALSE");
+export const not = (condition: CompiledQuery) => expr`NOT (${condition})`;
+
+export type SortDirection = "ASC" | "DESC";
+
+export type OrderBy = {
+  column: string;
+  direction?: SortDirection;
+};
+
+// orderBy only accepts columns from the allowed list, use it whenever the
+// sort column comes from the UI
+export const orderBy = <T extends string>(
+  column: string,
+  allowed: ReadonlyArray<T>,
+  direction: SortDirection = "ASC"
+): OrderBy => {
+  if (!allowed.includes(column as T)) {
+    throw new Error(`Unsupported sort column: ${column}`);
+  }
+  return { column, direction };
+};
+
+// a column is either a column name or an [expression or column, alias] pair
+export type SelectColumn = string | [Operand, string];
+
+// a source is either a table name or an aliased table, subquery or expression
+export type FromItem =
   | string
-  | {
-      sql: string;
-      params?: Array<SQLValue>;
-    };
+  | { source: string | SelectStatement | CompiledQuery; alias: string };
+
+export type Join = {
+  kind?: "INNER" | "LEFT";
+  from: FromItem;
+  on: CompiledQuery;
+};
 
-export type WithStatement = {
-  with: Array<[string, SQLChunk]>;
-  base: SQLChunk;
+export type SelectStatement = {
+  with?: Array<[string, SelectStatement | CompiledQuery]>;
+  columns: Array<SelectColumn>;
+  from?: FromItem | Array<FromItem>;
+  joins?: Array<Join>;
+  where?: CompiledQuery;
+  groupBy?: Array<string>;
+  orderBy?: Array<OrderBy>;
+  limit?: number;
+  offset?: number;
 };
 
+const indent = (sql: string) => sql.replace(/^/gm, "  ");
+
+const compileColumn = (column: SelectColumn): CompiledQuery => {
+  if (typeof column === "string") {
+    return col(column);
+  }
+  const [source, alias] = column;
+  return expr`${operand(source)} AS ${col(alias)}`;
+};
+
+const compileFromItem = (item: FromItem): CompiledQuery => {
+  if (typeof item === "string") {
+    return col(item);
+  }
+  const { source, alias } = item;
+  if (typeof source === "string") {
+    return expr`${col(source)} AS ${col(alias)}`;
+  }
+  const { sql, params } = isCompiledQuery(source)
+    ? source
+    : compileSelect(source);
+  return { sql: `(\n${indent(sql)}\n) AS ${ident(alias)}`, params };
+};
+
+export const compileSelect = (stmt: SelectStatement): CompiledQuery => {
+  const clauses: Array<CompiledQuery> = [];
+
+  if (stmt.with && stmt.with.length > 0) {
+    const ctes = stmt.with.map(([name, query]) => {
+      const { sql, params } = isCompiledQuery(query)
+        ? query
+        : compileSelect(query);
+      return { sql: `${ident(name)} AS (\n${indent(sql)}\n)`, params };
+    });
+    clauses.push(expr`WITH ${joinQueries(ctes, ",\n")}`);
+  }
+
+  clauses.push(
+    expr`SELECT ${joinQueries(stmt.columns.map(compileColumn), ", ")}`
+  );
+
+  if (stmt.from) {
+    const items = Array.isArray(stmt.from) ? stmt.from : [stmt.from];
+    clauses.push(expr`FROM ${joinQueries(items.map(compileFromItem), ", ")}`);
+  }
+
+  for (const { kind, from, on } of stmt.joins || []) {
+    clauses.push(
+      expr`${{ sql: kind || "INNER", params: [] }} JOIN ${compileFromItem(
+        from
+      )} ON ${on}`
+    );
+  }
+
+  if (stmt.where) {
+    clauses.push(expr`WHERE ${stmt.where}`);
+  }
+
+  if (stmt.groupBy && stmt.groupBy.length > 0) {
+    clauses.push(expr`GROUP BY ${joinQueries(stmt.groupBy.map(col), ", ")}`);
+  }
+
+  if (stmt.orderBy && stmt.orderBy.length > 0) {
+    const terms = stmt.orderBy.map(({ column, direction }) => ({
+      sql: `${ident(column)} ${direction === "DESC" ? "DESC" : "ASC"}`,
+      params: [],
+    }));
+    clauses.push(expr`ORDER BY ${joinQueries(terms, ", ")}`);
+  }
+
+  if (stmt.limit !== undefined) {
+    clauses.push(expr`LIMIT ${stmt.limit}`);
+  }
+
+  if (stmt.offset !== undefined) {
+    clauses.push(expr`OFFSET ${stmt.offset}`);
+  }
+
+  return joinQueries(clauses, "\n");
+};
+
+export type UpdateStatement = {
+  table: string;
+  set: { [column: string]: SQLValue | CompiledQuery };
+  where: CompiledQuery;
+};
+
+// compileUpdate requires a where condition, pass and() to update every row
+export const compileUpdate = (stmt: UpdateStatement): CompiledQuery => {
+  const assignments = Object.entries(stmt.set).map(([column, v]) =>
+    eq(column, v)
+  );
+  return joinQueries(
+    [
+      expr`UPDATE ${col(stmt.table)}`,
+      expr`SET ${joinQueries(assignments, ", ")}`,
+      expr`WHERE ${stmt.where}`,
+    ],
+    "\n"
+  );
+};
+
+export type DeleteStatement = {
+  table: string;
+  where: CompiledQuery;
+};
+
+// compileDelete requires a where condition, pass and() to delete every row
+export const compileDelete = (stmt: DeleteStatement): CompiledQuery =>
+  joinQueries(
+    [expr`DELETE FROM ${col(stmt.table)}`, expr`WHERE ${stmt.where}`],
+    "\n"
+  );
+
 export type InsertStatement = {
   table: string;
   options?: {
-    replace: boolean;
+    replace?: boolean;
+
+    // skip rows which would violate a unique key instead of failing
+    ignore?: boolean;
+
+    // on a duplicate key, either copy the listed columns from the inserted row
+    // or assign each column an expression, e.g. expr`hits + VALUES(hits)`
+    onDuplicateKeyUpdate?:
+      | Array<string>
+      | { [column: string]: SQLValue | CompiledQuery };
   };
   columns: Array<string>;
   tuples: Array<Array<SQLValue>>;
 };
 
-export const compileInsert = (stmt: InsertStatement): CompiledQuery => {
-  const { table, columns, tuples, options } = stmt;
+const compileInsertHeader = ({ table, columns, options }: InsertStatement) => {
+  if (options?.replace && (options.ignore || options.onDuplicateKeyUpdate)) {
+    throw new Error("REPLACE can not be combined with IGNORE or an upsert");
+  }
+  const verb = options?.replace
+    ? "REPLACE"
+    : options?.ignore
+    ? "INSERT IGNORE"
+    : "INSERT";
+  return `${verb} INTO ${ident(table)}\n(${columns.map(ident).join(", ")})`;
+};
 
-  const tupleSQL = `(${columns.map(() => "?").join(",")})`;
-  const valuesSQL = tuples.map(() => tupleSQL).join(",");
+const compileOnDuplicateKeyUpdate = ({
+  options,
+}: InsertStatement): CompiledQuery | undefined => {
+  const update = options?.onDuplicateKeyUpdate;
+  if (!update) {
+    return;
+  }
+  const assignments = Array.isArray(update)
+    ? update.map((column) => eq(column, expr`VALUES(${col(column)})`))
+    : Object.entries(update).map(([column, v]) => eq(column, v));
+  return expr`ON DUPLICATE KEY UPDATE ${joinQueries(assignments, ", ")}`;
+};
 
+const compileInsertRows = (
+  header: string,
+  tuples: Array<Array<SQLValue>>,
+  upsert?: CompiledQuery
+): CompiledQuery => {
+  const tupleSQL = (tuple: Array<SQLValue>) =>
+    `(${tuple.map(() => "?").join(",")})`;
   return {
-    sql: dedent`
-      ${options?.replace ? "REPLACE" : "INSERT"} INTO ${table}
-      (${columns.join(", ")})
-      VALUES
-        ${valuesSQL}
-    `,
-    params: tuples.flat(),
+    sql: [
+      header,
+      "VALUES",
+      `  ${tuples.map(tupleSQL).join(",")}`,
+      ...(upsert ? [upsert.sql] : []),
+    ].join("\n"),
+    params: [...tuples.flat(), ...(upsert?.params || [])],
   };
 };
 
-export const compileChunk = (stmt: SQLChunk): CompiledQuery => {
-  return {
-    sql: typeof stmt === "string" ? stmt : stmt.sql,
-    params: typeof stmt === "string" ? [] : stmt.params || [],
-  };
+export const compileInsert = (stmt: InsertStatement): CompiledQuery =>
+  compileInsertRows(
+    compileInsertHeader(stmt),
+    stmt.tuples,
+    compileOnDuplicateKeyUpdate(stmt)
+  );
+
+export type InsertChunkLimits = {
+  maxParams: number;
+
+  // upper bound on the size of the statement and its JSON encoded params
+  maxBytes: number;
 };
 
-export const compileWithStatement = (stmt: WithStatement): CompiledQuery => {
-  const { with: fragments, base } = stmt;
+export const DEFAULT_INSERT_CHUNK_LIMITS: InsertChunkLimits = {
+  maxParams: 10000,
+  maxBytes: 512 * 1024,
+};
 
-  const fragmentsParams: Array<SQLValue> = [];
-  const fragmentsSQL = fragments
-    .map(([name, fragment]) => {
-      const { sql, params } = compileChunk(fragment);
-      fragmentsParams.push(...params);
-      return `${name} AS (${dedent(sql)})`;
-    })
-    .join(",\n");
+export type InsertChunk = CompiledQuery & {
+  // the number of tuples written by this chunk, chunks are returned in order
+  tuples: number;
+};
 
-  const { sql, params } = compileChunk(base);
-  return {
-    sql: dedent`
-      WITH ${fragmentsSQL}
-      ${dedent(sql)}
-    `,
-    params: [...fragmentsParams, ...params],
+// compileInsertChunks splits a bulk insert into statements which stay within
+// limits, a single tuple which exceeds the limits gets a chunk of its own
+export const compileInsertChunks = (
+  stmt: InsertStatement,
+  limits: InsertChunkLimits = DEFAULT_INSERT_CHUNK_LIMITS
+): Array<InsertChunk> => {
+  const header = compileInsertHeader(stmt);
+  const upsert = compileOnDuplicateKeyUpdate(stmt);
+  const baseParams = upsert?.params.length || 0;
+  const baseBytes =
+    header.length +
+    (upsert ? upsert.sql.length + stringifyJSON(upsert.params).length : 0);
+
+  const chunks: Array<InsertChunk> = [];
+  let pending: Array<Array<SQLValue>> = [];
+  let params = baseParams;
+  let bytes = baseBytes;
+
+  const flush = () => {
+    if (pending.length > 0) {
+      chunks.push({
+        ...compileInsertRows(header, pending, upsert),
+        tuples: pending.length,
+      });
+    }
+    pending = [];
+    params = baseParams;
+    bytes = baseBytes;
   };
+
+  for (const tuple of stmt.tuples) {
+    // each tuple adds its placeholders, a separator and its encoded values
+    const tupleBytes = tuple.length * 2 + 2 + stringifyJSON(tuple).length;
+    if (
+      pending.length > 0 &&
+      (params + tuple.length > limits.maxParams ||
+        bytes + tupleBytes > limits.maxBytes)
+    ) {
+      flush();
+    }
+    pending.push(tuple);
+    params += tuple.length;
+    bytes += tupleBytes;
+  }
+  flush();
+
+  return chunks;
 };
@@ -0,0 +1,188 @@
+import { ConnectionConfigOptionalDatabase, SQLValue } from "@/data/client";
+import { stringifyJSON } from "@/data/json";
+
+export type DataAPIEndpoint = "query/rows" | "query/tuples" | "exec";
+
+export type DataAPIRequest = {
+  endpoint: DataAPIEndpoint;
+  config: ConnectionConfigOptionalDatabase;
+  sql: string;
+  args: Array<SQLValue>;
+};
+
+// DataAPIResponse is the raw HTTP response, the client is responsible for
+// decoding the body and turning errors into SQLErrors
+export type DataAPIResponse = {
+  status: number;
+  body: string;
+};
+
+export interface Transport {
+  name: string;
+  request(req: DataAPIRequest): Promise<DataAPIResponse>;
+}
+
+const rectifyHostAddress = (hostAddress: string) => {
+  if (
+    hostAddress.toLowerCase().startsWith("http://") ||
+    hostAddress.toLowerCase().startsWith("https://") ||
+    hostAddress === ""
+  ) {
+    return hostAddress;
+  } else {
+    return `https://${hostAddress}`;
+  }
+};
+
+// httpTransport talks to the SingleStore Data API over HTTP
+export const httpTransport: Transport = {
+  name: "http",
+
+  async request({ endpoint, config, sql, args }) {
+    const response = await fetch(
+      `${rectifyHostAddress(config.host)}/api/v2/${endpoint}`,
+      {
+        method: "POST",
+        signal: config.ctx?.signal,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Basic ${btoa(`${config.user}:${config.password}`)}`,
+        },
+        body: stringifyJSON({ sql, args, database: config.database }),
+      }
+    );
+
+    return { status: response.status, body: await response.text() };
+  },
+};
+
+export type MemoryHandler = (req: DataAPIRequest) => unknown | Promise<unknown>;
+
+const throwIfAborted = (config: ConnectionConfigOptionalDatabase) => {
+  if (config.ctx?.signal.aborted) {
+    throw new DOMException("The request was aborted", "AbortError");
+  }
+};
+
+// createMemoryTransport answers every request in-process by calling handler
+// and serializing whatever payload it returns as the response body
+export const createMemoryTransport = (
+  handler: MemoryHandler,
+  name = "memory"
+): Transport => ({
+  name,
+
+  async request(req) {
+    throwIfAborted(req.config);
+    const payload = await handler(req);
+    throwIfAborted(req.config);
+    return { status: 200, body: stringifyJSON(payload) };
+  },
+});
+
+// createLazyTransport loads the transport on its first request, which keeps
+// transports which are rarely used out of the main bundle
+export const createLazyTransport = (
+  name: string,
+  load: () => Promise<Transport>
+): Transport => {
+  let loaded: Promise<Transport> | undefined;
+
+  return {
+    name,
+
+    async request(req) {
+      if (!loaded) {
+        loaded = load();
+      }
+      return (await loaded).request(req);
+    },
+  };
+};
+
+export type RecordedRequest = {
+  endpoint: DataAPIEndpoint;
+  database?: string;
+  sql: string;
+  args: Array<SQLValue>;
+  response: DataAPIResponse;
+};
+
+const recordingKey = ({
+  endpoint,
+  database,
+  sql,
+  args,
+}: Omit<RecordedRequest, "response">) =>
+  stringifyJSON([endpoint, database || null, sql, args]);
+
+export type RecordingTransport = Transport & {
+  recording: () => Array<RecordedRequest>;
+  clear: () => void;
+};
+
+// createRecordingTransport forwards every request to inner and keeps a copy
+// of the request and response so that it can be replayed later
+export const createRecordingTransport = (
+  inner: Transport
+): RecordingTransport => {
+  let recorded: Array<RecordedRequest> = [];
+
+  return {
+    name: `recording(${inner.name})`,
+
+    async request(req) {
+      const response = await inner.request(req);
+      recorded.push({
+        endpoint: req.endpoint,
+        database: req.config.database,
+        sql: req.sql,
+        args: req.args,
+        response,
+      });
+      return response;
+    },
+
+    recording: () => [...recorded],
+    clear: () => {
+      recorded = [];
+    },
+  };
+};
+
+// createReplayTransport answers requests from a recording, requests which
+// were not recorded fail with a 404
+export const createReplayTransport = (
+  recording: Array<RecordedRequest>
+): Transport => {
+  const responses = new Map<string, Array<DataAPIResponse>>();
+  for (const { response, ...req } of recording) {
+    const key = recordingKey(req);
+    responses.set(key, [...(responses.get(key) || []), response]);
+  }
+
+  return {
+    name: "replay",
+
+    async request({ endpoint, config, sql, args }) {
+      throwIfAborted(config);
+
+      const key = recordingKey({
+        endpoint,
+        database: config.database,
+        sql,
+        args,
+      });
+      const queue = responses.get(key);
+      if (!queue || queue.length === 0) {
+        return {
+          status: 404,
+          body: `No recorded response for ${endpoint}: ${sql}`,
+        };
+      }
+
+      // replay responses in order, repeating the last one once exhausted
+      return queue.length > 1 ? (queue.shift() as DataAPIResponse) : queue[0];
+    },
+  };
+};
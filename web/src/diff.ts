@@ -0,0 +1,83 @@
+export type DiffLine = {
+  op: "equal" | "removed" | "added";
+  text: string;
+};
+
+// diffLines computes a line diff turning a into b from the longest common
+// subsequence of their lines, lines are compared without surrounding
+// whitespace
+export const diffLines = (a: string, b: string): Array<DiffLine> => {
+  const left = a.split("\n");
+  const right = b.split("\n");
+  const same = (i: number, j: number) => left[i].trim() === right[j].trim();
+
+  // lcs[i][j] is the length of the longest common subsequence of left[i:]
+  // and right[j:]
+  const lcs = Array.from({ length: left.length + 1 }, () =>
+    new Array<number>(right.length + 1).fill(0)
+  );
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(i, j)
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: Array<DiffLine> = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (same(i, j)) {
+      diff.push({ op: "equal", text: left[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ op: "removed", text: left[i++] });
+    } else {
+      diff.push({ op: "added", text: right[j++] });
+    }
+  }
+  left.slice(i).forEach((text) => diff.push({ op: "removed", text }));
+  right.slice(j).forEach((text) => diff.push({ op: "added", text }));
+
+  return diff;
+};
+
+export type SideBySideRow = {
+  left?: DiffLine;
+  right?: DiffLine;
+};
+
+// sideBySide lays out a diff in two columns, each run of removed lines is
+// paired with the run of added lines which follows it
+export const sideBySide = (diff: Array<DiffLine>): Array<SideBySideRow> => {
+  const rows: Array<SideBySideRow> = [];
+  let removed: Array<DiffLine> = [];
+  let added: Array<DiffLine> = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of diff) {
+    if (line.op === "equal") {
+      flush();
+      rows.push({ left: line, right: line });
+    } else if (line.op === "removed") {
+      if (added.length > 0) {
+        flush();
+      }
+      removed.push(line);
+    } else {
+      added.push(line);
+    }
+  }
+  flush();
+
+  return rows;
+};
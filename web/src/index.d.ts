@@ -1,9 +1,7 @@
 declare module "*.sql" {
-  export type SchemaObject = {
-    kind: string;
-    name?: string;
-    statement: string;
-  };
+  // see src/sqlparser.ts, which parses these files at build time
+  import { SchemaObject } from "@/sqlparser";
+  export type { SchemaObject };
 
   const src: Array<SchemaObject>;
   export default src;
@@ -1,12 +1,18 @@
 import { ChevronDownIcon } from "@chakra-ui/icons";
 import {
   Box,
+  Button,
+  Center,
   Container,
   Flex,
   Grid,
   GridItem,
   Heading,
   Icon,
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuList,
   Progress,
   Stack,
   Stat,
@@ -23,6 +29,7 @@ import {
   Tr,
   useColorModeValue,
   useMediaQuery,
+  useToast,
 } from "@chakra-ui/react";
 import { format } from "d3-format";
 import { interpolateRgb } from "d3-interpolate";
@@ -34,23 +41,29 @@ import { HiBell, HiCalendar, HiCurrencyDollar, HiOfficeBuilding, HiOutlineBell,
 import { useRecoilValue } from "recoil";
 import useSWR from "swr";
 
+import { BudgetBurnDown } from "@/components/BudgetBurnDown";
 import { Loader } from "@/components/customcomponents/loader/Loader";
 import { EnableSimulatorWarning } from "@/components/EnableSimulatorButton";
 import { Heatmap } from "@/components/HeatMap";
 import { SetupDatabaseButton } from "@/components/SetupDatabaseButton";
+import { PagedQuery, Row } from "@/data/client";
+import { downloadBlob, queryToCSV } from "@/data/csv";
 import {
-  costMetrics,
+  conversionsExportQuery,
   CostMetrics,
+  costMetricsQuery,
   CustomerMetrics,
-  customerMetrics,
+  customerMetricsQuery,
   estimatedRowCountObj,
+  notificationsExportQuery,
   overallConversionRate,
   ZoneMetrics,
   zoneMetrics,
 } from "@/data/queries";
-import { connectionConfig, simulatorEnabled } from "@/data/recoil";
-import { useConnectionState } from "@/view/hooks/hooks";
+import { simulatorEnabled } from "@/data/recoil";
+import { useConnectionConfig, useConnectionState } from "@/view/hooks/hooks";
 import { useSimulationMonitor } from "@/view/hooks/useSimulationMonitor";
+import { usePagedQuery } from "@/view/hooks/usePagedQuery";
 import { useSimulator } from "@/view/hooks/useSimulator";
 
 const formatPct = format(",.2%");
@@ -133,6 +146,9 @@ const DashboardContainerChild = () => {
   }
   return (
     <Stack gap={10}>
+      <Flex justifyContent="flex-end">
+        <ExportCSVMenu />
+      </Flex>
       <Stack spacing={3}>
         <Stack spacing={2}>
           <Heading fontSize="xl">Engagement</Heading>
@@ -150,6 +166,15 @@ const DashboardContainerChild = () => {
           </Text>
         </Stack>
         <ConversionTable />
+      </Stack>
+      <Stack spacing={3}>
+        <Stack spacing={2}>
+          <Heading fontSize="xl">Budgets</Heading>
+          <Text overflowWrap="break-word">
+            Remaining budget of the offers closest to spending it
+          </Text>
+        </Stack>
+        <BudgetBurnDown />
       </Stack>
             <Stack spacing={3}>
         <Stack spacing={2}>
@@ -165,7 +190,7 @@ const DashboardContainerChild = () => {
 };
 
 const StatGrid = () => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("StatGrid");
 
   const overallRateRequests = useSWR(
     ["overallConversionRateRequests", config],
@@ -222,21 +247,107 @@ const StatGrid = () => {
   );
 };
 
+const TABLE_PAGE_SIZE = 10;
+const EXPORT_PAGE_SIZE = 5000;
+
+const LoadMoreButton = ({
+  hasMore,
+  isLoadingMore,
+  loadMore,
+}: {
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => void;
+}) => {
+  if (!hasMore) {
+    return null;
+  }
+  return (
+    <Center paddingTop={2}>
+      <Button size="sm" isLoading={isLoadingMore} onClick={loadMore}>
+        Load more
+      </Button>
+    </Center>
+  );
+};
+
+type ExportName =
+  | "notifications"
+  | "requests-conversions"
+  | "purchases-conversions";
+
+const EXPORTS: { [name in ExportName]: () => PagedQuery<Row> } = {
+  notifications: () => notificationsExportQuery(EXPORT_PAGE_SIZE),
+  "requests-conversions": () =>
+    conversionsExportQuery("requests", EXPORT_PAGE_SIZE),
+  "purchases-conversions": () =>
+    conversionsExportQuery("purchases", EXPORT_PAGE_SIZE),
+};
+
+const ExportCSVMenu = () => {
+  const config = useConnectionConfig("ExportCSVMenu");
+  const [exportedRows, setExportedRows] = React.useState<number>();
+  const toast = useToast();
+
+  const handleExport = async (name: ExportName) => {
+    setExportedRows(0);
+    try {
+      const blob = await queryToCSV(config, EXPORTS[name](), setExportedRows);
+      downloadBlob(blob, `${name}.csv`);
+    } catch (e) {
+      toast({
+        title: "Export failed",
+        description: (e as Error).message,
+        status: "error",
+        isClosable: true,
+      });
+    } finally {
+      setExportedRows(undefined);
+    }
+  };
+
+  return (
+    <Menu>
+      <MenuButton
+        as={Button}
+        size="sm"
+        rightIcon={<ChevronDownIcon />}
+        isLoading={exportedRows !== undefined}
+        loadingText={`Exported ${formatStat(exportedRows || 0)} rows`}
+      >
+        Export CSV
+      </MenuButton>
+      <MenuList>
+        <MenuItem onClick={() => handleExport("notifications")}>
+          Notifications
+        </MenuItem>
+        <MenuItem onClick={() => handleExport("requests-conversions")}>
+          Conversions (requests)
+        </MenuItem>
+        <MenuItem onClick={() => handleExport("purchases-conversions")}>
+          Conversions (purchases)
+        </MenuItem>
+      </MenuList>
+    </Menu>
+  );
+};
+
 const ConversionTable = () => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("ConversionTable");
   const [sortColumn, setSortColumn] =
     React.useState<keyof CustomerMetrics>("conversionRate");
 
-  const metricsTableData = useSWR(
-    ["customerMetrics", config, sortColumn],
-    () => customerMetrics(config, "purchases", sortColumn, 10),
-    { refreshInterval: 1000 }
+  const metricsTableData = usePagedQuery(
+    ["customerMetrics", sortColumn],
+    config,
+    customerMetricsQuery("purchases", sortColumn, TABLE_PAGE_SIZE),
+    1000
   );
   const activeColor = useColorModeValue("#553ACF", "#CCC3F9");
   const cellLeftPadding = "10px";
 
   const getTableBody = () => {
-    if (metricsTableData.isValidating && !metricsTableData.data) {
+    if (metricsTableData.isValidating && !metricsTableData.rows) {
       return (
         <Tr>
           <Td colSpan={4}>
@@ -244,7 +355,7 @@ const ConversionTable = () => {
           </Td>
         </Tr>
       );
-    } else if (!metricsTableData.data) {
+    } else if (!metricsTableData.rows) {
       return (
         <Tr>
           <Td colSpan={4}>
@@ -256,7 +367,7 @@ const ConversionTable = () => {
       );
     }
 
-    return metricsTableData.data?.map((c) => (
+    return metricsTableData.rows?.map((c) => (
       <Tr key={c.customer}>
         <Td>{c.customer}</Td>
         <Td paddingLeft={cellLeftPadding}>
@@ -350,13 +461,14 @@ const ConversionTable = () => {
           <Tbody>{getTableBody()}</Tbody>
         </Table>
       </TableContainer>
+      <LoadMoreButton {...metricsTableData} />
     </Box>
   );
 };
 
 const CostsTable = () => {
   console.log("rendering...")
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("CostsTable");
   const [sortColumn, setSortColumn] =
     React.useState<keyof CostMetrics>("timestamp");
 
@@ -381,16 +493,17 @@ const CostsTable = () => {
     return () => clearTimeout(timeout); // Cleanup timeout on unmount
   }, [loading]);
 
-  const costTableData = useSWR(
-    ["costMetrics", config, sortColumn],
-    () => costMetrics(config, sortColumn, 10),
-    { refreshInterval: 1000 }
+  const costTableData = usePagedQuery(
+    ["costMetrics", sortColumn],
+    config,
+    costMetricsQuery(sortColumn, TABLE_PAGE_SIZE),
+    1000
   );
   const activeColor = useColorModeValue("#553ACF", "#CCC3F9");
   const cellLeftPadding = "10px";
 
-  const maxCost = Math.max(...costTableData.data?.map(offer => offer.cost) ?? [0]);
-  const minCost = Math.min(...costTableData.data?.map(offer => offer.cost) ?? [0]);
+  const maxCost = Math.max(...costTableData.rows?.map(offer => offer.cost) ?? [0]);
+  const minCost = Math.min(...costTableData.rows?.map(offer => offer.cost) ?? [0]);
 
   // Function to determine the background color based on cost
   const getCostColor = (cost: number, minCost: number, maxCost: number) => {
@@ -408,7 +521,7 @@ const CostsTable = () => {
           </Td>
         </Tr>
       );
-    } else if (costTableData.isValidating && !costTableData.data) {
+    } else if (costTableData.isValidating && !costTableData.rows) {
         return (
           <Tr>
             <Td colSpan={4}>
@@ -416,7 +529,7 @@ const CostsTable = () => {
             </Td>
           </Tr>
         );
-      } else if (!costTableData.data) {
+      } else if (!costTableData.rows) {
         return (
           <Tr>
             <Td colSpan={4}>
@@ -428,7 +541,7 @@ const CostsTable = () => {
         );
       }
     
-      return costTableData.data?.map((offer) => (
+      return costTableData.rows?.map((offer) => (
         <Tr key={`${offer.offerId}-${offer.subscriberId}-${offer.timestamp}-${offer.customer}`}>
           <Td>{offer.customer}</Td>
           <Td>{offer.timestamp}</Td>
@@ -526,6 +639,7 @@ const CostsTable = () => {
           <Tbody>{getTableBody()}</Tbody>
         </Table>
       </TableContainer>
+      <LoadMoreButton {...costTableData} />
     </Box>
   );
 };
@@ -534,7 +648,7 @@ const useConversionCells = (
   bounds: Bounds,
   callback: (cells: Array<ZoneMetrics>) => void
 ) => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("useConversionCells");
   useSWR(
     ["zoneMetrics", config, bounds],
     () => zoneMetrics(config, bounds, "purchases"),
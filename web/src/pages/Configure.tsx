@@ -26,6 +26,7 @@ import {
   ModalBody,
   ModalCloseButton,
   ModalContent,
+  ModalFooter,
   ModalHeader,
   ModalOverlay,
   SimpleGrid,
@@ -37,7 +38,7 @@ import {
   useMediaQuery,
 } from "@chakra-ui/react";
 import * as React from "react";
-import { useNavigate } from "react-router-dom";
+import { Link as RouterLink, useNavigate } from "react-router-dom";
 import { useRecoilState, useRecoilValue } from "recoil";
 import useSWR, { useSWRConfig } from "swr";
 
@@ -46,39 +47,53 @@ import { CodeBlock } from "@/components/CodeBlock";
 import { PrimaryButton } from "@/components/customcomponents/Button";
 import { Loader } from "@/components/customcomponents/loader/Loader";
 import { DatabaseConfigForm } from "@/components/dataConfigForm/DatabaseConfigFormAutomatic";
+import { EventGeneratorForm } from "@/components/EventGeneratorForm";
+import {
+  CustomerFrequencyCapsForm,
+  SubscriberFrequencyCapsForm,
+} from "@/components/FrequencyCapsForm";
 import { IngestChart, useIngestChartData } from "@/components/IngestChart";
 import { OfferMap } from "@/components/OfferMap";
+import { PipelineSourceForm } from "@/components/PipelineSourceForm";
 import { DEFAULT_CENTER, PixiMap } from "@/components/PixiMap";
 import { ResetSchemaButton } from "@/components/ResetSchemaButton";
+import { RetentionPolicyForm } from "@/components/RetentionPolicyForm";
+import { RetentionReport } from "@/components/RetentionReport";
+import { SchemaDiff } from "@/components/SchemaDiff";
 import { ConnectionConfig } from "@/data/client";
+import { applySchemaObject, schemaObjectDefinition } from "@/data/migrations";
+import { PipelineName, pipelineNames } from "@/data/pipelines";
+import { checkPlans } from "@/data/plancache";
 import {
-  checkPlans,
   ensurePipelinesExist,
   estimatedRowCountObj,
   getPipelineSQL,
   insertSeedData,
-  PipelineName,
-  pipelineNames,
   pipelineStatus,
   runMatchingProcess,
   runUpdateSegments,
 } from "@/data/queries";
 import {
+  configPipelineSource,
   configScaleFactor,
   connectionConfig,
   connectionDatabase,
+  eventGeneratorEnabled,
   resettingSchema,
 } from "@/data/recoil";
 import { findSchemaObjectByName } from "@/data/sql";
 import { timeseriesIsEmpty } from "@/data/timeseries";
 import { toISOStringNoTZ } from "@/datetime";
+import { diffLines } from "@/diff";
 import { formatMs, formatNumber } from "@/format";
+import { PipelineSource } from "@/pipelinesources";
 import {
   useNotificationsDataKey,
   useNotificationsRenderer,
 } from "@/render/useNotificationsRenderer";
 import { ScaleFactor } from "@/scalefactors";
 import {
+  useConnectionConfig,
   useConnectionState,
   useSchemaObjects,
   useTimer,
@@ -241,23 +256,81 @@ const SchemaObjectModal = ({
   onClose: () => void;
   schemaObjectName: string;
 }) => {
+  const config = useConnectionConfig("SchemaObjectModal");
+  const { reset } = useConnectionState();
   const { name, statement } = findSchemaObjectByName(schemaObjectName);
   const [isSmallScreen] = useMediaQuery("(max-width: 640px)");
+  const [applying, applyingCtrl] = useBoolean();
+
+  const definition = useSWR(["schemaObjectDefinition", config, name], () =>
+    schemaObjectDefinition(config, schemaObjectName)
+  );
+  const { kind, bundled, deployed } = definition.data || {};
+
+  const changed =
+    bundled !== undefined &&
+    (deployed === undefined ||
+      diffLines(deployed, bundled).some(({ op }) => op !== "equal"));
+
+  const onApply = React.useCallback(async () => {
+    applyingCtrl.on();
+    await applySchemaObject(config, schemaObjectName);
+    await definition.mutate();
+    reset();
+    applyingCtrl.off();
+  }, [applyingCtrl, config, schemaObjectName, definition, reset]);
+
+  let body;
+  if (!definition.data) {
+    body = <Loader size="small" centered />;
+  } else if (deployed === undefined || bundled === undefined) {
+    body = (
+      <>
+        <Text mb={4}>{name} does not exist in the database yet.</Text>
+        <CodeBlock mb={4}>{statement}</CodeBlock>
+      </>
+    );
+  } else {
+    body = (
+      <>
+        <Text mb={4}>
+          {changed
+            ? `The deployed ${kind} differs from the bundled statement.`
+            : `The deployed ${kind} matches the bundled statement.`}
+        </Text>
+        <SchemaDiff
+          leftTitle="Deployed"
+          rightTitle="Bundled"
+          left={deployed}
+          right={bundled}
+        />
+      </>
+    );
+  }
+
+  let applyButton;
+  if (kind === "routine" && changed) {
+    applyButton = (
+      <PrimaryButton size="sm" onClick={onApply} disabled={applying} gap={2}>
+        {applying && <Loader size="small" />}
+        Recreate {name}
+      </PrimaryButton>
+    );
+  }
 
   return (
     <Modal
       isOpen
       onClose={onClose}
-      size={isSmallScreen ? "full" : "4xl"}
+      size={isSmallScreen ? "full" : "6xl"}
       scrollBehavior="inside"
     >
       <ModalOverlay />
       <ModalContent>
-        <ModalHeader>Create statement for {name}</ModalHeader>
+        <ModalHeader>Definition of {name}</ModalHeader>
         <ModalCloseButton />
-        <ModalBody>
-          <CodeBlock mb={4}>{statement}</CodeBlock>
-        </ModalBody>
+        <ModalBody>{body}</ModalBody>
+        <ModalFooter>{applyButton}</ModalFooter>
       </ModalContent>
     </Modal>
   );
@@ -302,8 +375,9 @@ const ConfigHeader = ({
   const [database, setDatabase] = useRecoilState(connectionDatabase);
   const resetButtonBackground = useColorModeValue("#ECE8FD", "#2F206E");
   const resetButtonFontColor = useColorModeValue("#553ACF", "#ECE8FD");
+  const { needsUpgrade } = useConnectionState();
 
-  if (configInitialized) {
+  if (configInitialized && !needsUpgrade) {
     return <></>;
   }
 
@@ -327,7 +401,7 @@ const ConfigHeader = ({
           size="sm"
           skipSeedData
         >
-          Setup schema
+          {needsUpgrade ? "Upgrade schema" : "Setup schema"}
         </ResetSchemaButton>
       </Box>
     </HStack>
@@ -408,7 +482,8 @@ const ShowPipelineModal = ({
   name: PipelineName;
   scaleFactor: ScaleFactor;
 }) => {
-  const sql = getPipelineSQL(name, scaleFactor, 8);
+  const source = useRecoilValue(configPipelineSource);
+  const sql = getPipelineSQL(name, scaleFactor, 8, source, true);
   const [isSmallScreen] = useMediaQuery("(max-width: 640px)");
 
   return (
@@ -435,15 +510,18 @@ const usePipelineStatus = (
   scaleFactor: ScaleFactor,
   enabled = true
 ) => {
+  const source = useRecoilValue(configPipelineSource);
   const pipelines = useSWR(
-    ["pipelineStatus", config, scaleFactor],
-    () => pipelineStatus(config, scaleFactor),
+    ["pipelineStatus", config, scaleFactor, source],
+    () => pipelineStatus(config, scaleFactor, source),
     { isPaused: () => !enabled }
   );
+  const generatorEnabled = useRecoilValue(eventGeneratorEnabled);
   const completed =
-    !!pipelines.data &&
-    pipelines.data.length > 0 &&
-    pipelines.data.every((p) => !p.needsUpdate);
+    generatorEnabled ||
+    (!!pipelines.data &&
+      pipelines.data.length > 0 &&
+      pipelines.data.every((p) => !p.needsUpdate));
   return { pipelines, completed };
 };
 
@@ -454,6 +532,8 @@ const PipelinesSection = ({
 }) => {
   const config = useRecoilValue(connectionConfig);
   const scaleFactor = useRecoilValue(configScaleFactor);
+  const source = useRecoilValue(configPipelineSource);
+  const generatorEnabled = useRecoilValue(eventGeneratorEnabled);
   const { pipelines, completed } = usePipelineStatus(config, scaleFactor);
   const isResettingSchema = useRecoilValue(resettingSchema);
   useSimulationMonitor(completed && !isResettingSchema);
@@ -466,10 +546,22 @@ const PipelinesSection = ({
 
   const onEnsurePipelines = React.useCallback(async () => {
     workingCtrl.on();
-    await ensurePipelinesExist(config, scaleFactor);
+    await ensurePipelinesExist(config, scaleFactor, source);
     pipelines.mutate();
     workingCtrl.off();
-  }, [workingCtrl, config, scaleFactor, pipelines]);
+  }, [workingCtrl, config, scaleFactor, source, pipelines]);
+
+  // pipelines which already exist are recreated when the source is saved, as
+  // a change to its credentials can not be detected by pipelineStatus
+  const onSaveSource = React.useCallback(
+    async (newSource: PipelineSource) => {
+      if (completed && !generatorEnabled) {
+        await ensurePipelinesExist(config, scaleFactor, newSource, true);
+      }
+      pipelines.mutate();
+    },
+    [completed, generatorEnabled, config, scaleFactor, pipelines]
+  );
 
   const tables = ["locations", "requests", "purchases"] as const;
   const data = useIngestChartData(config, ...tables);
@@ -540,11 +632,12 @@ const PipelinesSection = ({
           {" "}
           SingleStoreDB Pipelines{" "}
         </Link>
-        and{" "}
+        loading from{" "}
         <Link href="https://aws.amazon.com/s3/" target="_blank">
           AWS S3
-        </Link>
-        .
+        </Link>{" "}
+        by default, or from your own S3 compatible object store, Kafka cluster
+        or filesystem.
         <br />
         <br />
         View the pipelines for the following schemas:
@@ -559,6 +652,21 @@ const PipelinesSection = ({
           />
         ))}
       </SimpleGrid>
+      <br />
+      <Text>
+        Batches, failed files and errors of each pipeline are shown in the{" "}
+        <Link as={RouterLink} to="/pipelines">
+          pipeline console
+        </Link>
+        .
+      </Text>
+      <br />
+      <Stack spacing={4}>
+        <EventGeneratorForm connectionConfig={config} />
+        {generatorEnabled ? undefined : (
+          <PipelineSourceForm onSave={onSaveSource} />
+        )}
+      </Stack>
     </>
   );
 
@@ -914,7 +1022,7 @@ const MatchingSection = ({
       }
       right={
         <Flex direction="column" gap={4} padding="10px">
-          <Code padding="5px">{`select * from match_offers_to_subscribers("second");`}</Code>
+          <Code padding="5px">{`select * from match_offers_to_subscribers("second", NULL);`}</Code>
           <Flex
             direction="column"
             gap={4}
@@ -940,6 +1048,67 @@ const MatchingSection = ({
   );
 };
 
+const FrequencyCapsSection = ({
+  previousStepCompleted,
+}: {
+  previousStepCompleted: boolean;
+}) => (
+  <Section
+    completed={previousStepCompleted}
+    title="Frequency caps"
+    previousStepCompleted={previousStepCompleted}
+    left={
+      <Stack spacing={4}>
+        <Text>
+          Frequency caps keep the matching process from flooding subscribers
+          with notifications. The caps below apply to every subscriber and are
+          used by the simulator of this browser. Offers can be capped per
+          subscriber in the offer editor, and customers across all of their
+          offers on the right. Caps count the notifications kept by the
+          retention policy of the notifications table.
+        </Text>
+        <SubscriberFrequencyCapsForm />
+      </Stack>
+    }
+    right={
+      <Stack spacing={4} padding="10px">
+        <Heading size="sm">Customer caps</Heading>
+        <CustomerFrequencyCapsForm />
+      </Stack>
+    }
+  />
+);
+
+const RetentionSection = ({
+  previousStepCompleted,
+}: {
+  previousStepCompleted: boolean;
+}) => (
+  <Section
+    completed={previousStepCompleted}
+    title="Data retention"
+    previousStepCompleted={previousStepCompleted}
+    left={
+      <Stack spacing={4}>
+        <Text>
+          While the simulator runs, the oldest rows of the timeseries tables are
+          deleted to keep them within their retention policy. Limit a table by
+          its number of rows, the age of its rows or both. Set an age to keep
+          the conversion history of long running demos for a predictable time
+          window.
+        </Text>
+        <RetentionPolicyForm />
+      </Stack>
+    }
+    right={
+      <Stack spacing={4} padding="10px">
+        <Heading size="sm">Deleted rows</Heading>
+        <RetentionReport />
+      </Stack>
+    }
+  />
+);
+
 const CompleteToast = () => {
   const database = useRecoilValue(connectionDatabase);
   const navigate = useNavigate();
@@ -1081,6 +1250,21 @@ export const Configure = () => {
         />
       ),
     },
+    {
+      completed: initialized,
+      component: (
+        <FrequencyCapsSection
+          key="frequencyCaps"
+          previousStepCompleted={initialized}
+        />
+      ),
+    },
+    {
+      completed: initialized,
+      component: (
+        <RetentionSection key="retention" previousStepCompleted={initialized} />
+      ),
+    },
   ];
 
   const sections = [];
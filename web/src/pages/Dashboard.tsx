@@ -25,19 +25,18 @@ import { SELECTABLE_CITIES_DATA } from "@/data/constants";
 import { useUpdateCityList } from "@/data/models/useUpdateCityList";
 import { City } from "@/data/queries";
 import {
-  connectionConfig,
   isUpdatingCities,
   selectedCities as selectedCitiesFromRecoil,
   selectedCity,
   simulatorEnabled,
 } from "@/data/recoil";
 import { useNotificationsRenderer } from "@/render/useNotificationsRenderer";
-import { useConnectionState } from "@/view/hooks/hooks";
+import { useConnectionConfig, useConnectionState } from "@/view/hooks/hooks";
 import { useSimulationMonitor } from "@/view/hooks/useSimulationMonitor";
 import { useSimulator } from "@/view/hooks/useSimulator";
 
 const RealtimeChart = () => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("RealtimeChart");
   const ingestData = useIngestChartData(
     config,
     "locations",
@@ -91,12 +90,12 @@ const SelectCityCheckbox = (props: {
   const [lastSelectedCityId, setLastSelectedCityId] =
     useRecoilState(selectedCity);
 
-  const getNewSelectedCityAfterDeletion = (city: City): number => {
+  const getNewSelectedCityAfterDeletion = (city: City): string => {
     const cityIndex = selectedCities.findIndex((c) => c.id === city.id);
     if (cityIndex === 0 && selectedCities.length > 1) {
       return SELECTABLE_CITIES_DATA[1].id;
     }
-    return -1;
+    return "";
   };
 
   const getCheckedFontColor = (city: City) => {
@@ -136,7 +135,7 @@ const SelectCityCheckbox = (props: {
       if (numOfSelectedCities > 0) {
         setLastSelectedCityId(getNewSelectedCityAfterDeletion(city));
       } else {
-        setLastSelectedCityId(-1);
+        setLastSelectedCityId("");
       }
       onRemoveCity(city.id);
     }
@@ -185,7 +184,7 @@ const StatsWrapper = () => {
       ...SELECTABLE_CITIES_DATA,
       ...unknownSelectedCities,
     ]);
-    if (lastSelectedCityId === -1 && selectedCities.length > 0) {
+    if (lastSelectedCityId === "" && selectedCities.length > 0) {
       setLastSelectedCityId(selectedCities[0].id);
     }
   }, [selectedCities, lastSelectedCityId, setLastSelectedCityId]);
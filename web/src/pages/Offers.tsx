@@ -0,0 +1,280 @@
+import {
+  Badge,
+  Button,
+  Container,
+  Flex,
+  Heading,
+  HStack,
+  Input,
+  Stack,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useMediaQuery,
+  useToast,
+} from "@chakra-ui/react";
+import * as React from "react";
+import useSWR from "swr";
+
+import { PrimaryButton } from "@/components/customcomponents/Button";
+import { OfferEditor } from "@/components/OfferEditor";
+import { formatFrequencyCap } from "@/data/frequencycaps";
+import {
+  deleteOffer,
+  formatSegment,
+  formatSegmentExpression,
+  getOffers,
+  OfferStatus,
+  offerStatus,
+  SavedOffer,
+  setOfferEnabled,
+} from "@/data/offers";
+import { formatNumber } from "@/format";
+import { useConnectionConfig, useDebounce } from "@/view/hooks/hooks";
+
+const MAX_OFFERS = 100;
+
+const STATUS_COLORS: { [status in OfferStatus]: string } = {
+  active: "green",
+  paused: "gray",
+  scheduled: "blue",
+  ended: "gray",
+  "over budget": "orange",
+};
+
+const formatBudget = (spent: number, budget: number | null) =>
+  budget === null
+    ? formatNumber(spent)
+    : `${formatNumber(spent)} / ${formatNumber(budget)}`;
+
+// the editor is either closed, creating a new offer or editing one
+type Editing = { offer?: SavedOffer } | undefined;
+
+const OfferRows = ({
+  offers,
+  pending,
+  onEdit,
+  onToggle,
+  onDelete,
+}: {
+  offers: Array<SavedOffer>;
+  pending?: string;
+  onEdit: (offer: SavedOffer) => void;
+  onToggle: (offer: SavedOffer) => void;
+  onDelete: (offer: SavedOffer) => void;
+}) => {
+  if (offers.length === 0) {
+    return <Text fontSize="sm">No offers match this customer.</Text>;
+  }
+
+  const rows = offers.map((offer) => {
+    const status = offerStatus(offer);
+    return (
+      <Tr key={offer.offerId}>
+        <Td isNumeric>{offer.offerId}</Td>
+        <Td>{offer.customer}</Td>
+        <Td>
+          <Badge colorScheme={STATUS_COLORS[status]}>{status}</Badge>
+        </Td>
+        <Td whiteSpace="normal">{offer.notificationContent}</Td>
+        <Td>{offer.notificationTarget}</Td>
+        <Td isNumeric>{offer.maximumBidCents}</Td>
+        <Td isNumeric>
+          {formatBudget(offer.spentTodayCents, offer.dailyBudgetCents)}
+        </Td>
+        <Td isNumeric>
+          {formatBudget(offer.spentCents, offer.totalBudgetCents)}
+        </Td>
+        <Td>{formatFrequencyCap(offer.frequencyCap)}</Td>
+        <Td whiteSpace="normal">
+          {offer.segments.map((s, i) => (
+            <Badge key={i} mr={1} textTransform="none">
+              #{i + 1} {formatSegment(s)}
+            </Badge>
+          ))}
+          {offer.missingSegmentIds.length ? (
+            <Badge colorScheme="red" textTransform="none">
+              {offer.missingSegmentIds.length} missing
+            </Badge>
+          ) : undefined}
+        </Td>
+        <Td whiteSpace="normal">
+          {offer.targeting
+            ? formatSegmentExpression(offer.targeting)
+            : "every segment"}
+        </Td>
+        <Td>
+          <HStack spacing={2}>
+            <Button size="xs" onClick={() => onEdit(offer)}>
+              Edit
+            </Button>
+            <Button
+              size="xs"
+              isDisabled={pending === offer.offerId}
+              onClick={() => onToggle(offer)}
+            >
+              {offer.enabled ? "Pause" : "Resume"}
+            </Button>
+            <Button
+              size="xs"
+              isLoading={pending === offer.offerId}
+              onClick={() => onDelete(offer)}
+            >
+              Delete
+            </Button>
+          </HStack>
+        </Td>
+      </Tr>
+    );
+  });
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th isNumeric>Offer</Th>
+            <Th>Customer</Th>
+            <Th>Status</Th>
+            <Th>Content</Th>
+            <Th>Target</Th>
+            <Th isNumeric>Bid (cents)</Th>
+            <Th isNumeric>Spent today</Th>
+            <Th isNumeric>Spent</Th>
+            <Th>Frequency cap</Th>
+            <Th>Segments</Th>
+            <Th>Targeting</Th>
+            <Th />
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export const OfferConsole = () => {
+  const [isSmallScreen] = useMediaQuery("(max-width: 640px)");
+  const config = useConnectionConfig("OfferConsole");
+  const toast = useToast();
+  const [customer, setCustomer] = React.useState("");
+  const debouncedCustomer = useDebounce(customer, 300);
+  const [editing, setEditing] = React.useState<Editing>();
+  const [pending, setPending] = React.useState<string>();
+
+  const { data: offers, mutate } = useSWR(
+    ["getOffers", config, debouncedCustomer],
+    () => getOffers(config, debouncedCustomer, MAX_OFFERS)
+  );
+
+  const newOffer = () => setEditing({});
+  const editOffer = (offer: SavedOffer) => setEditing({ offer });
+  const closeEditor = () => setEditing(undefined);
+  const onSaved = () => {
+    setEditing(undefined);
+    mutate();
+  };
+
+  // run applies an action to an offer and reloads the list
+  const run = async (
+    offer: SavedOffer,
+    failure: string,
+    action: () => Promise<unknown>
+  ) => {
+    setPending(offer.offerId);
+    try {
+      await action();
+    } catch (e) {
+      toast({
+        title: failure,
+        description: (e as Error).message,
+        status: "error",
+        isClosable: true,
+      });
+    } finally {
+      setPending(undefined);
+      mutate();
+    }
+  };
+
+  const onToggle = (offer: SavedOffer) =>
+    run(offer, "Failed to update the offer", () =>
+      setOfferEnabled(config, offer.offerId, !offer.enabled)
+    );
+
+  const onDelete = (offer: SavedOffer) =>
+    run(offer, "Failed to delete the offer", async () => {
+      await deleteOffer(config, offer.offerId);
+      if (editing?.offer?.offerId === offer.offerId) {
+        setEditing(undefined);
+      }
+    });
+
+  let editor;
+  if (editing) {
+    editor = (
+      <Stack spacing={4}>
+        <Heading fontSize="xl">
+          {editing.offer ? `Offer ${editing.offer.offerId}` : "New offer"}
+        </Heading>
+        <OfferEditor
+          key={editing.offer?.offerId || "new"}
+          offer={editing.offer}
+          onSaved={onSaved}
+          onCancel={closeEditor}
+        />
+      </Stack>
+    );
+  }
+
+  let list = <Text>Loading offers...</Text>;
+  if (offers) {
+    list = (
+      <OfferRows
+        offers={offers}
+        pending={pending}
+        onEdit={editOffer}
+        onToggle={onToggle}
+        onDelete={onDelete}
+      />
+    );
+  }
+
+  return (
+    <Container maxW={isSmallScreen ? undefined : "75%"} mt={10} mb="5%">
+      <Stack spacing={8}>
+        {editor}
+        <Stack spacing={4}>
+          <Flex justifyContent="space-between" alignItems="center" gap={4}>
+            <Heading fontSize="xl">Offers</Heading>
+            <HStack spacing={2}>
+              <Input
+                size="sm"
+                borderRadius="6px"
+                _focus={{ borderColor: "#553ACF" }}
+                placeholder="Filter by customer"
+                value={customer}
+                onChange={(e) => setCustomer(e.target.value)}
+              />
+              <PrimaryButton size="sm" flexShrink={0} onClick={newOffer}>
+                New offer
+              </PrimaryButton>
+            </HStack>
+          </Flex>
+          <Text fontSize="sm">
+            The {MAX_OFFERS} most recently created offers are listed, changes
+            apply to the next matching run. Spend is in cents, budgets are
+            checked before every matching run so an offer can overshoot them by
+            the notifications of a single run.
+          </Text>
+          {list}
+        </Stack>
+      </Stack>
+    </Container>
+  );
+};
@@ -0,0 +1,463 @@
+import {
+  Badge,
+  Box,
+  Button,
+  Container,
+  Flex,
+  Heading,
+  HStack,
+  SimpleGrid,
+  Stack,
+  Tab,
+  Table,
+  TableContainer,
+  TabList,
+  TabPanel,
+  TabPanels,
+  Tabs,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useColorModeValue,
+  useMediaQuery,
+  useToast,
+} from "@chakra-ui/react";
+import { format } from "d3-format";
+import * as React from "react";
+import useSWR from "swr";
+
+import {
+  failedPipelineFiles,
+  pipelineBatches,
+  pipelineErrors,
+  PipelineEvent,
+  PipelineName,
+  pipelineNames,
+  pipelineSummaries,
+  PipelineSummary,
+  recentPipelineEvents,
+  resetPipelineOffsets,
+  skipPipelineFile,
+  startPipeline,
+  stopPipeline,
+} from "@/data/pipelines";
+import { formatMs, formatNumber } from "@/format";
+import { useConnectionConfig } from "@/view/hooks/hooks";
+
+const REFRESH_INTERVAL = 1000;
+const BATCH_HISTORY_LIMIT = 50;
+const ERROR_LIMIT = 20;
+
+// every action taken from the console is recorded with this reason
+const CONSOLE_REASON = "requested in the pipeline console";
+
+const formatRate = format(".3~s");
+const formatMB = format(".2~f");
+
+const STATE_COLORS: { [state: string]: string } = {
+  Running: "green",
+  Stopped: "gray",
+  Error: "red",
+};
+
+const StateBadge = ({ state }: { state: string }) => (
+  <Badge colorScheme={STATE_COLORS[state] || "orange"}>{state}</Badge>
+);
+
+const usePipelineEvents = () => {
+  const [events, setEvents] = React.useState<Array<PipelineEvent>>([]);
+
+  React.useEffect(() => {
+    setEvents(recentPipelineEvents());
+    const interval = setInterval(
+      () => setEvents(recentPipelineEvents()),
+      REFRESH_INTERVAL
+    );
+    return () => clearInterval(interval);
+  }, []);
+
+  return events;
+};
+
+// usePipelineAction runs an action against a pipeline, reporting failures
+// with a toast and refreshing the console once it completes
+const usePipelineAction = (onDone: () => void) => {
+  const toast = useToast();
+  const [pending, setPending] = React.useState<string>();
+
+  const run = React.useCallback(
+    async (key: string, action: () => Promise<void>) => {
+      setPending(key);
+      try {
+        await action();
+      } catch (e) {
+        toast({
+          title: "Pipeline action failed",
+          description: (e as Error).message,
+          status: "error",
+          isClosable: true,
+        });
+      } finally {
+        setPending(undefined);
+        onDone();
+      }
+    },
+    [toast, onDone]
+  );
+
+  return { pending, run };
+};
+
+const PipelineStat = ({ label, value }: { label: string; value: string }) => (
+  <Box>
+    <Text fontSize="xs" color="gray.500">
+      {label}
+    </Text>
+    <Text fontWeight="bold">{value}</Text>
+  </Box>
+);
+
+const PipelineCard = ({
+  summary,
+  selected,
+  pending,
+  onSelect,
+  onAction,
+}: {
+  summary: PipelineSummary;
+  selected: boolean;
+  pending?: string;
+  onSelect: () => void;
+  onAction: (key: string, action: () => Promise<void>) => void;
+}) => {
+  const config = useConnectionConfig("PipelineConsole");
+  const { pipelineName: name, windowSeconds } = summary;
+  const perSecond = (n: number) => (windowSeconds > 0 ? n / windowSeconds : 0);
+  const background = useColorModeValue("#ECE8FD", "#2F206E");
+  const borderColor = useColorModeValue("#553ACF", "#CCC3F9");
+
+  const actionButton = (label: string, action: () => Promise<void>) => {
+    const key = `${name}:${label}`;
+    return (
+      <Button
+        size="xs"
+        isLoading={pending === key}
+        isDisabled={!!pending && pending !== key}
+        onClick={(e) => {
+          e.stopPropagation();
+          onAction(key, action);
+        }}
+      >
+        {label}
+      </Button>
+    );
+  };
+
+  return (
+    <Stack
+      padding="20px"
+      background={background}
+      borderRadius="15px"
+      border="2px solid"
+      borderColor={selected ? borderColor : "transparent"}
+      cursor="pointer"
+      onClick={onSelect}
+      spacing={4}
+    >
+      <Flex justifyContent="space-between" alignItems="center">
+        <Heading fontSize="lg">{name}</Heading>
+        <StateBadge state={summary.state} />
+      </Flex>
+      <SimpleGrid columns={3} gap={3}>
+        <PipelineStat
+          label="rows/sec"
+          value={formatRate(perSecond(summary.rowsStreamed))}
+        />
+        <PipelineStat
+          label="MB/sec"
+          value={formatMB(perSecond(summary.mbStreamed))}
+        />
+        <PipelineStat
+          label="batches/min"
+          value={formatMB(perSecond(summary.batches) * 60)}
+        />
+        <PipelineStat
+          label="files loaded"
+          value={`${formatNumber(summary.loadedFiles)} / ${formatNumber(
+            summary.totalFiles
+          )}`}
+        />
+        <PipelineStat
+          label="failed batches"
+          value={formatNumber(summary.failedBatches)}
+        />
+        <PipelineStat label="errors" value={formatNumber(summary.errors)} />
+      </SimpleGrid>
+      <HStack>
+        {actionButton("Start", () =>
+          startPipeline(config, name, CONSOLE_REASON)
+        )}
+        {actionButton("Stop", () => stopPipeline(config, name, CONSOLE_REASON))}
+        {actionButton("Reset offsets", () =>
+          resetPipelineOffsets(config, name, CONSOLE_REASON)
+        )}
+      </HStack>
+    </Stack>
+  );
+};
+
+const BatchHistory = ({ name }: { name: PipelineName }) => {
+  const config = useConnectionConfig("PipelineConsole");
+  const { data } = useSWR(
+    ["pipelineBatches", config, name],
+    () => pipelineBatches(config, name, BATCH_HISTORY_LIMIT),
+    { refreshInterval: REFRESH_INTERVAL }
+  );
+
+  const rows = (data || []).map((b) => (
+    <Tr key={b.batchId}>
+      <Td isNumeric>{b.batchId}</Td>
+      <Td>
+        <StateBadge state={b.state} />
+      </Td>
+      <Td>{b.startTime}</Td>
+      <Td isNumeric>{formatMs(b.batchTime * 1000)}</Td>
+      <Td isNumeric>{formatNumber(b.rowsStreamed)}</Td>
+      <Td isNumeric>{formatRate(b.rowsPerSec)}</Td>
+      <Td isNumeric>{formatMB(b.mbPerSec)}</Td>
+    </Tr>
+  ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th isNumeric>Batch</Th>
+            <Th>State</Th>
+            <Th>Started</Th>
+            <Th isNumeric>Duration</Th>
+            <Th isNumeric>Rows</Th>
+            <Th isNumeric>Rows/sec</Th>
+            <Th isNumeric>MB/sec</Th>
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+const FailedFiles = ({ name }: { name: PipelineName }) => {
+  const config = useConnectionConfig("PipelineConsole");
+  const { data, mutate } = useSWR(
+    ["failedPipelineFiles", config, name],
+    () => failedPipelineFiles(config, name),
+    { refreshInterval: REFRESH_INTERVAL }
+  );
+  const onDone = React.useCallback(() => mutate(), [mutate]);
+  const { pending, run } = usePipelineAction(onDone);
+
+  if (data && data.length === 0) {
+    return <Text>No files have failed to load.</Text>;
+  }
+
+  const rows = (data || []).map((f) => (
+    <Tr key={f.fileName}>
+      <Td>{f.fileName}</Td>
+      <Td>
+        <StateBadge state={f.fileState} />
+      </Td>
+      <Td isNumeric>{f.errors}</Td>
+      <Td whiteSpace="normal">{f.lastError}</Td>
+      <Td>
+        {f.fileState === "Skipped" ? undefined : (
+          <Button
+            size="xs"
+            isLoading={pending === f.fileName}
+            isDisabled={!!pending}
+            onClick={() =>
+              run(f.fileName, () =>
+                skipPipelineFile(config, name, f.fileName, CONSOLE_REASON)
+              )
+            }
+          >
+            Skip
+          </Button>
+        )}
+      </Td>
+    </Tr>
+  ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>File</Th>
+            <Th>State</Th>
+            <Th isNumeric>Errors</Th>
+            <Th>Last error</Th>
+            <Th />
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+const LastErrors = ({ name }: { name: PipelineName }) => {
+  const config = useConnectionConfig("PipelineConsole");
+  const { data } = useSWR(
+    ["pipelineErrors", config, name],
+    () => pipelineErrors(config, name, ERROR_LIMIT),
+    { refreshInterval: REFRESH_INTERVAL }
+  );
+
+  if (data && data.length === 0) {
+    return <Text>No errors have been reported.</Text>;
+  }
+
+  const rows = (data || []).map((e, i) => (
+    <Tr key={i}>
+      <Td>{e.errorTime}</Td>
+      <Td>
+        {e.errorType} {e.errorCode}
+      </Td>
+      <Td whiteSpace="normal">{e.errorMessage}</Td>
+      <Td>{e.source ?? "-"}</Td>
+      <Td isNumeric>{e.batchId ?? "-"}</Td>
+    </Tr>
+  ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>Time</Th>
+            <Th>Error</Th>
+            <Th>Message</Th>
+            <Th>Source</Th>
+            <Th isNumeric>Batch</Th>
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+const PipelineActivity = () => {
+  const events = usePipelineEvents();
+
+  if (events.length === 0) {
+    return <Text>No actions have been taken on the pipelines yet.</Text>;
+  }
+
+  const rows = events.map((e) => (
+    <Tr key={e.id}>
+      <Td>{e.at.toLocaleTimeString()}</Td>
+      <Td>{e.pipeline}</Td>
+      <Td>{e.action}</Td>
+      <Td whiteSpace="normal">{e.reason}</Td>
+    </Tr>
+  ));
+
+  return (
+    <TableContainer overflowX="auto">
+      <Table size="sm" variant="striped">
+        <Thead>
+          <Tr>
+            <Th>Time</Th>
+            <Th>Pipeline</Th>
+            <Th>Action</Th>
+            <Th>Reason</Th>
+          </Tr>
+        </Thead>
+        <Tbody>{rows}</Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export const PipelineConsole = () => {
+  const [isSmallScreen] = useMediaQuery("(max-width: 640px)");
+  const config = useConnectionConfig("PipelineConsole");
+  const [selected, setSelected] = React.useState<PipelineName>(
+    pipelineNames[0]
+  );
+
+  const { data, mutate } = useSWR(
+    ["pipelineSummaries", config],
+    () => pipelineSummaries(config),
+    { refreshInterval: REFRESH_INTERVAL }
+  );
+  const onDone = React.useCallback(() => mutate(), [mutate]);
+  const { pending, run } = usePipelineAction(onDone);
+
+  let cards = <Text>Loading pipelines...</Text>;
+  if (data && data.length === 0) {
+    cards = (
+      <Text>
+        The pipelines have not been created yet, create them on the Configure
+        page.
+      </Text>
+    );
+  } else if (data) {
+    cards = (
+      <SimpleGrid columns={[1, 1, 3]} gap={4}>
+        {data.map((summary) => (
+          <PipelineCard
+            key={summary.pipelineName}
+            summary={summary}
+            selected={summary.pipelineName === selected}
+            pending={pending}
+            onSelect={() => setSelected(summary.pipelineName)}
+            onAction={run}
+          />
+        ))}
+      </SimpleGrid>
+    );
+  }
+
+  return (
+    <Container maxW={isSmallScreen ? undefined : "75%"} mt={10} mb="5%">
+      <Stack spacing={8}>
+        <Stack spacing={4}>
+          <Heading fontSize="xl">Pipelines</Heading>
+          {cards}
+        </Stack>
+        <Stack spacing={4}>
+          <Heading fontSize="xl">{selected}</Heading>
+          <Tabs isLazy>
+            <TabList>
+              <Tab>Batches</Tab>
+              <Tab>Failed files</Tab>
+              <Tab>Errors</Tab>
+            </TabList>
+            <TabPanels>
+              <TabPanel>
+                <BatchHistory name={selected} />
+              </TabPanel>
+              <TabPanel>
+                <FailedFiles name={selected} />
+              </TabPanel>
+              <TabPanel>
+                <LastErrors name={selected} />
+              </TabPanel>
+            </TabPanels>
+          </Tabs>
+        </Stack>
+        <Stack spacing={4}>
+          <Heading fontSize="xl">Activity</Heading>
+          <PipelineActivity />
+        </Stack>
+      </Stack>
+    </Container>
+  );
+};
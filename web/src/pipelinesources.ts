@@ -0,0 +1,211 @@
+import { ScaleFactor } from "@/scalefactors";
+
+export type S3PipelineSource = {
+  kind: "s3";
+  bucket: string;
+  region: string;
+
+  // set to load from an S3 compatible service such as MinIO
+  endpointURL: string;
+
+  // leave the keys empty to load from a public bucket
+  accessKeyID: string;
+  secretAccessKey: string;
+};
+
+export type KafkaPipelineSource = {
+  kind: "kafka";
+
+  // comma separated list of host:port
+  brokers: string;
+
+  // each pipeline loads from the topic named after it, prefixed by topicPrefix
+  topicPrefix: string;
+
+  // leave the username empty to connect without SASL authentication
+  saslUsername: string;
+  saslPassword: string;
+};
+
+export type FSPipelineSource = {
+  kind: "fs";
+
+  // directory with the same layout as the S3 bucket, it has to be readable
+  // from every leaf
+  path: string;
+};
+
+export type PipelineSource =
+  | S3PipelineSource
+  | KafkaPipelineSource
+  | FSPipelineSource;
+
+export type PipelineSourceKind = PipelineSource["kind"];
+
+export const PipelineSourceLabels: { [K in PipelineSourceKind]: string } = {
+  s3: "S3 compatible object store",
+  kafka: "Kafka",
+  fs: "Filesystem",
+};
+
+export const defaultPipelineSources: {
+  [K in PipelineSourceKind]: Extract<PipelineSource, { kind: K }>;
+} = {
+  s3: {
+    kind: "s3",
+    bucket: "singlestore-realtime-digital-marketing",
+    region: "us-east-1",
+    endpointURL: "",
+    accessKeyID: "",
+    secretAccessKey: "",
+  },
+  kafka: {
+    kind: "kafka",
+    brokers: "localhost:9092",
+    topicPrefix: "martech-",
+    saslUsername: "",
+    saslPassword: "",
+  },
+  fs: {
+    kind: "fs",
+    path: "/var/lib/martech",
+  },
+};
+
+export const defaultPipelineSource: PipelineSource = defaultPipelineSources.s3;
+
+// pipelineSourceErrors returns a description of every problem with the source,
+// the pipelines can only be created once it is empty
+export const pipelineSourceErrors = (source: PipelineSource): Array<string> => {
+  const errors: Array<string> = [];
+  switch (source.kind) {
+    case "s3":
+      if (!source.bucket) {
+        errors.push("A bucket is required.");
+      }
+      if (!source.region) {
+        errors.push("A region is required.");
+      }
+      if (source.endpointURL && !/^https?:\/\//.test(source.endpointURL)) {
+        errors.push("The endpoint URL must start with http:// or https://.");
+      }
+      if (!source.accessKeyID !== !source.secretAccessKey) {
+        errors.push("Set both the access key ID and the secret access key.");
+      }
+      break;
+
+    case "kafka":
+      if (!source.brokers.split(",").every((b) => /^[^:\s]+:\d+$/.test(b))) {
+        errors.push("Brokers must be a comma separated list of host:port.");
+      }
+      if (!source.saslUsername !== !source.saslPassword) {
+        errors.push("Set both the SASL username and password.");
+      }
+      break;
+
+    case "fs":
+      if (!source.path.startsWith("/")) {
+        errors.push("The path must be absolute.");
+      }
+      break;
+  }
+  return errors;
+};
+
+export type RenderedPipelineSource = {
+  // source_type and connection_string as reported in
+  // information_schema.pipelines, used to detect when the source changed
+  sourceType: "S3" | "KAFKA" | "FS";
+  connectionString: string;
+
+  // the clause following LOAD DATA, including the credentials
+  clause: string;
+  format: "PARQUET" | "JSON";
+};
+
+const REDACTED = "<redacted>";
+
+// sqlString quotes value as a SQL string literal
+const sqlString = (value: string) =>
+  `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+// jsonOption serializes the non empty entries of a CONFIG or CREDENTIALS
+// object
+const jsonOption = (option: { [key: string]: string }) =>
+  sqlString(
+    JSON.stringify(
+      Object.fromEntries(Object.entries(option).filter(([, v]) => v !== ""))
+    )
+  );
+
+// renderPipelineSource renders the source of the named pipeline, secrets are
+// replaced with a placeholder if redact is set so that the statement can be
+// displayed
+export const renderPipelineSource = (
+  source: PipelineSource,
+  pipelineName: string,
+  scaleFactor: ScaleFactor,
+  redact = false
+): RenderedPipelineSource => {
+  const secret = (value: string) => (redact && value ? REDACTED : value);
+
+  switch (source.kind) {
+    case "s3": {
+      const connectionString = `${source.bucket}/${scaleFactor.prefix}/${pipelineName}.*`;
+      const credentials = {
+        aws_access_key_id: source.accessKeyID,
+        aws_secret_access_key: secret(source.secretAccessKey),
+      };
+      const config = {
+        region: source.region,
+        endpoint_url: source.endpointURL,
+      };
+      return {
+        sourceType: "S3",
+        connectionString,
+        clause: [
+          `S3 ${sqlString(connectionString)}`,
+          `CREDENTIALS ${jsonOption(credentials)}`,
+          `CONFIG ${jsonOption(config)}`,
+        ].join("\n"),
+        format: "PARQUET",
+      };
+    }
+
+    case "kafka": {
+      const connectionString = `${source.brokers}/${source.topicPrefix}${pipelineName}`;
+      const lines = [`KAFKA ${sqlString(connectionString)}`];
+      if (source.saslUsername) {
+        const config = {
+          "security.protocol": "SASL_SSL",
+          "sasl.mechanism": "PLAIN",
+          "sasl.username": source.saslUsername,
+        };
+        const credentials = { "sasl.password": secret(source.saslPassword) };
+        lines.push(
+          `CONFIG ${jsonOption(config)}`,
+          `CREDENTIALS ${jsonOption(credentials)}`
+        );
+      }
+
+      // Kafka messages carry one JSON object per row
+      return {
+        sourceType: "KAFKA",
+        connectionString,
+        clause: lines.join("\n"),
+        format: "JSON",
+      };
+    }
+
+    case "fs": {
+      const path = source.path.replace(/\/+$/, "");
+      const connectionString = `${path}/${scaleFactor.prefix}/${pipelineName}.*`;
+      return {
+        sourceType: "FS",
+        connectionString,
+        clause: `FS ${sqlString(connectionString)}`,
+        format: "PARQUET",
+      };
+    }
+  }
+};
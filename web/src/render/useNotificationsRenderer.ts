@@ -10,7 +10,11 @@ import { UsePixiRenderer } from "@/components/PixiMap";
 import { City, getCities, queryNotificationsInBounds } from "@/data/queries";
 import { connectionConfig } from "@/data/recoil";
 import { toISOStringNoTZ } from "@/datetime";
-import { useConnectionState, useDebounce } from "@/view/hooks/hooks";
+import {
+  useConnectionConfig,
+  useConnectionState,
+  useDebounce,
+} from "@/view/hooks/hooks";
 
 const MAX_NOTIFICATIONS = 100;
 const REFRESH_INTERVAL = 1000;
@@ -85,7 +89,7 @@ export const useNotificationsDataKey = () => {
 };
 
 export const useCities = (onSuccess: (cities: Array<City>) => void) => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("useCities");
   const { initialized } = useConnectionState();
   return useSWR(["cities", config, initialized], () => getCities(config), {
     isPaused: () => !initialized,
@@ -99,7 +103,7 @@ export const useNotificationsRenderer: UsePixiRenderer = ({
   bounds,
 }) => {
   const timestampCursor = React.useRef(toISOStringNoTZ(new Date()));
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("useNotificationsRenderer");
   const { initialized } = useConnectionState();
   const debouncedBounds = useDebounce(bounds, 50);
   const swrKey = useNotificationsDataKey();
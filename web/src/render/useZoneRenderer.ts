@@ -0,0 +1,55 @@
+import * as PIXI from "pixi.js";
+import * as React from "react";
+
+import { UsePixiRenderer } from "@/components/PixiMap";
+import { Polygon } from "@/geo";
+
+const ZONE_COLOR = 0x553acf;
+
+export type ZoneRendererOptions = {
+  // [lng, lat] vertices of the zone being drawn, without the closing vertex
+  vertices: Polygon;
+};
+
+// useZoneRenderer draws the notification zone of the offer editor, the
+// vertices are read on every frame so that adding one doesn't recreate the
+// pixi application
+export const useZoneRenderer: UsePixiRenderer<ZoneRendererOptions> = ({
+  scene,
+  latLngToPixel,
+  options,
+}) => {
+  const vertices = React.useRef(options.vertices);
+  vertices.current = options.vertices;
+
+  const graphics = React.useMemo(() => new PIXI.Graphics(), []);
+
+  return {
+    setup: React.useCallback(() => {
+      scene.addChild(graphics);
+    }, [graphics, scene]),
+
+    update: React.useCallback(() => {
+      const points = vertices.current.map(([lng, lat]) =>
+        latLngToPixel([lat, lng])
+      );
+
+      graphics.clear();
+      if (points.length >= 3) {
+        graphics.lineStyle(2, ZONE_COLOR, 0.8);
+        graphics.beginFill(ZONE_COLOR, 0.2);
+        graphics.drawPolygon(points.flat());
+        graphics.endFill();
+      } else if (points.length === 2) {
+        graphics.lineStyle(2, ZONE_COLOR, 0.8);
+        graphics.moveTo(...points[0]);
+        graphics.lineTo(...points[1]);
+      }
+
+      graphics.lineStyle(0);
+      for (const [x, y] of points) {
+        graphics.beginFill(ZONE_COLOR).drawCircle(x, y, 4).endFill();
+      }
+    }, [graphics, latLngToPixel]),
+  };
+};
@@ -62,18 +62,99 @@ export const ScaleFactors: Array<ScaleFactor> = [
   },
 ];
 
-// getScaleFactor looks up the ScaleFactor for the given name
-export const getScaleFactor = (name: string): ScaleFactor =>
-  ScaleFactors.find((sf) => sf.name === name) || ScaleFactors[0];
+// getScaleFactor looks up the ScaleFactor for the given name among the
+// bundled and the custom scale factors
+export const getScaleFactor = (
+  name: string,
+  custom: Array<ScaleFactor> = []
+): ScaleFactor =>
+  [...ScaleFactors, ...custom].find((sf) => sf.name === name) ||
+  ScaleFactors[0];
 
 export const defaultScaleFactor = getScaleFactor("micro");
 
-export const pickScaleFactor = (numPartitions: number): ScaleFactor => {
-  // pick the scale factor with the largest number of partitions <= numPartitions
-  return (
-    [...ScaleFactors]
-      .sort((a, b) => b.partitions - a.partitions)
-      .find((sf) => sf.partitions <= numPartitions) ||
-    ScaleFactors[ScaleFactors.length - 1]
+// scaleFactorErrors validates a custom scale factor, its name has to differ
+// from the names of the bundled scale factors
+export const scaleFactorErrors = (sf: ScaleFactor): Array<string> => {
+  const errors: Array<string> = [];
+  if (!sf.name) {
+    errors.push("A name is required.");
+  } else if (ScaleFactors.some(({ name }) => name === sf.name)) {
+    errors.push(`${sf.name} is the name of a bundled scale factor.`);
+  }
+  if (!Number.isInteger(sf.maxRows) || sf.maxRows <= 0) {
+    errors.push("The maximum number of rows must be a positive integer.");
+  }
+  if (!sf.prefix) {
+    errors.push("A prefix is required.");
+  }
+  if (!Number.isInteger(sf.partitions) || sf.partitions <= 0) {
+    errors.push("The number of partitions must be a positive integer.");
+  }
+  return errors;
+};
+
+export type ClusterSizing = {
+  partitions: number;
+  leafMemoryMB: number;
+  ingestRowsPerSecond: number;
+};
+
+export type ScaleFactorRecommendation = {
+  scaleFactor: ScaleFactor;
+  reasons: Array<string>;
+};
+
+// rough size of a row of the timeseries tables, including its share of the
+// indexes and of the rowstore segment the columnstore writes to first
+const BYTES_PER_ROW = 100;
+
+// the timeseries tables may use this fraction of the memory of the leaves,
+// the rest is left to the analytics queries
+const TIMESERIES_MEMORY_FRACTION = 0.5;
+
+// a scale factor should keep at least this much history at the ingest rate
+const MIN_HISTORY_SECONDS = 60 * 60;
+
+// recommendScaleFactor picks the largest scale factor whose partitions fit the
+// cluster and whose tables fit in the memory of the leaves, the reasons
+// explain the choice
+export const recommendScaleFactor = (
+  { partitions, leafMemoryMB, ingestRowsPerSecond }: ClusterSizing,
+  candidates: Array<ScaleFactor> = ScaleFactors
+): ScaleFactorRecommendation => {
+  const memoryRows = Math.floor(
+    (leafMemoryMB * 1024 * 1024 * TIMESERIES_MEMORY_FRACTION) / BYTES_PER_ROW
+  );
+  const bySize = [...candidates].sort((a, b) => b.maxRows - a.maxRows);
+  const fits = bySize.filter(
+    (sf) => sf.partitions <= partitions && sf.maxRows <= memoryRows
   );
+  const scaleFactor = fits[0] || bySize[bySize.length - 1];
+
+  const reasons = [
+    `The database has ${partitions} partitions and ${scaleFactor.name} loads ${scaleFactor.partitions} at a time.`,
+    `The leaves have room for about ${memoryRows.toLocaleString()} rows and ${
+      scaleFactor.name
+    } keeps at most ${scaleFactor.maxRows.toLocaleString()}.`,
+  ];
+  if (fits.length === 0) {
+    reasons.push(
+      `No scale factor fits this cluster, ${scaleFactor.name} is the smallest.`
+    );
+  }
+
+  const historySeconds =
+    ingestRowsPerSecond > 0 ? scaleFactor.maxRows / ingestRowsPerSecond : 0;
+  if (historySeconds > 0 && historySeconds < MIN_HISTORY_SECONDS) {
+    reasons.push(
+      `At ${Math.round(
+        ingestRowsPerSecond
+      ).toLocaleString()} rows per second the tables only keep ${Math.round(
+        historySeconds / 60
+      )} minutes of history, lower the ingest rate or add memory.`
+    );
+  }
+
+  return { scaleFactor, reasons };
 };
@@ -0,0 +1,130 @@
+import { SchemaDependency, SchemaObject, SchemaObjectKind } from "./sqlparser";
+
+// The bundled schema objects depend on each other: table valued functions
+// read tables and call functions, procedures write tables and call table
+// valued functions, and pipelines load into procedures or tables. The objects
+// are sorted by these dependencies instead of relying on the order of the
+// files. Like sqlparser.ts this runs at build time in vite.config.ts, so it
+// must not depend on anything else in the app.
+
+export class SchemaGraphError extends Error {
+  file: string;
+  line: number;
+
+  constructor(file: string, line: number, msg: string) {
+    super(`${file}:${line}: ${msg}`);
+    // https://stackoverflow.com/a/41429145/65872
+    Object.setPrototypeOf(this, SchemaGraphError.prototype);
+    this.file = file;
+    this.line = line;
+  }
+}
+
+// the kinds of object each kind of dependency can resolve to, in order of
+// preference
+const DEPENDENCY_TARGETS: {
+  [K in SchemaDependency["kind"]]: Array<SchemaObjectKind>;
+} = {
+  table: ["table", "view", "function"],
+  procedure: ["procedure"],
+  pipeline: ["pipeline"],
+  call: ["function"],
+};
+
+const objectKey = (kind: SchemaObjectKind, name: string) =>
+  `${kind}:${name.toLowerCase()}`;
+
+const describe = ({ kind, name }: SchemaObject) => `${kind} ${name}`;
+
+// dependencyGraph returns the indexes of the objects which each object
+// depends on, calls which do not resolve to a bundled function are assumed
+// to be builtins
+const dependencyGraph = (objects: Array<SchemaObject>) => {
+  const index = new Map<string, number>();
+  objects.forEach((obj, i) => {
+    if (obj.kind === "statement") {
+      return;
+    }
+    const key = objectKey(obj.kind, obj.name);
+    const existing = index.get(key);
+    if (existing !== undefined) {
+      const { file, line } = objects[existing];
+      throw new SchemaGraphError(
+        obj.file,
+        obj.line,
+        `${describe(obj)} is already defined at ${file}:${line}`
+      );
+    }
+    index.set(key, i);
+  });
+
+  return objects.map((obj, i) => {
+    const edges: Array<number> = [];
+    for (const dep of obj.dependencies) {
+      const target = DEPENDENCY_TARGETS[dep.kind]
+        .map((kind) => index.get(objectKey(kind, dep.name)))
+        .find((t) => t !== undefined);
+
+      if (target === undefined) {
+        if (dep.kind === "call") {
+          continue;
+        }
+        throw new SchemaGraphError(
+          obj.file,
+          dep.line,
+          `${describe(obj)} depends on unknown ${dep.kind} ${dep.name}`
+        );
+      }
+      if (target !== i && !edges.includes(target)) {
+        edges.push(target);
+      }
+    }
+    return edges;
+  });
+};
+
+// cycleError follows dependencies between the objects which could not be
+// sorted until it finds an object twice, every such object depends on at
+// least one other unsorted object
+const cycleError = (
+  objects: Array<SchemaObject>,
+  graph: Array<Array<number>>,
+  sorted: Set<number>
+) => {
+  const path: Array<number> = [];
+  let i = objects.findIndex((_, j) => !sorted.has(j));
+  while (!path.includes(i)) {
+    path.push(i);
+    i = graph[i].find((j) => !sorted.has(j)) as number;
+  }
+
+  const cycle = [...path.slice(path.indexOf(i)), i].map((j) => objects[j]);
+  return new SchemaGraphError(
+    cycle[0].file,
+    cycle[0].line,
+    `dependency cycle: ${cycle.map(describe).join(" -> ")}`
+  );
+};
+
+// sortSchemaObjects returns objects in the order in which they can be
+// created, drop them in reverse. Objects which do not depend on each other
+// keep their order, and a SchemaGraphError is thrown if a dependency is not
+// part of objects or if objects depend on each other in a cycle.
+export const sortSchemaObjects = (
+  objects: Array<SchemaObject>
+): Array<SchemaObject> => {
+  const graph = dependencyGraph(objects);
+  const sorted = new Set<number>();
+
+  while (sorted.size < objects.length) {
+    const next = objects.findIndex(
+      (_, i) => !sorted.has(i) && graph[i].every((j) => sorted.has(j))
+    );
+    if (next === -1) {
+      throw cycleError(objects, graph, sorted);
+    }
+    sorted.add(next);
+  }
+
+  return Array.from(sorted, (i) => objects[i]);
+};
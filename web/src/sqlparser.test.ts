@@ -0,0 +1,76 @@
+import { describe, expect, test } from "vitest";
+
+import { parseSQL, splitStatements, SQLParseError } from "@/sqlparser";
+
+describe("splitStatements", () => {
+  test("ignores delimiters and placeholders inside strings and comments", () => {
+    const src = `
+      SELECT 'a;b', "c?d", \`e;f\` FROM t WHERE x = ?; -- g; ?
+      /* h; ? */ INSERT INTO t VALUES ('it''s', 'x\\'y;', ?); # i; ?
+    `;
+    expect(splitStatements(src)).toEqual([
+      {
+        statement: "SELECT 'a;b', \"c?d\", `e;f` FROM t WHERE x = ?",
+        placeholders: 1,
+      },
+      {
+        statement: "INSERT INTO t VALUES ('it''s', 'x\\'y;', ?)",
+        placeholders: 1,
+      },
+    ]);
+  });
+
+  test("splits on the delimiter set by DELIMITER", () => {
+    const src = `
+DELIMITER //
+CREATE PROCEDURE p() AS
+BEGIN
+  DELETE FROM t;
+  INSERT INTO t VALUES (1);
+END //
+DELIMITER ;
+SELECT 1;
+`;
+    const statements = splitStatements(src).map((s) => s.statement);
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toMatch(/^CREATE PROCEDURE p\(\) AS\nBEGIN\n/);
+    expect(statements[0]).toMatch(/END$/);
+    expect(statements[1]).toBe("SELECT 1");
+  });
+
+  test("skips empty statements", () => {
+    expect(splitStatements(";; -- only a comment\n;")).toEqual([]);
+  });
+});
+
+describe("parseSQL", () => {
+  test("names objects and lists their dependencies", () => {
+    const [table, procedure] = parseSQL(
+      `CREATE TABLE IF NOT EXISTS t (id INT);
+DELIMITER //
+CREATE OR REPLACE PROCEDURE p(x INT) AS
+DECLARE
+  n INT;
+BEGIN
+  n = x;
+  INSERT INTO t SELECT id FROM u WHERE id > n;
+  CALL q();
+END //`,
+      "test.sql"
+    );
+    expect(table).toMatchObject({ kind: "table", name: "t", line: 1 });
+    expect(procedure).toMatchObject({ kind: "procedure", name: "p", line: 3 });
+    expect(
+      procedure.dependencies.map(({ name, kind }) => `${kind}:${name}`)
+    ).toEqual(["table:t", "table:u", "procedure:q"]);
+  });
+
+  test("reports the line of unterminated strings and comments", () => {
+    expect(() => parseSQL("SELECT 1;\nSELECT 'a;", "a.sql")).toThrow(
+      new SQLParseError("a.sql", 2, "unterminated string")
+    );
+    expect(() => parseSQL("SELECT 1;\n/* a", "a.sql")).toThrow(
+      new SQLParseError("a.sql", 2, "unterminated comment")
+    );
+  });
+});
@@ -0,0 +1,551 @@
+// parseSQL splits the bundled .sql files into schema objects at build time,
+// it is imported by the transform-sql plugin in vite.config.ts and so must not
+// depend on anything else in the app
+
+export type SchemaObjectKind =
+  | "table"
+  | "view"
+  | "function"
+  | "procedure"
+  | "pipeline"
+  | "statement";
+
+export type SchemaDependency = {
+  name: string;
+
+  // table references follow FROM, JOIN, INTO or UPDATE and name a table, view
+  // or table valued function, procedures follow CALL or INTO PROCEDURE and
+  // pipelines START PIPELINE, calls are any name called like a function which
+  // includes builtins like NOW
+  kind: "table" | "procedure" | "pipeline" | "call";
+  line: number;
+};
+
+export type SchemaObject = {
+  kind: SchemaObjectKind;
+
+  // the name of the created object, other statements are named after the
+  // object they target (INSERT INTO cities is called cities) or after their
+  // leading keywords if they have no target
+  name: string;
+  dependencies: Array<SchemaDependency>;
+
+  // the file and line on which the statement starts
+  file: string;
+  line: number;
+
+  // the statement without its delimiter
+  statement: string;
+};
+
+export class SQLParseError extends Error {
+  file: string;
+  line: number;
+
+  constructor(file: string, line: number, msg: string) {
+    super(`${file}:${line}: ${msg}`);
+    // https://stackoverflow.com/a/41429145/65872
+    Object.setPrototypeOf(this, SQLParseError.prototype);
+    this.file = file;
+    this.line = line;
+  }
+}
+
+type Token = {
+  type: "word" | "identifier" | "string" | "number" | "symbol";
+  text: string;
+  line: number;
+};
+
+type RawStatement = {
+  tokens: Array<Token>;
+  statement: string;
+};
+
+const WORD_REGEX = /[\w$@]+/y;
+const DELIMITER_REGEX = /DELIMITER[ \t]+(\S+)[ \t]*(?=\n|$)/iy;
+
+// tokenize splits src into statements on the current delimiter, which can be
+// changed with the DELIMITER directive of the mysql client, while skipping
+// over comments and quoted strings and identifiers
+const tokenize = (src: string, file: string): Array<RawStatement> => {
+  const statements: Array<RawStatement> = [];
+  let delimiter = ";";
+  let tokens: Array<Token> = [];
+  let start = 0;
+  let line = 1;
+  let i = 0;
+
+  const finish = (end: number) => {
+    if (tokens.length > 0) {
+      statements.push({ tokens, statement: src.slice(start, end).trim() });
+    }
+    tokens = [];
+  };
+
+  const skipTo = (end: number) => {
+    for (; i < end; i++) {
+      if (src[i] === "\n") {
+        line++;
+      }
+    }
+  };
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (/\s/.test(ch)) {
+      skipTo(i + 1);
+      continue;
+    }
+
+    if (tokens.length === 0) {
+      DELIMITER_REGEX.lastIndex = i;
+      const directive = DELIMITER_REGEX.exec(src);
+      if (directive) {
+        delimiter = directive[1];
+        skipTo(DELIMITER_REGEX.lastIndex);
+        continue;
+      }
+    }
+
+    if (src.startsWith(delimiter, i)) {
+      finish(i);
+      skipTo(i + delimiter.length);
+      continue;
+    }
+
+    if (ch === "#" || /^--(\s|$)/.test(src.slice(i, i + 3))) {
+      const eol = src.indexOf("\n", i);
+      skipTo(eol === -1 ? src.length : eol);
+      continue;
+    }
+
+    if (src.startsWith("/*", i)) {
+      const end = src.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new SQLParseError(file, line, "unterminated comment");
+      }
+      skipTo(end + 2);
+      continue;
+    }
+
+    if (tokens.length === 0) {
+      start = i;
+    }
+    const tokenLine = line;
+
+    if (ch === "'" || ch === '"' || ch === "`") {
+      // quotes are escaped by doubling them, strings also allow backslashes
+      let end = i + 1;
+      while (end < src.length) {
+        if (src[end] === "\\" && ch !== "`") {
+          end += 2;
+        } else if (src[end] === ch && src[end + 1] === ch) {
+          end += 2;
+        } else if (src[end] === ch) {
+          break;
+        } else {
+          end++;
+        }
+      }
+      if (end >= src.length) {
+        const what = ch === "`" ? "identifier" : "string";
+        throw new SQLParseError(file, tokenLine, `unterminated ${what}`);
+      }
+
+      const text = src.slice(i, end + 1);
+      tokens.push(
+        ch === "`"
+          ? {
+              type: "identifier",
+              text: text.slice(1, -1).replace(/``/g, "`"),
+              line: tokenLine,
+            }
+          : { type: "string", text, line: tokenLine }
+      );
+      skipTo(end + 1);
+      continue;
+    }
+
+    WORD_REGEX.lastIndex = i;
+    const word = WORD_REGEX.exec(src);
+    if (word) {
+      const text = word[0];
+      const type = /^\d/.test(text) ? "number" : "word";
+      tokens.push({ type, text, line: tokenLine });
+      i += text.length;
+      continue;
+    }
+
+    tokens.push({ type: "symbol", text: ch, line: tokenLine });
+    i++;
+  }
+
+  finish(src.length);
+  return statements;
+};
+
+// keywords which can not be used as unquoted names, they also end the list of
+// tables following FROM
+const RESERVED = new Set([
+  "ALL",
+  "AND",
+  "AS",
+  "BEGIN",
+  "BY",
+  "CASE",
+  "CROSS",
+  "DATA",
+  "DECLARE",
+  "DUPLICATE",
+  "ELSE",
+  "END",
+  "EXISTS",
+  "FORMAT",
+  "FROM",
+  "FUNCTION",
+  "GROUP",
+  "HAVING",
+  "IF",
+  "IN",
+  "INNER",
+  "INTO",
+  "IS",
+  "JOIN",
+  "KEY",
+  "LEFT",
+  "LIMIT",
+  "LOAD",
+  "NOT",
+  "NULL",
+  "OFFSET",
+  "ON",
+  "OR",
+  "ORDER",
+  "OUTER",
+  "PIPELINE",
+  "PROCEDURE",
+  "RETURN",
+  "RETURNS",
+  "RIGHT",
+  "RUNNING",
+  "SELECT",
+  "SET",
+  "TABLE",
+  "THEN",
+  "UNION",
+  "UPDATE",
+  "USING",
+  "VALUES",
+  "WHEN",
+  "WHERE",
+  "WINDOW",
+  "WITH",
+]);
+
+// keywords which are followed by the name of the object they reference
+const REFERENCE_KEYWORDS: {
+  [keyword: string]: Exclude<SchemaDependency["kind"], "call">;
+} = {
+  CALL: "procedure",
+  FROM: "table",
+  INTO: "table",
+  JOIN: "table",
+  PIPELINE: "pipeline",
+  PROCEDURE: "procedure",
+  TABLE: "table",
+  UPDATE: "table",
+};
+
+// keywords which may sit between a reference keyword and the name, like in
+// INTO PROCEDURE name or START PIPELINE IF NOT RUNNING name
+const REFERENCE_MODIFIERS = new Set([
+  "EXISTS",
+  "IF",
+  "NOT",
+  "PIPELINE",
+  "PROCEDURE",
+  "RUNNING",
+  "TABLE",
+]);
+
+const CREATE_MODIFIERS = new Set([
+  "AGGREGATE",
+  "COLUMNSTORE",
+  "GLOBAL",
+  "OR",
+  "REFERENCE",
+  "REPLACE",
+  "ROWSTORE",
+  "TEMPORARY",
+]);
+
+const CREATE_KINDS: { [keyword: string]: SchemaObjectKind } = {
+  TABLE: "table",
+  VIEW: "view",
+  FUNCTION: "function",
+  PROCEDURE: "procedure",
+  PIPELINE: "pipeline",
+};
+
+const keyword = (token?: Token) =>
+  token?.type === "word" ? token.text.toUpperCase() : undefined;
+
+const isSymbol = (token: Token | undefined, symbol: string) =>
+  token?.type === "symbol" && token.text === symbol;
+
+const isName = (token?: Token) =>
+  token?.type === "identifier" ||
+  (token?.type === "word" &&
+    !token.text.startsWith("@") &&
+    !RESERVED.has(token.text.toUpperCase()));
+
+const checkParens = (tokens: Array<Token>, file: string) => {
+  const open: Array<Token> = [];
+  for (const token of tokens) {
+    if (isSymbol(token, "(")) {
+      open.push(token);
+    } else if (isSymbol(token, ")") && !open.pop()) {
+      throw new SQLParseError(file, token.line, "unexpected )");
+    }
+  }
+  const unclosed = open.pop();
+  if (unclosed) {
+    throw new SQLParseError(file, unclosed.line, "unclosed (");
+  }
+};
+
+// routineHeader returns the names of the parameters of a function or
+// procedure, and the index of the token which starts its body
+const routineHeader = (tokens: Array<Token>, nameIdx: number) => {
+  const params: Array<string> = [];
+  let i = nameIdx + 1;
+
+  if (isSymbol(tokens[i], "(")) {
+    let depth = 0;
+    let expectParam = true;
+    for (; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (isSymbol(token, "(")) {
+        depth++;
+      } else if (isSymbol(token, ")") && --depth === 0) {
+        break;
+      } else if (depth === 1 && isSymbol(token, ",")) {
+        expectParam = true;
+      } else if (depth === 1 && expectParam && isName(token)) {
+        params.push(token.text);
+        expectParam = false;
+      }
+    }
+  }
+
+  // skip over RETURNS to the AS which starts the body
+  while (i < tokens.length && keyword(tokens[i]) !== "AS") {
+    i++;
+  }
+  return { params, bodyIdx: i + 1 };
+};
+
+// scanDependencies lists the objects referenced by tokens, ignoring names
+// defined by the statement itself such as parameters, variables declared in
+// DECLARE blocks and common table expressions
+const scanDependencies = (
+  tokens: Array<Token>,
+  locals: Set<string>
+): Array<SchemaDependency> => {
+  const found = new Map<string, SchemaDependency>();
+  const add = (token: Token, kind: SchemaDependency["kind"]) => {
+    const name = token.text.toLowerCase();
+    const key = `${kind}:${name}`;
+    if (!locals.has(name) && !found.has(key)) {
+      found.set(key, { name: token.text, kind, line: token.line });
+    }
+  };
+
+  let depth = 0;
+  let fromDepth: number | undefined;
+  let declaring = false;
+  let expectVariable = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const kw = keyword(token);
+
+    if (isSymbol(token, "(")) {
+      depth++;
+      continue;
+    }
+    if (isSymbol(token, ")")) {
+      depth--;
+      if (fromDepth !== undefined && depth < fromDepth) {
+        fromDepth = undefined;
+      }
+      continue;
+    }
+
+    if (depth === 0 && kw === "DECLARE") {
+      declaring = expectVariable = true;
+      continue;
+    }
+    if (depth === 0 && kw === "BEGIN") {
+      declaring = expectVariable = false;
+      continue;
+    }
+    if (declaring && depth === 0 && isSymbol(token, ";")) {
+      expectVariable = true;
+      continue;
+    }
+    if (expectVariable && isName(token)) {
+      locals.add(token.text.toLowerCase());
+      expectVariable = false;
+      continue;
+    }
+
+    // common table expressions and named windows: name AS (
+    if (
+      isName(token) &&
+      keyword(tokens[i + 1]) === "AS" &&
+      isSymbol(tokens[i + 2], "(")
+    ) {
+      locals.add(token.text.toLowerCase());
+      continue;
+    }
+
+    if (kw && kw in REFERENCE_KEYWORDS) {
+      // ON DUPLICATE KEY UPDATE is followed by a column
+      if (kw === "UPDATE" && keyword(tokens[i - 1]) === "KEY") {
+        continue;
+      }
+      fromDepth = kw === "FROM" ? depth : undefined;
+
+      let kind = REFERENCE_KEYWORDS[kw];
+      let next = i + 1;
+      while (REFERENCE_MODIFIERS.has(keyword(tokens[next]) || "")) {
+        kind = REFERENCE_KEYWORDS[keyword(tokens[next]) || ""] || kind;
+        next++;
+      }
+      if (isName(tokens[next])) {
+        add(tokens[next], kind);
+        i = next;
+      }
+      continue;
+    }
+
+    if (fromDepth === depth) {
+      if (isSymbol(token, ",") && isName(tokens[i + 1])) {
+        add(tokens[i + 1], "table");
+        i++;
+        continue;
+      }
+      if (kw && kw !== "AS" && RESERVED.has(kw)) {
+        fromDepth = undefined;
+      }
+    }
+
+    if (isName(token) && isSymbol(tokens[i + 1], "(")) {
+      add(token, "call");
+    }
+  }
+
+  // table valued functions are both called and referenced by FROM
+  return Array.from(found.values()).filter(
+    (d) => d.kind !== "call" || !found.has(`table:${d.name.toLowerCase()}`)
+  );
+};
+
+const parseCreate = (
+  { tokens, statement }: RawStatement,
+  file: string
+): SchemaObject => {
+  let i = 1;
+  while (CREATE_MODIFIERS.has(keyword(tokens[i]) || "")) {
+    i++;
+  }
+
+  const kind = CREATE_KINDS[keyword(tokens[i]) || ""];
+  if (!kind) {
+    throw new SQLParseError(
+      file,
+      tokens[i]?.line ?? tokens[0].line,
+      `unsupported CREATE statement: ${tokens[i]?.text ?? "end of statement"}`
+    );
+  }
+  i++;
+
+  if (keyword(tokens[i]) === "IF") {
+    if (
+      keyword(tokens[i + 1]) !== "NOT" ||
+      keyword(tokens[i + 2]) !== "EXISTS"
+    ) {
+      throw new SQLParseError(file, tokens[i].line, "expected IF NOT EXISTS");
+    }
+    i += 3;
+  }
+
+  const nameToken = tokens[i];
+  if (!isName(nameToken)) {
+    throw new SQLParseError(
+      file,
+      nameToken?.line ?? tokens[0].line,
+      `expected the name of the ${kind}`
+    );
+  }
+  const name = nameToken.text;
+  const locals = new Set<string>();
+
+  let dependencies: Array<SchemaDependency> = [];
+  if (kind === "function" || kind === "procedure") {
+    const { params, bodyIdx } = routineHeader(tokens, i);
+    params.forEach((p) => locals.add(p.toLowerCase()));
+    dependencies = scanDependencies(tokens.slice(bodyIdx), locals);
+  } else if (kind !== "table") {
+    dependencies = scanDependencies(tokens.slice(i + 1), locals);
+  }
+
+  return { kind, name, dependencies, file, line: tokens[0].line, statement };
+};
+
+const parseStatement = (
+  { tokens, statement }: RawStatement,
+  file: string
+): SchemaObject => {
+  const dependencies = scanDependencies(tokens, new Set());
+  const target = dependencies.find((d) => d.kind !== "call");
+  const name =
+    target?.name ??
+    tokens
+      .filter((t) => t.type === "word")
+      .map((t) => t.text.toLowerCase())
+      .join(" ");
+
+  return {
+    kind: "statement",
+    name,
+    dependencies,
+    file,
+    line: tokens[0].line,
+    statement,
+  };
+};
+
+// splitStatements splits src into statements the same way parseSQL does,
+// counting the ? placeholders of each one outside of strings and comments
+export const splitStatements = (
+  src: string
+): Array<{ statement: string; placeholders: number }> =>
+  tokenize(src, "query").map(({ tokens, statement }) => ({
+    statement,
+    placeholders: tokens.filter((t) => t.type === "symbol" && t.text === "?")
+      .length,
+  }));
+
+// parseSQL parses the statements of a file, errors are thrown as a
+// SQLParseError
+export const parseSQL = (src: string, file: string): Array<SchemaObject> =>
+  tokenize(src, file).map((raw) => {
+    checkParens(raw.tokens, file);
+    return keyword(raw.tokens[0]) === "CREATE"
+      ? parseCreate(raw, file)
+      : parseStatement(raw, file);
+  });
@@ -4,6 +4,8 @@ import { useRecoilState, useRecoilValue, useSetRecoilState } from "recoil";
 import useSWR, { useSWRConfig } from "swr";
 
 import { SQLError } from "@/data/client";
+import { recordHandledError } from "@/data/instrumentation";
+import { needsUpgrade, schemaDrift, upgradeSchema } from "@/data/migrations";
 import { isConnected, resetSchema, schemaObjects } from "@/data/queries";
 import {
   connectionConfig,
@@ -22,8 +24,15 @@ const defaultSchemaObjects: { [key: string]: boolean } = Object.fromEntries(
   ].flat()
 );
 
-export const useSchemaObjects = (paused = false) => {
+// useConnectionConfig returns the connection config tagged with the name of
+// the caller, which is how queries are grouped in the query inspector
+export const useConnectionConfig = (caller: string) => {
   const config = useRecoilValue(connectionConfig);
+  return React.useMemo(() => ({ ...config, caller }), [config, caller]);
+};
+
+export const useSchemaObjects = (paused = false) => {
+  const config = useConnectionConfig("useSchemaObjects");
   return useSWR(
     ["schemaObjects", config, paused],
     () => schemaObjects(config),
@@ -38,12 +47,22 @@ export const useSchemaObjects = (paused = false) => {
   );
 };
 
+export const useSchemaDrift = (paused = false) => {
+  const config = useConnectionConfig("useSchemaDrift");
+  return useSWR(["schemaDrift", config, paused], () => schemaDrift(config), {
+    isPaused: () => paused,
+  });
+};
+
 export const useConnectionState = () => {
   // we are using ES6 spread syntax to remove database from config
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const { ...config } = useRecoilValue(connectionConfig);
-  const connected = useSWR(["isConnected", config], () => isConnected(config));
+  const connected = useSWR(["isConnected", config], () =>
+    isConnected({ ...config, caller: "useConnectionState" })
+  );
   const schemaObjs = useSchemaObjects(!connected.data);
+  const drift = useSchemaDrift(!connected.data);
   const portalConfig = useRecoilValue(portalConnectionConfig);
 
   let connectionType;
@@ -58,9 +77,13 @@ export const useConnectionState = () => {
     isValidatingConnection: connected.isValidating,
     initialized:
       !!connected.data && Object.values(schemaObjs.data || []).every(Boolean),
+
+    // the database was created by an older version of the app
+    needsUpgrade: !!connected.data && !!drift.data && needsUpgrade(drift.data),
     reset: () => {
       connected.mutate();
       schemaObjs.mutate();
+      drift.mutate();
     },
     connectionType,
   };
@@ -133,6 +156,20 @@ export const useTick = (
         if (e instanceof DOMException && e.name === "AbortError") {
           return;
         }
+        if (e instanceof SQLError && e.isTransient()) {
+          // recoverable blip, try again on the next tick
+          recordHandledError({
+            caller: tickID,
+            handling: "ignored",
+            at: Date.now(),
+            kind: e.kind,
+            code: e.code,
+            message: e.message,
+            sql: e.sql,
+          });
+          setTimeout(outerTick, intervalMS);
+          return;
+        }
         throw e;
       } finally {
         console.timeEnd(tickID);
@@ -167,11 +204,15 @@ export const useResetSchema = ({
   after,
   includeSeedData,
   resetDataOnly = false,
+  upgradeOnly = false,
 }: {
   before: () => void;
   after: () => void;
   includeSeedData: boolean;
   resetDataOnly: boolean;
+
+  // upgrade the schema in place instead of recreating the database
+  upgradeOnly?: boolean;
 }) => {
   const config = useRecoilValue(connectionConfig);
   const [isSimulatorEnabled, setSimulatorEnabled] =
@@ -187,35 +228,32 @@ export const useResetSchema = ({
     setResettingSchema(true);
     before();
 
-    // reset schema
-    await resetSchema(config, {
-      progress(title, status) {
-        const id = "reset-schema";
-        if (toast.isActive(id)) {
-          toast.update(id, {
-            title,
-            status,
-            duration: status === "success" ? 2000 : 7000,
-            isClosable: true,
-          });
-        } else {
-          toast({
-            id,
-            title,
-            status,
-            isClosable: true,
-            duration: status === "success" ? 2000 : 7000,
-          });
-        }
-      },
-      includeSeedData,
-      resetDataOnly,
-    });
+    const progress = (title: string, status: "info" | "success") => {
+      const id = "reset-schema";
+      if (toast.isActive(id)) {
+        toast.update(id, {
+          title,
+          status,
+          duration: status === "success" ? 2000 : 7000,
+          isClosable: true,
+        });
+      } else {
+        toast({
+          id,
+          title,
+          status,
+          isClosable: true,
+          duration: status === "success" ? 2000 : 7000,
+        });
+      }
+    };
 
-    // TODO: re-enable this once scale factors don't TKO clusters
-    // count number of partitions to set default scale factor
-    // const numPartitions = await countPartitions(config);
-    // setScaleFactor(pickScaleFactor(numPartitions));
+    // reset schema
+    if (upgradeOnly) {
+      await upgradeSchema(config, progress);
+    } else {
+      await resetSchema(config, { progress, includeSeedData, resetDataOnly });
+    }
 
     // post schema reset
     after();
@@ -230,6 +268,7 @@ export const useResetSchema = ({
     config,
     includeSeedData,
     resetDataOnly,
+    upgradeOnly,
     after,
     invalidateSWRCache,
     toast,
@@ -0,0 +1,44 @@
+import useSWRInfinite from "swr/infinite";
+
+import {
+  ConnectionConfig,
+  Page,
+  PageCursor,
+  PagedQuery,
+  QueryPage,
+} from "@/data/client";
+
+// usePagedQuery loads the first page of query and appends the next page every
+// time loadMore is called, key must change whenever the query changes
+export const usePagedQuery = <T>(
+  key: Array<unknown>,
+  config: ConnectionConfig,
+  query: PagedQuery<T>,
+  refreshInterval?: number
+) => {
+  const { data, size, setSize, isValidating } = useSWRInfinite<Page<T>>(
+    (pageIndex, previousPage: Page<T> | null) => {
+      if (previousPage && !previousPage.cursor) {
+        return null;
+      }
+      return [...key, config, previousPage?.cursor];
+    },
+    (...pageKey: Array<unknown>) =>
+      QueryPage(
+        config,
+        query,
+        pageKey[pageKey.length - 1] as PageCursor | undefined
+      ),
+    { refreshInterval }
+  );
+
+  const lastPage = data && data[data.length - 1];
+
+  return {
+    rows: data ? data.flatMap((page) => page.rows) : undefined,
+    isValidating,
+    isLoadingMore: !!data && data.length < size,
+    hasMore: !!lastPage?.cursor,
+    loadMore: () => setSize(size + 1),
+  };
+};
@@ -3,8 +3,8 @@ import useSWR from "swr";
 import { v4 as uuidv4 } from "uuid";
 
 import { updateSessions } from "@/data/queries";
-import { connectionConfig, resettingSchema } from "@/data/recoil";
-import { useConnectionState } from "@/view/hooks/hooks";
+import { resettingSchema } from "@/data/recoil";
+import { useConnectionConfig, useConnectionState } from "@/view/hooks/hooks";
 
 const SESSION_ID = (() => {
   const newUUID = () =>
@@ -28,7 +28,7 @@ const SESSION_ID = (() => {
 const SESSION_LEASE_SECONDS = 60;
 
 export const useSession = () => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("useSession");
   const isResettingSchema = useRecoilValue(resettingSchema);
   const { connected, initialized } = useConnectionState();
   const { data, mutate } = useSWR(
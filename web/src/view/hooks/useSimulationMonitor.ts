@@ -1,35 +1,56 @@
 import * as React from "react";
 import { useRecoilValue } from "recoil";
 
+import { RETRY_NOT_APPLIED, RETRY_TRANSIENT } from "@/data/client";
+import { createEventGenerator, insertEvents } from "@/data/generator";
+import { checkPlans, samplePlanCache } from "@/data/plancache";
 import {
-  checkPlans,
   ensurePipelinesAreRunning,
   ensurePipelinesExist,
-  truncateTimeseriesTables,
 } from "@/data/queries";
-import { configScaleFactor, connectionConfig } from "@/data/recoil";
-import { useConnectionState, useTick } from "@/view/hooks/hooks";
+import {
+  configPipelineSource,
+  configScaleFactor,
+  eventGeneratorConfig,
+  eventGeneratorEnabled,
+} from "@/data/recoil";
+import { truncateTimeseriesTables } from "@/data/retention";
+import {
+  useConnectionConfig,
+  useConnectionState,
+  useTick,
+} from "@/view/hooks/hooks";
 import { useSession } from "@/view/hooks/useSession";
 
 const TICK_INTERVAL_MONITOR = 10 * 1000;
+const TICK_INTERVAL_GENERATOR = 1000;
 
 export const useSimulationMonitor = (enabled: boolean) => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("useSimulationMonitor");
   const scaleFactor = useRecoilValue(configScaleFactor);
+  const source = useRecoilValue(configPipelineSource);
+  const generatorEnabled = useRecoilValue(eventGeneratorEnabled);
+  const generatorConfig = useRecoilValue(eventGeneratorConfig);
   const { initialized } = useConnectionState();
   const { session } = useSession();
 
   const monitorTick = React.useCallback(
     (ctx: AbortController) => {
-      const cfgWithCtx = { ...config, ctx };
+      const cfgWithCtx = { ...config, ctx, retry: RETRY_TRANSIENT };
+      const ensurePipelines = generatorEnabled
+        ? []
+        : [
+            ensurePipelinesExist(cfgWithCtx, scaleFactor, source),
+            ensurePipelinesAreRunning(cfgWithCtx),
+          ];
       return Promise.all([
-        ensurePipelinesExist(cfgWithCtx, scaleFactor),
-        ensurePipelinesAreRunning(cfgWithCtx),
+        ...ensurePipelines,
         truncateTimeseriesTables(cfgWithCtx, scaleFactor),
         checkPlans(cfgWithCtx),
+        samplePlanCache(cfgWithCtx),
       ]);
     },
-    [config, scaleFactor]
+    [config, scaleFactor, source, generatorEnabled]
   );
 
   useTick(monitorTick, {
@@ -37,4 +58,31 @@ export const useSimulationMonitor = (enabled: boolean) => {
     enabled: initialized && enabled && session.isController,
     intervalMS: TICK_INTERVAL_MONITOR,
   });
+
+  const generateEvents = React.useMemo(
+    () => createEventGenerator(generatorConfig),
+    [generatorConfig]
+  );
+  const lastGeneratedAt = React.useRef<number>();
+
+  const generatorTick = React.useCallback(
+    async (ctx: AbortController) => {
+      const now = performance.now();
+      const seconds = lastGeneratedAt.current
+        ? (now - lastGeneratedAt.current) / 1000
+        : 0;
+      lastGeneratedAt.current = now;
+      await insertEvents(
+        { ...config, ctx, retry: RETRY_NOT_APPLIED },
+        generateEvents(seconds)
+      );
+    },
+    [config, generateEvents]
+  );
+
+  useTick(generatorTick, {
+    name: "SimulatorEventGenerator",
+    enabled: initialized && enabled && generatorEnabled && session.isController,
+    intervalMS: TICK_INTERVAL_GENERATOR,
+  });
 };
@@ -1,24 +1,38 @@
 import * as React from "react";
 import { useRecoilValue } from "recoil";
 
+import { RETRY_NOT_APPLIED, RETRY_TRANSIENT } from "@/data/client";
 import { runMatchingProcess, runUpdateSegments } from "@/data/queries";
-import { connectionConfig } from "@/data/recoil";
+import { subscriberFrequencyCaps } from "@/data/recoil";
 import { toISOStringNoTZ } from "@/datetime";
-import { useConnectionState, useTick } from "@/view/hooks/hooks";
+import {
+  useConnectionConfig,
+  useConnectionState,
+  useTick,
+} from "@/view/hooks/hooks";
 import { useSession } from "@/view/hooks/useSession";
 
 const TICK_INTERVAL_MATCH = 1 * 1000;
 const TICK_INTERVAL_SEGMENTS = 1 * 1000;
 
 export const useSimulator = (enabled: boolean) => {
-  const config = useRecoilValue(connectionConfig);
+  const config = useConnectionConfig("useSimulator");
   const { initialized } = useConnectionState();
   const timestampCursor = React.useRef(toISOStringNoTZ(new Date(0)));
   const { session } = useSession();
 
+  const { interval, dailyCap } = useRecoilValue(subscriberFrequencyCaps);
+
+  // a matching run inserts notifications and spend, so it is only retried
+  // when it was rolled back
   const matchingTick = React.useCallback(
-    (ctx: AbortController) => runMatchingProcess({ ...config, ctx }, "minute"),
-    [config]
+    (ctx: AbortController) =>
+      runMatchingProcess(
+        { ...config, ctx, retry: RETRY_NOT_APPLIED },
+        interval,
+        dailyCap
+      ),
+    [config, interval, dailyCap]
   );
 
   useTick(matchingTick, {
@@ -30,7 +44,7 @@ export const useSimulator = (enabled: boolean) => {
   const updateSegmentsTick = React.useCallback(
     async (ctx: AbortController) => {
       timestampCursor.current = await runUpdateSegments(
-        { ...config, ctx },
+        { ...config, ctx, retry: RETRY_TRANSIENT },
         timestampCursor.current
       );
     },
@@ -1,10 +1,16 @@
 import react from "@vitejs/plugin-react";
-import { basename } from "path";
-import { defineConfig } from "vite";
+import { readdirSync, readFileSync } from "fs";
+import { join, relative, resolve } from "path";
+import { defineConfig, Plugin } from "vite";
 import tsconfigPaths from "vite-tsconfig-paths";
 
+import { SchemaGraphError, sortSchemaObjects } from "./src/schemagraph";
+import { parseSQL, SQLParseError } from "./src/sqlparser";
+
 // https://vitejs.dev/config/
 export default defineConfig({
+  // the SQL files are imported from ../sql
+  server: { fs: { allow: [".."] } },
   plugins: [
     tsconfigPaths(),
     react({
@@ -16,62 +22,50 @@ export default defineConfig({
   ],
 });
 
-function transformSQL() {
+// transformSQL turns every .sql file into an array of schema objects, parse
+// errors and missing or cyclic dependencies between the files in sql/ fail
+// the build with the file and line of the offending statement
+function transformSQL(): Plugin {
   const sqlRegex = /\.(sql)$/;
+  const schemaDir = resolve(__dirname, "../sql");
 
-  const parseStatement = (
-    raw: string
-  ): { kind: string; name?: string; statement: string } => {
-    const statement = raw.trim();
-    const kind = statement.split(" ")[0].trim().toLowerCase();
-    const name = statement.match(/^CREATE.+?(?<name>\w+)(as| )*\(?\n/i)?.groups
-      ?.name;
-    if (name) {
-      return { kind, name, statement };
-    }
-    return { kind, statement };
-  };
-
-  const parseStatements = (raw: string) =>
-    raw
-      .split(/(?<=;)/)
-      .filter((s) => !!s.trim())
-      .map(parseStatement);
-
-  const parseProcedures = (raw: string) =>
-    raw
-      .replace(/DELIMITER (\/\/|;)/g, "")
-      .split(/(?<=END \/\/)/)
-      .filter((s) => !!s.trim())
-      .map((s) => s.replace("END //", "END"))
-      .map(parseStatement);
-
-  const render = (data) => ({
-    code: `export default ${JSON.stringify(data)};`,
-    map: null,
-  });
+  const parseFile = (src: string, path: string) =>
+    parseSQL(src, relative(process.cwd(), path));
 
   return {
     name: "transform-sql",
 
-    transform(src: string, id: string) {
-      if (sqlRegex.test(id)) {
-        switch (basename(id)) {
-          case "schema.sql":
-            return render(parseStatements(src));
-
-          case "seed.sql":
-            return render(parseStatements(src));
-
-          case "pipelines.sql":
-            return render(parseStatements(src));
+    buildStart() {
+      try {
+        sortSchemaObjects(
+          readdirSync(schemaDir)
+            .filter((file) => sqlRegex.test(file))
+            .map((file) => join(schemaDir, file))
+            .flatMap((path) => parseFile(readFileSync(path, "utf8"), path))
+        );
+      } catch (e) {
+        if (e instanceof SQLParseError || e instanceof SchemaGraphError) {
+          this.error(e.message);
+        }
+        throw e;
+      }
+    },
 
-          case "functions.sql":
-            return render(parseProcedures(src));
+    transform(src: string, id: string) {
+      if (!sqlRegex.test(id)) {
+        return;
+      }
 
-          case "procedures.sql":
-            return render(parseProcedures(src));
+      try {
+        return {
+          code: `export default ${JSON.stringify(parseFile(src, id))};`,
+          map: null,
+        };
+      } catch (e) {
+        if (e instanceof SQLParseError) {
+          this.error(e.message, { line: e.line, column: 0 });
         }
+        throw e;
       }
     },
   };